@@ -4,6 +4,18 @@ import cors from 'cors';
 import { PrismaClient } from '@prisma/client';
 import { backendLogger, log } from './utils/logger';
 import { createTankValidator } from './utils/tank-validations';
+import { createAuthMiddleware } from './utils/auth';
+import { resolveTankForPump } from './utils/tank-mapping';
+import { evaluateQuality, parseQualityReadings } from './utils/volume-correction';
+import { COSTING_METHOD, getCostOfSales, recordSaleCost } from './utils/inventory-costing';
+import { applyClientAllocations, backfillLegacyCreditPayments, CLIENT_PAYMENT_METHODS, creditBalance, refreshClientBalance } from './utils/client-ledger';
+import { backfillUnsetCreditLimits, CREDIT_LIMIT_POLICIES, parseCreditLimit, requestClientCredit } from './utils/credit-limit';
+import { creditDueStatus } from './utils/receivables';
+import { scheduleMonthlyInterestAccrual } from './utils/client-interest';
+import { getPricePerLitreAt, getPricesAt, priceEffectiveFrom, schedulePrice, schedulePriceActivation, tradingInstant } from './utils/pricing';
+import { revalueForPurchasePrice } from './utils/stock-revaluation';
+import { normaliseGstin } from './utils/gst-invoices';
+import { parseTestingLitres, soldLitres } from './utils/pump-testing';
 
 // Constants
 const DEFAULT_MARGIN_PERCENTAGE = 0.12; // 12% margin
@@ -57,6 +69,7 @@ app.use((req, res, next) => {
         log.api(req.method, req.path, startTime, res.statusCode, {
             endpoint: req.path,
             method: req.method,
+            userId: req.user ? String(req.user.id) : undefined,
             ip: req.ip,
             userAgent: req.get('User-Agent')
         });
@@ -66,6 +79,9 @@ app.use((req, res, next) => {
     next();
 });
 
+// Authentication and role-based access for every /api route (see PERMISSION_MATRIX)
+app.use(createAuthMiddleware(prisma));
+
 const PORT = process.env.PORT ? Number(process.env.PORT) : 4000;
 
 app.get('/health', (_req, res) => {
@@ -262,7 +278,9 @@ app.get('/api/pumps', async (_req, res) => {
     try {
         const pumps = await prisma.pump.findMany({
             include: {
-                fuelType: true
+                fuelType: true,
+                tank: { select: { id: true, name: true } },
+                nozzles: true
             },
             orderBy: {
                 id: 'asc'
@@ -296,14 +314,16 @@ app.get('/api/credits', async (_req, res) => {
         const credits = await prisma.clientCredit.findMany({
             include: {
                 client: true,
-                fuelType: true
+                fuelType: true,
+                vehicle: true
             },
             orderBy: {
                 date: 'desc'
             }
         });
 
-        res.json(credits);
+        // Due date and overdue flag follow the client's payment terms
+        res.json(credits.map(credit => ({ ...credit, ...creditDueStatus(credit, credit.client.paymentTermsDays) })));
     } catch (error: any) {
         console.error('Error fetching credits:', error);
         res.status(500).json({ error: error.message });
@@ -461,7 +481,7 @@ app.get('/api/reports/trends', async (req, res) => {
             }
 
             // Calculate fuel sold and revenue from readings
-            const sold = Number(reading.closingLitres) - Number(reading.openingLitres);
+            const sold = soldLitres(reading);
             const pricePerLitre = Number(reading.pricePerLitre);
             const revenue = sold * pricePerLitre;
 
@@ -586,7 +606,7 @@ app.get('/api/reports/summary', async (req, res) => {
 
         // Convert readings to sales format for compatibility
         const sales = readings.map(reading => {
-            const litres = Number(reading.closingLitres) - Number(reading.openingLitres);
+            const litres = soldLitres(reading);
             const pricePerLitre = Number(reading.pricePerLitre);
             const calculatedRevenue = litres * pricePerLitre;
 
@@ -642,11 +662,11 @@ app.get('/api/reports/summary', async (req, res) => {
         });
         console.log('Found fuel types:', fuelTypes.length);
 
-        // Get current prices for profit calculations
-        const currentPrices = await prisma.price.findMany({
-            where: { isActive: true },
-            include: { fuelType: true }
-        });
+        // Realised cost of the litres sold, from the cost layers consumed by readings
+        const costingMethod = req.query.costingMethod === 'average' || req.query.costingMethod === 'fifo'
+            ? req.query.costingMethod
+            : COSTING_METHOD;
+        const costOfSales = Object.values(await getCostOfSales(prisma, startDate, endDate, costingMethod));
 
         // Calculate detailed profit analysis
         let totalCostPrice = 0;
@@ -669,18 +689,27 @@ app.get('/api/reports/summary', async (req, res) => {
             // Calculate average selling price from actual sales data
             const averageSellingPrice = totalLitresForType > 0 ? totalRevenueForType / totalLitresForType : 0;
 
-            // Get purchase price for this fuel type (cost price)
-            const purchasePrice = await prisma.purchasePrice.findFirst({
-                where: {
-                    fuelTypeId: fuelType.id,
-                    isActive: true
-                },
-                orderBy: { createdAt: 'desc' }
-            });
+            const realised = costOfSales.filter(c => c.fuelTypeId === fuelType.id);
+            const costedLitres = realised.reduce((sum, c) => sum + c.litres, 0);
+            const realisedCost = realised.reduce((sum, c) => sum + c.cost, 0);
 
-            const costPricePerLitre = purchasePrice ? Number(purchasePrice.perLitre) : averageSellingPrice * (1 - DEFAULT_MARGIN_PERCENTAGE); // Fallback to configured margin if no purchase price
+            // Sales recorded before cost layers existed have no realised cost; estimate those as before
+            const uncostedLitres = Math.max(totalLitresForType - costedLitres, 0);
+            let estimatedCost = 0;
+            if (uncostedLitres > 0) {
+                const purchasePrice = await prisma.purchasePrice.findFirst({
+                    where: {
+                        fuelTypeId: fuelType.id,
+                        isActive: true
+                    },
+                    orderBy: { createdAt: 'desc' }
+                });
 
-            const costPrice = totalLitresForType * costPricePerLitre;
+                const costPricePerLitre = purchasePrice ? Number(purchasePrice.perLitre) : averageSellingPrice * (1 - DEFAULT_MARGIN_PERCENTAGE); // Fallback to configured margin if no purchase price
+                estimatedCost = uncostedLitres * costPricePerLitre;
+            }
+
+            const costPrice = realisedCost + estimatedCost;
             const profit = totalRevenueForType - costPrice;
             const margin = totalRevenueForType > 0 ? (profit / totalRevenueForType) * 100 : 0;
 
@@ -710,7 +739,7 @@ app.get('/api/reports/summary', async (req, res) => {
                 fuelTypeStats[fuelTypeId] = { litres: 0, revenue: 0 };
             }
 
-            const sold = Number(reading.closingLitres) - Number(reading.openingLitres); // Closing - Opening = Fuel Sold
+            const sold = soldLitres(reading); // Closing - Opening - Testing = Fuel Sold
             const revenue = sold * Number(reading.pricePerLitre);
 
             fuelTypeStats[fuelTypeId].litres += sold;
@@ -733,6 +762,7 @@ app.get('/api/reports/summary', async (req, res) => {
             period: period as string,
             start: startDate.toISOString().split('T')[0],
             end: endDate.toISOString().split('T')[0],
+            costingMethod,
             totals: {
                 litres: totalLitres,
                 revenue: totalRevenue,
@@ -759,7 +789,7 @@ app.get('/api/reports/summary', async (req, res) => {
             todaySales: totalRevenue,
             todayProfit: totalProfit,
             totalCredits: totalCredits,
-            unpaidCredits: await prisma.clientCredit.count({ where: { status: 'unpaid' } })
+            unpaidCredits: await prisma.clientCredit.count({ where: { status: { in: ['unpaid', 'partially_paid'] } } })
         };
 
         res.json(summary);
@@ -770,52 +800,25 @@ app.get('/api/reports/summary', async (req, res) => {
 });
 
 // Add missing endpoints that frontend might need
-app.get('/api/prices/current', async (_req, res) => {
+app.get('/api/prices/current', async (req, res) => {
     try {
-        // Get current active prices for all fuel types
-        const prices = await prisma.price.findMany({
-            where: { isActive: true },
-            include: {
-                fuelType: true
-            },
-            orderBy: {
-                createdAt: 'desc'
-            }
-        });
+        // Prices in force now, or at `at` when given
+        const at = req.query.at ? new Date(String(req.query.at)) : new Date();
+        if (isNaN(at.getTime())) {
+            return res.status(400).json({ error: 'at must be a valid date' });
+        }
 
-        // Group by fuel type and get the latest price for each
         const currentPrices: Record<string, number> = {};
-        const fuelTypeMap: Record<number, string> = {};
-
-        // Create fuel type name mapping
-        const fuelTypes = await prisma.fuelType.findMany();
-        fuelTypes.forEach(ft => {
-            const key = ft.name.toLowerCase().replace(/\s+/g, '');
-            fuelTypeMap[ft.id] = key;
-        });
-
-        // Get latest price for each fuel type and track the most recent update
         let mostRecentUpdate: Date | null = null;
 
-        for (const fuelType of fuelTypes) {
-            const latestPrice = await prisma.price.findFirst({
-                where: {
-                    fuelTypeId: fuelType.id,
-                    isActive: true
-                },
-                orderBy: {
-                    createdAt: 'desc'
-                }
-            });
+        for (const { fuelType, price } of (await getPricesAt(prisma, at)).values()) {
+            if (!price) continue;
+            const key = fuelType.name.toLowerCase().replace(/\s+/g, '');
+            currentPrices[key] = Number(price.perLitre);
 
-            if (latestPrice) {
-                const key = fuelType.name.toLowerCase().replace(/\s+/g, '');
-                currentPrices[key] = Number(latestPrice.perLitre);
-
-                // Track the most recent update across all fuel types
-                if (!mostRecentUpdate || latestPrice.createdAt > mostRecentUpdate) {
-                    mostRecentUpdate = latestPrice.createdAt;
-                }
+            // Track the most recent change across all fuel types
+            if (!mostRecentUpdate || price.effectiveFrom > mostRecentUpdate) {
+                mostRecentUpdate = price.effectiveFrom;
             }
         }
 
@@ -863,7 +866,9 @@ app.get('/api/purchases', async (_req, res) => {
                     include: {
                         fuelType: true
                     }
-                }
+                },
+                supplierAccount: { select: { id: true, name: true } },
+                purchaseOrder: { select: { id: true, poNumber: true, status: true } }
             },
             orderBy: {
                 date: 'desc'
@@ -879,8 +884,20 @@ app.get('/api/purchases', async (_req, res) => {
 
 app.post('/api/purchases', async (req, res) => {
     try {
-        const { tankId, litres, unitCost, date } = req.body;
-        console.log('Creating purchase:', { tankId, litres, unitCost, date });
+        const { tankId, litres, unitCost, date, supplierId, invoiceNo } = req.body;
+        console.log('Creating purchase:', { tankId, litres, unitCost, date, supplierId });
+
+        const supplier = supplierId ? await prisma.supplier.findUnique({ where: { id: parseInt(supplierId) } }) : null;
+        if (supplierId && !supplier) {
+            return res.status(400).json({ message: 'Supplier not found' });
+        }
+
+        // Optional invoice density and decantation readings
+        const { readings: quality, error: qualityError } = parseQualityReadings(req.body);
+        if (qualityError) {
+            return res.status(400).json({ message: 'Invalid quality readings', error: qualityError });
+        }
+        const qualityResult = evaluateQuality(parseFloat(litres), quality);
 
         // Calculate total cost
         const totalCost = litres * unitCost;
@@ -892,6 +909,13 @@ app.post('/api/purchases', async (req, res) => {
                 litres: parseFloat(litres),
                 unitCost: parseFloat(unitCost),
                 totalCost: totalCost,
+                supplierId: supplier?.id,
+                supplier: supplier?.name,
+                invoiceNo,
+                // Bought outside a purchase order, so the supplier has billed it already
+                invoiceDate: supplier ? (date ? new Date(date) : new Date()) : null,
+                ...quality,
+                ...qualityResult,
                 date: date ? new Date(date) : new Date()
             },
             include: {
@@ -899,7 +923,8 @@ app.post('/api/purchases', async (req, res) => {
                     include: {
                         fuelType: true
                     }
-                }
+                },
+                supplierAccount: true
             }
         });
 
@@ -934,7 +959,7 @@ app.get('/api/prices/combined', async (_req, res) => {
         // Get historical prices for all fuel types (including active ones)
         const prices = await prisma.price.findMany({
             where: { fuelTypeId: { in: fuelTypes.map(ft => ft.id) } },
-            orderBy: { createdAt: 'desc' },
+            orderBy: { effectiveFrom: 'desc' },
             take: 200,
         });
 
@@ -943,8 +968,8 @@ app.get('/api/prices/combined', async (_req, res) => {
         // Group by exact timestamp to preserve individual updates
         const byTs = new Map<string, Record<string, any>>();
         for (const p of prices) {
-            const ts = p.createdAt.toISOString();
-            const row = byTs.get(ts) ?? { date: ts };
+            const ts = p.effectiveFrom.toISOString();
+            const row = byTs.get(ts) ?? { date: ts, scheduled: p.effectiveFrom > new Date() };
             const fuelType = fuelTypes.find(ft => ft.id === p.fuelTypeId);
             if (fuelType) {
                 const key = fuelType.name.toLowerCase().replace(/\s+/g, '');
@@ -972,8 +997,9 @@ app.get('/api/prices/combined', async (_req, res) => {
 
 app.post('/api/prices/set', async (req, res) => {
     try {
-        const { prices, date } = req.body;
-        console.log('Setting prices:', prices, 'for date:', date);
+        // `date` (or `effectiveFrom`) schedules the change; a bare date takes effect at the daily revision hour
+        const { prices, date, effectiveFrom, reason } = req.body;
+        console.log('Setting prices:', prices, 'effective:', effectiveFrom ?? date);
 
         // Validate required fields
         if (!prices || typeof prices !== 'object') {
@@ -985,11 +1011,12 @@ app.post('/api/prices/set', async (req, res) => {
         }
 
         // Validate date if provided
-        if (date && isNaN(new Date(date).getTime())) {
+        const effectiveAt = priceEffectiveFrom(effectiveFrom ?? date);
+        if (isNaN(effectiveAt.getTime())) {
             return res.status(400).json({
                 message: 'Invalid date',
                 error: 'Date must be a valid date string',
-                details: { date }
+                details: { date: effectiveFrom ?? date }
             });
         }
 
@@ -1002,12 +1029,6 @@ app.post('/api/prices/set', async (req, res) => {
             fuelTypeMap[key] = ft.id;
         });
 
-        // First, deactivate all current prices
-        await prisma.price.updateMany({
-            where: { isActive: true },
-            data: { isActive: false }
-        });
-
         // Validate and create new prices for each fuel type
         const priceEntries = [];
         for (const [fuelTypeName, price] of Object.entries(prices)) {
@@ -1030,27 +1051,30 @@ app.post('/api/prices/set', async (req, res) => {
                 });
             }
 
-            priceEntries.push({
-                fuelTypeId: fuelTypeId,
-                perLitre: priceNum,
-                isActive: true,
-                createdAt: date ? new Date(date) : new Date()
-            });
+            priceEntries.push({ fuelTypeId, perLitre: priceNum });
         }
 
-        const result = await prisma.price.createMany({
-            data: priceEntries
+        // The price in force at the effective time ends there; earlier and later prices are untouched
+        const created = await prisma.$transaction(async (tx) => {
+            const rows = [];
+            for (const entry of priceEntries) {
+                rows.push(await schedulePrice(tx, entry.fuelTypeId, entry.perLitre, effectiveAt, { reason, userId: req.user?.id }));
+            }
+            return rows;
         });
 
-        console.log(`Created ${result.count} new price records`);
+        console.log(`Created ${created.length} new price records effective ${effectiveAt.toISOString()}`);
 
         res.json({
             success: true,
-            message: 'Prices updated successfully',
-            data: { prices, date }
+            message: effectiveAt > new Date() ? 'Prices scheduled successfully' : 'Prices updated successfully',
+            data: { prices, date, effectiveFrom: effectiveAt, scheduled: effectiveAt > new Date() }
         });
     } catch (error: any) {
         console.error('Error setting prices:', error);
+        if (error.message.startsWith('Price clash')) {
+            return res.status(409).json({ message: 'Price clash', error: error.message });
+        }
         res.status(500).json({ error: error.message });
     }
 });
@@ -1058,8 +1082,28 @@ app.post('/api/prices/set', async (req, res) => {
 // Add missing POST endpoints that frontend needs
 app.post('/api/clients', async (req, res) => {
     try {
-        const { name, ownerName, phone, address, creditLimit } = req.body;
-        console.log('Creating client:', { name, ownerName, phone, address, creditLimit });
+        const { name, ownerName, phone, address, creditLimit, creditLimitPolicy, paymentTermsDays } = req.body;
+        const gstin = normaliseGstin(req.body.gstin);
+        console.log('Creating client:', { name, ownerName, phone, address, creditLimit, creditLimitPolicy, paymentTermsDays });
+
+        if (creditLimitPolicy !== undefined && !CREDIT_LIMIT_POLICIES.includes(creditLimitPolicy)) {
+            return res.status(400).json({ error: `creditLimitPolicy must be one of: ${CREDIT_LIMIT_POLICIES.join(', ')}` });
+        }
+        if (paymentTermsDays !== undefined && (!Number.isInteger(Number(paymentTermsDays)) || Number(paymentTermsDays) < 0)) {
+            return res.status(400).json({ error: 'paymentTermsDays must be a whole number of days, 0 or more' });
+        }
+        if (gstin === undefined) {
+            return res.status(400).json({ error: 'gstin is not a valid GSTIN' });
+        }
+        // No limit given means none is set; an explicit 0 allows no credit
+        let limit: number | null = null;
+        if (creditLimit !== undefined) {
+            const parsed = parseCreditLimit(creditLimit);
+            if ('error' in parsed) {
+                return res.status(400).json({ error: parsed.error });
+            }
+            limit = parsed.limit;
+        }
 
         // Create new client in database
         const newClient = await prisma.client.create({
@@ -1068,7 +1112,10 @@ app.post('/api/clients', async (req, res) => {
                 ownerName,
                 phone,
                 address,
-                creditLimit: creditLimit ? parseFloat(creditLimit) : 0,
+                gstin,
+                creditLimit: limit,
+                creditLimitPolicy,
+                paymentTermsDays: paymentTermsDays !== undefined ? Number(paymentTermsDays) : undefined,
                 balance: 0
             }
         });
@@ -1083,8 +1130,28 @@ app.post('/api/clients', async (req, res) => {
 app.put('/api/clients/:id', async (req, res) => {
     try {
         const { id } = req.params;
-        const { name, ownerName, phone, address, creditLimit, balance } = req.body;
-        console.log('Updating client:', id, { name, ownerName, phone, address, creditLimit, balance });
+        // Balance is derived from the client ledger and cannot be set here
+        const { name, ownerName, phone, address, creditLimit, creditLimitPolicy, paymentTermsDays } = req.body;
+        const gstin = normaliseGstin(req.body.gstin);
+        console.log('Updating client:', id, { name, ownerName, phone, address, creditLimit, creditLimitPolicy, paymentTermsDays });
+
+        if (creditLimitPolicy !== undefined && !CREDIT_LIMIT_POLICIES.includes(creditLimitPolicy)) {
+            return res.status(400).json({ error: `creditLimitPolicy must be one of: ${CREDIT_LIMIT_POLICIES.join(', ')}` });
+        }
+        if (paymentTermsDays !== undefined && (!Number.isInteger(Number(paymentTermsDays)) || Number(paymentTermsDays) < 0)) {
+            return res.status(400).json({ error: 'paymentTermsDays must be a whole number of days, 0 or more' });
+        }
+        if (gstin === undefined) {
+            return res.status(400).json({ error: 'gstin is not a valid GSTIN' });
+        }
+        let limit: number | null | undefined;
+        if (creditLimit !== undefined) {
+            const parsed = parseCreditLimit(creditLimit);
+            if ('error' in parsed) {
+                return res.status(400).json({ error: parsed.error });
+            }
+            limit = parsed.limit;
+        }
 
         // Update client in database
         const updatedClient = await prisma.client.update({
@@ -1094,8 +1161,10 @@ app.put('/api/clients/:id', async (req, res) => {
                 ownerName,
                 phone,
                 address,
-                creditLimit: creditLimit ? parseFloat(creditLimit) : undefined,
-                balance: balance ? parseFloat(balance) : undefined
+                gstin: req.body.gstin !== undefined ? gstin : undefined,
+                creditLimit: limit,
+                creditLimitPolicy,
+                paymentTermsDays: paymentTermsDays !== undefined ? Number(paymentTermsDays) : undefined
             }
         });
 
@@ -1125,9 +1194,13 @@ app.delete('/api/clients/:id', async (req, res) => {
             where: { clientId: parseInt(id) }
         });
 
-        if (clientCredits > 0 || clientSales > 0) {
+        const clientPayments = await prisma.clientPayment.count({
+            where: { clientId: parseInt(id) }
+        });
+
+        if (clientCredits > 0 || clientSales > 0 || clientPayments > 0) {
             return res.status(400).json({
-                error: 'Cannot delete client with existing credits or sales. Please clear all related records first.'
+                error: 'Cannot delete client with existing credits, sales or payments. Please clear all related records first.'
             });
         }
 
@@ -1147,60 +1220,100 @@ app.delete('/api/clients/:id', async (req, res) => {
     }
 });
 
+// Map a credit-limit checked credit request onto the HTTP response
+function respondToCreditRequest(res: express.Response, result: Awaited<ReturnType<typeof requestClientCredit>>) {
+    switch (result.outcome) {
+        case 'client_not_found':
+            return res.status(404).json({ error: 'Client not found' });
+        case 'invalid_vehicle':
+            return res.status(400).json({ message: 'Vehicle not allowed to draw this credit', error: result.error });
+        case 'invalid_slip':
+            return res.status(400).json({ message: 'Invalid indent slip', error: result.error });
+        case 'blocked':
+            return res.status(403).json({
+                message: 'Credit limit exceeded',
+                error: result.check.message,
+                details: result.check
+            });
+        case 'pending':
+            return res.status(202).json({
+                message: 'Credit limit exceeded; credit is waiting for manager approval',
+                pendingApproval: true,
+                approval: result.approval,
+                details: result.check
+            });
+        default:
+            return res.status(201).json(result.warning ? { ...result.credit, creditLimitWarning: result.warning } : result.credit);
+    }
+}
+
 app.post('/api/credits', async (req, res) => {
     try {
-        const { clientId, fuelTypeId, litres, pricePerLitre, totalAmount, date, note } = req.body;
-        console.log('Adding credit:', { clientId, fuelTypeId, litres, pricePerLitre, totalAmount, date, note });
-
-        // Create credit in database
-        const newCredit = await prisma.clientCredit.create({
-            data: {
-                clientId: parseInt(clientId),
-                fuelTypeId: parseInt(fuelTypeId),
-                litres: parseFloat(litres),
-                pricePerLitre: parseFloat(pricePerLitre),
-                totalAmount: parseFloat(totalAmount),
-                date: date ? new Date(date) : new Date(),
-                note: note || ""
-            },
-            include: {
-                client: true,
-                fuelType: true
-            }
-        });
-
-        res.status(201).json(newCredit);
+        const { clientId, fuelTypeId, litres, pricePerLitre, totalAmount, date, note, vehicleId, slipNo, slipSeries } = req.body;
+        console.log('Adding credit:', { clientId, fuelTypeId, litres, pricePerLitre, totalAmount, date, note, vehicleId, slipNo, slipSeries });
+
+        // Create credit in database and post it to the client ledger, subject to the client's credit limit
+        const result = await requestClientCredit(prisma, {
+            clientId: parseInt(clientId),
+            fuelTypeId: parseInt(fuelTypeId),
+            litres: parseFloat(litres),
+            pricePerLitre: parseFloat(pricePerLitre),
+            totalAmount: parseFloat(totalAmount),
+            date: date ? new Date(date) : new Date(),
+            note: note || "",
+            vehicleId: vehicleId ? parseInt(vehicleId) : null,
+            slipNo: slipNo !== undefined && slipNo !== null && slipNo !== '' ? Number(slipNo) : null,
+            slipSeries
+        }, req.user?.id);
+
+        respondToCreditRequest(res, result);
     } catch (error: any) {
         console.error('Error creating credit:', error);
         res.status(500).json({ error: error.message });
     }
 });
 
-// Mark credit as paid with payment method
+// Settle the rest of one credit in full; lump-sum and partial payments go through POST /api/clients/:id/payments
 app.put('/api/credits/:id/mark-paid', async (req, res) => {
     try {
         const { id } = req.params;
-        const { paymentMethod } = req.body;
+        const { paymentMethod, reference, note } = req.body;
         console.log('Marking credit as paid:', id, 'Payment method:', paymentMethod);
 
-        // Validate payment method
-        const validMethods = ['UPI', 'Worker', 'Owner'];
-        if (!paymentMethod || !validMethods.includes(paymentMethod)) {
-            return res.status(400).json({ error: 'Payment method is required. Valid options: UPI, Worker, Owner' });
+        if (!paymentMethod || !CLIENT_PAYMENT_METHODS.includes(paymentMethod)) {
+            return res.status(400).json({ error: `Payment method is required. Valid options: ${CLIENT_PAYMENT_METHODS.join(', ')}` });
         }
 
-        // Update credit status to paid with payment method
-        const updatedCredit = await prisma.clientCredit.update({
-            where: { id: parseInt(id) },
-            data: {
-                status: 'paid',
-                paidDate: new Date(),
-                paymentMethod: paymentMethod
-            } as any, // Type assertion to bypass Prisma type checking temporarily
-            include: {
-                client: true,
-                fuelType: true
-            }
+        const credit = await prisma.clientCredit.findUnique({ where: { id: parseInt(id) } });
+        if (!credit) {
+            return res.status(404).json({ error: 'Credit not found' });
+        }
+        if (credit.status === 'paid') {
+            return res.status(400).json({ error: 'Credit is already paid' });
+        }
+
+        const updatedCredit = await prisma.$transaction(async (tx) => {
+            const allocation = { creditId: credit.id, amount: creditBalance(credit) };
+            await tx.clientPayment.create({
+                data: {
+                    clientId: credit.clientId,
+                    amount: allocation.amount,
+                    paymentMethod,
+                    reference: reference || `CR-${credit.id}`,
+                    note,
+                    date: new Date(),
+                    allocations: { create: [allocation] }
+                }
+            });
+            await applyClientAllocations(tx, [allocation], paymentMethod);
+            await refreshClientBalance(tx, credit.clientId);
+            return tx.clientCredit.findUnique({
+                where: { id: credit.id },
+                include: {
+                    client: true,
+                    fuelType: true
+                }
+            });
         });
 
         res.json(updatedCredit);
@@ -1312,26 +1425,20 @@ app.get('/api/validation', async (req, res) => {
             }
         });
 
-        // Get current prices to calculate gross sales from readings
-        const prices = await prisma.price.findMany({
-            where: {
-                isActive: true
-            },
-            include: {
-                fuelType: true
-            }
-        });
+        // Prices in force on the day being validated
+        const pricesAt = await getPricesAt(prisma, tradingInstant(targetDate));
+        const prices = Array.from(pricesAt.values()).filter(p => p.price).map(p => p.price!);
 
-        // Calculate gross sales from readings (actual fuel sold * current prices)
+        // Calculate gross sales from readings (actual fuel sold * that day's prices)
         let grossSales = 0;
         console.log(`Validation for ${targetDate.toISOString().split('T')[0]}: Found ${readings.length} readings`);
 
         readings.forEach(reading => {
-            // Fuel sold = Opening - Closing (fuel that went out of the tank)
-            const fuelSold = Number(reading.closingLitres) - Number(reading.openingLitres);
+            // Fuel sold = Closing - Opening, less litres dispensed for testing and poured back
+            const fuelSold = soldLitres(reading);
             const currentPrice = prices.find(p => p.fuelTypeId === reading.pump.fuelTypeId);
 
-            console.log(`Pump ${reading.pumpId}: Opening=${reading.openingLitres}L, Closing=${reading.closingLitres}L, Sold=${fuelSold}L at ₹${currentPrice?.perLitre || 0}/L`);
+            console.log(`Pump ${reading.pumpId}: Opening=${reading.openingLitres}L, Closing=${reading.closingLitres}L, Testing=${reading.testingLitres}L, Sold=${fuelSold}L at ₹${currentPrice?.perLitre || 0}/L`);
 
             // Only count positive fuel sales (fuel sold, not fuel added)
             if (currentPrice && fuelSold > 0) {
@@ -1375,17 +1482,12 @@ app.get('/api/validation', async (req, res) => {
             }
         });
 
-        // Get credit payments (credits paid today - money received from previous credit sales)
-        // Only count payments made by workers or UPI, not owner payments (since owner has that money)
-        const creditPayments = await prisma.clientCredit.findMany({
+        // Get credit payments (client payments received today against earlier credit sales, partial ones included)
+        const creditPayments = await prisma.clientPayment.findMany({
             where: {
-                paidDate: {
+                date: {
                     gte: startDate,
                     lte: endDate
-                },
-                status: 'paid',
-                paymentMethod: {
-                    in: ['Worker', 'UPI'] // Only count worker and UPI payments, exclude 'Owner'
                 }
             }
         });
@@ -1394,12 +1496,12 @@ app.get('/api/validation', async (req, res) => {
         const totalCashReceipts = cashReceipts.reduce((sum, receipt) => sum + Number(receipt.amount), 0);
         const totalOnlinePayments = onlinePayments.reduce((sum, payment) => sum + Number(payment.amount), 0);
         const totalCreditSales = creditSales.reduce((sum, credit) => sum + Number(credit.totalAmount), 0);
-        const totalCreditPayments = creditPayments.reduce((sum, credit) => sum + Number(credit.totalAmount), 0);
+        const totalCreditPayments = creditPayments.reduce((sum, payment) => sum + Number(payment.amount), 0);
 
         console.log(`Money received breakdown:`);
         console.log(`- Cash receipts: ₹${totalCashReceipts.toFixed(2)} (${cashReceipts.length} receipts)`);
         console.log(`- Online payments: ₹${totalOnlinePayments.toFixed(2)} (${onlinePayments.length} payments)`);
-        console.log(`- Credit payments (Worker/UPI only): ₹${totalCreditPayments.toFixed(2)} (${creditPayments.length} payments)`);
+        console.log(`- Credit payments: ₹${totalCreditPayments.toFixed(2)} (${creditPayments.length} payments)`);
         console.log(`- Credit sales: ₹${totalCreditSales.toFixed(2)} (${creditSales.length} credits)`);
 
         // Total money received = Cash + Online + Credit Payments
@@ -1457,7 +1559,7 @@ app.get('/api/readings', async (_req, res) => {
 
 app.post('/api/readings', async (req, res) => {
     try {
-        const { pumpId, date, openingLitres, closingLitres, pricePerLitre } = req.body;
+        const { pumpId, date, openingLitres, closingLitres, pricePerLitre, testingLitres } = req.body;
 
         // Validate required fields
         if (!pumpId || !date || openingLitres === undefined || closingLitres === undefined) {
@@ -1514,11 +1616,14 @@ app.post('/api/readings', async (req, res) => {
             });
         }
 
-        // Calculate revenue automatically: fuel sold × price per litre
-        const fuelSold = closingLitresNum - openingLitresNum;
-        const calculatedRevenue = fuelSold > 0 ? fuelSold * (pricePerLitreNum || 0) : 0;
-
-        console.log('Saving reading:', { pumpId, date, openingLitres, closingLitres, pricePerLitre, fuelSold, calculatedRevenue });
+        const testing = parseTestingLitres(testingLitres, openingLitresNum, closingLitresNum);
+        if ('error' in testing) {
+            return res.status(400).json({
+                message: 'Invalid testing litres',
+                error: testing.error,
+                details: { testingLitres }
+            });
+        }
 
         // Get pump details to find fuel type
         const pump = await prisma.pump.findUnique({
@@ -1530,21 +1635,33 @@ app.post('/api/readings', async (req, res) => {
             return res.status(404).json({ error: 'Pump not found' });
         }
 
-        // Find the tank for this fuel type
-        const tank = await prisma.tank.findFirst({
-            where: {
-                fuelTypeId: pump.fuelTypeId,
-                isActive: true
-            }
-        });
+        // Without an explicit price, use the price in force on the reading's date
+        const unitPrice = pricePerLitre !== undefined && pricePerLitre !== null && pricePerLitre !== ''
+            ? pricePerLitreNum
+            : await getPricePerLitreAt(prisma, pump.fuelTypeId, tradingInstant(new Date(date)));
+
+        // Calculate revenue automatically: fuel sold (meter movement less testing) × price per litre
+        const fuelSold = soldLitres({ openingLitres: openingLitresNum, closingLitres: closingLitresNum, testingLitres: testing.litres });
+        const calculatedRevenue = fuelSold > 0 ? fuelSold * unitPrice : 0;
+
+        console.log('Saving reading:', { pumpId, date, openingLitres, closingLitres, testingLitres: testing.litres, pricePerLitre: unitPrice, fuelSold, calculatedRevenue });
+
+        // Find the tank this pump draws from
+        const tank = await resolveTankForPump(prisma, pump);
 
         if (!tank) {
             return res.status(404).json({ error: `No active tank found for fuel type: ${pump.fuelType.name}` });
         }
 
+        // Only the change against an existing reading for this pump and day leaves the tank
+        const existingReading = await prisma.dailyReading.findUnique({
+            where: { pumpId_date: { pumpId: pumpIdNum, date: new Date(date) } }
+        });
+        const netFuelSold = existingReading ? fuelSold - soldLitres(existingReading) : fuelSold;
+
         // Validate tank capacity before proceeding (if fuel was sold)
-        if (fuelSold > 0) {
-            const validation = await tankValidator.validateSale(tank.id, fuelSold);
+        if (netFuelSold > 0) {
+            const validation = await tankValidator.validateSale(tank.id, netFuelSold);
             if (!validation.isValid) {
                 return res.status(400).json({
                     message: 'Reading validation failed',
@@ -1553,7 +1670,7 @@ app.post('/api/readings', async (req, res) => {
                         availableFuel: validation.availableFuel,
                         currentLevel: validation.currentLevel,
                         capacity: validation.capacity,
-                        fuelSold
+                        fuelSold: netFuelSold
                     }
                 });
             }
@@ -1572,7 +1689,8 @@ app.post('/api/readings', async (req, res) => {
                 update: {
                     openingLitres: openingLitresNum,
                     closingLitres: closingLitresNum,
-                    pricePerLitre: pricePerLitreNum,
+                    testingLitres: testing.litres,
+                    pricePerLitre: unitPrice,
                     revenue: calculatedRevenue
                 },
                 create: {
@@ -1580,7 +1698,8 @@ app.post('/api/readings', async (req, res) => {
                     date: new Date(date),
                     openingLitres: openingLitresNum,
                     closingLitres: closingLitresNum,
-                    pricePerLitre: pricePerLitreNum,
+                    testingLitres: testing.litres,
+                    pricePerLitre: unitPrice,
                     revenue: calculatedRevenue
                 },
                 include: {
@@ -1593,19 +1712,19 @@ app.post('/api/readings', async (req, res) => {
             });
 
             // Deduct fuel from tank if fuel was sold
-            if (fuelSold > 0) {
-                const newTankLevel = Number(tank.currentLevel) - fuelSold;
+            if (netFuelSold !== 0) {
+                const newTankLevel = Number(tank.currentLevel) - netFuelSold;
 
                 // Double-check capacity (in case of race conditions)
                 if (newTankLevel < 0) {
                     return res.status(400).json({
                         message: 'Insufficient fuel in tank',
-                        error: `Cannot sell ${fuelSold}L of fuel. Tank only has ${tank.currentLevel}L available.`,
+                        error: `Cannot sell ${netFuelSold}L of fuel. Tank only has ${tank.currentLevel}L available.`,
                         details: {
                             tankId: tank.id,
                             tankName: tank.name,
                             availableFuel: Number(tank.currentLevel),
-                            tryingToSell: fuelSold,
+                            tryingToSell: netFuelSold,
                             shortage: Math.abs(newTankLevel)
                         }
                     });
@@ -1616,7 +1735,9 @@ app.post('/api/readings', async (req, res) => {
                     data: { currentLevel: newTankLevel }
                 });
 
-                console.log(`Deducted ${fuelSold}L from ${tank.name}. New level: ${newTankLevel}L`);
+                await recordSaleCost(tx, tank.id, netFuelSold, { sourceType: 'reading', sourceId: reading.id, date: reading.date });
+
+                console.log(`Deducted ${netFuelSold}L from ${tank.name}. New level: ${newTankLevel}L`);
             }
 
             return reading;
@@ -1701,11 +1822,21 @@ app.post('/api/readings/bulk', async (req, res) => {
                     details: { openingLitres, closingLitres }
                 });
             }
+
+            const testing = parseTestingLitres(reading.testingLitres, openingLitres, closingLitres);
+            if ('error' in testing) {
+                return res.status(400).json({
+                    message: 'Invalid testing litres',
+                    error: testing.error,
+                    details: { pumpId, testingLitres: reading.testingLitres }
+                });
+            }
         }
 
-        // Group readings by fuel type to calculate NET fuel sold per fuel type
-        const fuelTypeTotals: Record<number, number> = {};
+        // Group readings by tank to calculate NET fuel sold per tank
+        const tankTotals: Record<number, number> = {};
         const savedReadings = [];
+        const saleCosts: { tankId: number; litres: number; readingId: number; date: Date }[] = [];
 
         // First pass: get existing readings to calculate differences
         const existingReadings = await prisma.dailyReading.findMany({
@@ -1726,9 +1857,10 @@ app.post('/api/readings/bulk', async (req, res) => {
             existingReadingsMap.set(key, reading);
         });
 
-        // First pass: save all readings and calculate NET fuel sold per fuel type
+        // First pass: save all readings and calculate NET fuel sold per tank
         for (const reading of readings) {
             const { pumpId, date, openingLitres, closingLitres, pricePerLitre, revenue } = reading;
+            const testingLitres = Number(reading.testingLitres || 0);
 
             // Get pump details to find fuel type
             const pump = await prisma.pump.findUnique({
@@ -1744,8 +1876,16 @@ app.post('/api/readings/bulk', async (req, res) => {
                 });
             }
 
-            // Calculate new fuel sold
-            const newFuelSold = parseFloat(closingLitres) - parseFloat(openingLitres);
+            // Calculate new fuel sold; testing litres go back into the tank
+            const newFuelSold = soldLitres({ openingLitres, closingLitres, testingLitres });
+
+            // Without an explicit price, use the price in force on the reading's date
+            const unitPrice = pricePerLitre !== undefined && pricePerLitre !== null && pricePerLitre !== ''
+                ? parseFloat(pricePerLitre)
+                : await getPricePerLitreAt(prisma, pump.fuelTypeId, tradingInstant(new Date(date)));
+            const readingRevenue = revenue !== undefined && revenue !== null && revenue !== ''
+                ? parseFloat(revenue)
+                : Math.max(newFuelSold, 0) * unitPrice;
 
             // Check if there's an existing reading for this pump/date
             const key = `${pumpId}_${new Date(date).toISOString().split('T')[0]}`;
@@ -1754,14 +1894,15 @@ app.post('/api/readings/bulk', async (req, res) => {
             let netFuelSold = newFuelSold;
             if (existingReading) {
                 // Calculate the difference: new fuel sold - old fuel sold
-                const oldFuelSold = parseFloat(existingReading.closingLitres) - parseFloat(existingReading.openingLitres);
+                const oldFuelSold = soldLitres(existingReading);
                 netFuelSold = newFuelSold - oldFuelSold;
                 console.log(`Pump ${pumpId}: Old fuel sold: ${oldFuelSold}L, New fuel sold: ${newFuelSold}L, Net change: ${netFuelSold}L`);
             }
 
-            // Add NET fuel sold to fuel type totals (only if there's a change)
-            if (netFuelSold !== 0) {
-                fuelTypeTotals[pump.fuelTypeId] = (fuelTypeTotals[pump.fuelTypeId] || 0) + netFuelSold;
+            // Add NET fuel sold to the totals of the tank this pump draws from (only if there's a change)
+            const pumpTank = netFuelSold !== 0 ? await resolveTankForPump(prisma, pump) : null;
+            if (pumpTank) {
+                tankTotals[pumpTank.id] = (tankTotals[pumpTank.id] || 0) + netFuelSold;
             }
 
             // UPSERT: Update existing reading for this pump+date, or create new one
@@ -1784,8 +1925,9 @@ app.post('/api/readings/bulk', async (req, res) => {
                     data: {
                         openingLitres: parseFloat(openingLitres),
                         closingLitres: parseFloat(closingLitres),
-                        pricePerLitre: parseFloat(pricePerLitre),
-                        revenue: parseFloat(revenue || 0)
+                        testingLitres,
+                        pricePerLitre: unitPrice,
+                        revenue: readingRevenue
                     },
                     include: {
                         pump: {
@@ -1802,8 +1944,9 @@ app.post('/api/readings/bulk', async (req, res) => {
                         date: new Date(date),
                         openingLitres: parseFloat(openingLitres),
                         closingLitres: parseFloat(closingLitres),
-                        pricePerLitre: parseFloat(pricePerLitre),
-                        revenue: parseFloat(revenue || 0)
+                        testingLitres,
+                        pricePerLitre: unitPrice,
+                        revenue: readingRevenue
                     },
                     include: {
                         pump: {
@@ -1815,16 +1958,16 @@ app.post('/api/readings/bulk', async (req, res) => {
             }
 
             savedReadings.push(savedReading);
+            if (pumpTank) {
+                saleCosts.push({ tankId: pumpTank.id, litres: netFuelSold, readingId: savedReading.id, date: savedReading.date });
+            }
         }
 
         // Second pass: adjust tank levels based on NET fuel changes using transaction
         await prisma.$transaction(async (tx) => {
-            for (const [fuelTypeId, netFuelChange] of Object.entries(fuelTypeTotals)) {
-                const tank = await tx.tank.findFirst({
-                    where: {
-                        fuelTypeId: parseInt(fuelTypeId),
-                        isActive: true
-                    }
+            for (const [tankId, netFuelChange] of Object.entries(tankTotals)) {
+                const tank = await tx.tank.findUnique({
+                    where: { id: parseInt(tankId) }
                 });
 
                 if (tank) {
@@ -1841,12 +1984,16 @@ app.post('/api/readings/bulk', async (req, res) => {
                     });
 
                     if (netFuelChange > 0) {
-                        console.log(`Deducted ${netFuelChange}L from ${tank.name} (fuel type ${fuelTypeId}). New level: ${newTankLevel}L`);
+                        console.log(`Deducted ${netFuelChange}L from ${tank.name} (fuel type ${tank.fuelTypeId}). New level: ${newTankLevel}L`);
                     } else if (netFuelChange < 0) {
-                        console.log(`Added ${Math.abs(netFuelChange)}L back to ${tank.name} (fuel type ${fuelTypeId}). New level: ${newTankLevel}L`);
+                        console.log(`Added ${Math.abs(netFuelChange)}L back to ${tank.name} (fuel type ${tank.fuelTypeId}). New level: ${newTankLevel}L`);
                     }
                 }
             }
+
+            for (const sale of saleCosts) {
+                await recordSaleCost(tx, sale.tankId, sale.litres, { sourceType: 'reading', sourceId: sale.readingId, date: sale.date });
+            }
         });
 
         res.status(201).json({
@@ -1907,8 +2054,8 @@ app.get('/api/purchase-prices', async (_req, res) => {
 
 app.post('/api/purchase-prices', async (req, res) => {
     try {
-        const { prices } = req.body;
-        console.log('Saving purchase prices:', prices);
+        const { prices, reason } = req.body;
+        console.log('Saving purchase prices:', prices, reason);
 
         const results = [];
 
@@ -1936,9 +2083,12 @@ app.post('/api/purchase-prices', async (req, res) => {
                         data: {
                             fuelTypeId: tank.fuelTypeId,
                             perLitre: priceValue,
-                            isActive: true
+                            isActive: true,
+                            reason,
+                            changedById: req.user?.id
                         }
                     });
+                    await revalueForPurchasePrice(prisma, newPurchasePrice);
 
                     results.push({
                         tankId: parseInt(tankId),
@@ -1989,6 +2139,24 @@ import { createOnlinePaymentsRouter } from './routes/online-payments';
 import { createValidationRouter } from './routes/validation';
 import { createSeedRouter } from './routes/seed';
 import logsRouter from './routes/logs';
+import { createAuthRouter } from './routes/auth';
+import { createUsersRouter } from './routes/users';
+import { createShiftsRouter } from './routes/shifts';
+import { createNozzlesRouter } from './routes/nozzles';
+import { createTankDipsRouter } from './routes/tank-dips';
+import { createTankCalibrationRouter } from './routes/tank-calibration';
+import { createSuppliersRouter } from './routes/suppliers';
+import { createPurchaseOrdersRouter } from './routes/purchase-orders';
+import { createSupplierPaymentsRouter } from './routes/supplier-payments';
+import { createClientsRouter } from './routes/clients';
+import { createCreditApprovalsRouter } from './routes/credit-approvals';
+import { createVehiclesRouter } from './routes/vehicles';
+import { createSlipBooksRouter } from './routes/slip-books';
+import { createGstInvoicesRouter } from './routes/gst-invoices';
+import { createGstReturnsRouter } from './routes/gst-returns';
+import { createTallyRouter } from './routes/tally';
+import { createPumpCalibrationsRouter } from './routes/pump-calibrations';
+import { createTankCapacityRouter } from './routes/tank-capacity';
 
 // Register the routes
 app.use('/api/tanks', createTanksRouter(prisma));
@@ -2002,6 +2170,24 @@ app.use('/api/online-payments', createOnlinePaymentsRouter(prisma));
 app.use('/api/validation', createValidationRouter(prisma));
 app.use('/api/seed', createSeedRouter(prisma));
 app.use('/api/logs', logsRouter);
+app.use('/api/auth', createAuthRouter(prisma));
+app.use('/api/users', createUsersRouter(prisma));
+app.use('/api/shifts', createShiftsRouter(prisma, tankValidator));
+app.use('/api/nozzles', createNozzlesRouter(prisma, tankValidator));
+app.use('/api/tank-dips', createTankDipsRouter(prisma));
+app.use('/api/tank-calibration', createTankCalibrationRouter(prisma));
+app.use('/api/tank-capacity', createTankCapacityRouter(prisma));
+app.use('/api/suppliers', createSuppliersRouter(prisma));
+app.use('/api/purchase-orders', createPurchaseOrdersRouter(prisma, tankValidator));
+app.use('/api/supplier-payments', createSupplierPaymentsRouter(prisma));
+app.use('/api/clients', createClientsRouter(prisma));
+app.use('/api/credit-approvals', createCreditApprovalsRouter(prisma));
+app.use('/api/vehicles', createVehiclesRouter(prisma));
+app.use('/api/slip-books', createSlipBooksRouter(prisma));
+app.use('/api/gst-invoices', createGstInvoicesRouter(prisma));
+app.use('/api/gst-returns', createGstReturnsRouter(prisma));
+app.use('/api/tally', createTallyRouter(prisma));
+app.use('/api/pump-calibrations', createPumpCalibrationsRouter(prisma));
 
 // Reports diagnostic endpoint
 app.get('/api/reports/debug', async (req, res) => {
@@ -2101,10 +2287,7 @@ app.get('/api/reports/debug', async (req, res) => {
 
         // Calculate what the reports should show
         const totalRevenue = readings.reduce((sum, reading) => sum + Number(reading.revenue), 0);
-        const totalLitres = readings.reduce((sum, reading) => {
-            const sold = Number(reading.closingLitres) - Number(reading.openingLitres);
-            return sum + sold;
-        }, 0);
+        const totalLitres = readings.reduce((sum, reading) => sum + soldLitres(reading), 0);
 
         res.json({
             debug: {
@@ -2201,10 +2384,10 @@ app.get('/api/credits', async (req, res) => {
 
         const credits = await prisma.clientCredit.findMany({
             where,
-            include: { client: true, fuelType: true },
+            include: { client: true, fuelType: true, vehicle: true },
             orderBy: { createdAt: 'desc' }
         });
-        res.json(credits);
+        res.json(credits.map(credit => ({ ...credit, ...creditDueStatus(credit, credit.client.paymentTermsDays) })));
     } catch (error: any) {
         console.error('Error fetching credits:', error);
         res.status(500).json({ error: error.message });
@@ -2213,21 +2396,22 @@ app.get('/api/credits', async (req, res) => {
 
 app.post('/api/credits', async (req, res) => {
     try {
-        const { clientId, fuelTypeId, litres, pricePerLitre, totalAmount, status, paymentMethod, note } = req.body;
-        const credit = await prisma.clientCredit.create({
-            data: {
-                clientId,
-                fuelTypeId,
-                litres,
-                pricePerLitre,
-                totalAmount,
-                status: status || 'unpaid',
-                paymentMethod,
-                note,
-                date: new Date()
-            }
-        });
-        res.status(201).json(credit);
+        const { clientId, fuelTypeId, litres, pricePerLitre, totalAmount, status, paymentMethod, note, vehicleId, slipNo, slipSeries } = req.body;
+        const result = await requestClientCredit(prisma, {
+            clientId: Number(clientId),
+            fuelTypeId: Number(fuelTypeId),
+            litres: Number(litres),
+            pricePerLitre: Number(pricePerLitre),
+            totalAmount: Number(totalAmount),
+            status: status || 'unpaid',
+            paymentMethod,
+            note,
+            vehicleId: vehicleId ? Number(vehicleId) : null,
+            slipNo: slipNo !== undefined && slipNo !== null && slipNo !== '' ? Number(slipNo) : null,
+            slipSeries,
+            date: new Date()
+        }, req.user?.id);
+        respondToCreditRequest(res, result);
     } catch (error: any) {
         console.error('Error creating credit:', error);
         res.status(500).json({ error: error.message });
@@ -2238,14 +2422,34 @@ app.put('/api/credits/:id/mark-paid', async (req, res) => {
     try {
         const { id } = req.params;
         const { paymentMethod, note } = req.body;
-        const credit = await prisma.clientCredit.update({
-            where: { id: parseInt(id) },
-            data: {
-                status: 'paid',
-                paymentMethod,
-                note,
-                paidDate: new Date()
-            }
+        if (!CLIENT_PAYMENT_METHODS.includes(paymentMethod)) {
+            return res.status(400).json({ error: `Valid payment methods: ${CLIENT_PAYMENT_METHODS.join(', ')}` });
+        }
+
+        const existing = await prisma.clientCredit.findUnique({ where: { id: parseInt(id) } });
+        if (!existing) {
+            return res.status(404).json({ error: 'Credit not found' });
+        }
+        if (existing.status === 'paid') {
+            return res.status(400).json({ error: 'Credit is already paid' });
+        }
+
+        const credit = await prisma.$transaction(async (tx) => {
+            const allocation = { creditId: existing.id, amount: creditBalance(existing) };
+            await tx.clientPayment.create({
+                data: {
+                    clientId: existing.clientId,
+                    amount: allocation.amount,
+                    paymentMethod,
+                    reference: `CR-${existing.id}`,
+                    note,
+                    date: new Date(),
+                    allocations: { create: [allocation] }
+                }
+            });
+            await applyClientAllocations(tx, [allocation], paymentMethod);
+            await refreshClientBalance(tx, existing.clientId);
+            return tx.clientCredit.findUnique({ where: { id: existing.id } });
         });
         res.json(credit);
     } catch (error: any) {
@@ -2313,5 +2517,14 @@ app.listen(PORT, () => {
         method: 'INIT'
     });
     console.log(`Backend listening on http://localhost:${PORT}`);
+    // Balances and ageing read the ledger, so legacy paid credits are settled in it before anything else
+    backfillLegacyCreditPayments(prisma)
+        .then(result => { if (result.credits > 0) backendLogger.info('Legacy paid credits backfilled', result); })
+        .catch(error => backendLogger.error('Legacy credit backfill failed', { error: error.message }));
+    backfillUnsetCreditLimits(prisma)
+        .then(result => { if (result.clients > 0) backendLogger.info('Unset credit limits cleared', result); })
+        .catch(error => backendLogger.error('Credit limit backfill failed', { error: error.message }));
+    scheduleMonthlyInterestAccrual(prisma);
+    schedulePriceActivation(prisma);
 });
 
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { createSession, hashPassword, verifyPassword } from '../utils/auth';
+
+export function createAuthRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    // Log in with username/password and receive a bearer token
+    router.post('/login', async (req, res) => {
+        const { username, password } = req.body ?? {};
+        const context = { endpoint: '/api/auth/login', method: 'POST', ip: req.ip, userAgent: req.get('User-Agent') };
+
+        if (!username || !password) {
+            return res.status(400).json({ message: 'username and password are required' });
+        }
+
+        try {
+            const user = await prisma.user.findUnique({ where: { username: String(username) } });
+
+            if (!user || !user.isActive || !verifyPassword(String(password), user.passwordHash)) {
+                backendLogger.authEvent('login', false, user ? String(user.id) : undefined, context);
+                backendLogger.securityEvent('failed_login', 'medium', { username }, context);
+                return res.status(401).json({ error: 'Invalid username or password' });
+            }
+
+            const { token, session } = await createSession(prisma, user.id, { ip: req.ip, userAgent: req.get('User-Agent') });
+            await prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+
+            backendLogger.authEvent('login', true, String(user.id), { ...context, sessionId: String(session.id) });
+
+            res.json({
+                token,
+                expiresAt: session.expiresAt,
+                user: { id: user.id, username: user.username, name: user.name, role: user.role }
+            });
+        } catch (error: any) {
+            console.error('Error during login:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Revoke the current session
+    router.post('/logout', async (req, res) => {
+        try {
+            await prisma.session.update({
+                where: { id: req.user!.sessionId },
+                data: { revokedAt: new Date() }
+            });
+
+            backendLogger.authEvent('logout', true, String(req.user!.id), {
+                endpoint: '/api/auth/logout',
+                method: 'POST',
+                sessionId: String(req.user!.sessionId)
+            });
+
+            res.json({ success: true });
+        } catch (error: any) {
+            console.error('Error during logout:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Current user
+    router.get('/me', (req, res) => {
+        res.json(req.user);
+    });
+
+    // First-run setup: create the initial owner account. Only works while no users exist.
+    router.post('/setup', async (req, res) => {
+        const { username, password, name } = req.body ?? {};
+        if (!username || !password || !name) {
+            return res.status(400).json({ message: 'username, password and name are required' });
+        }
+
+        try {
+            // Serializable, so two concurrent setups cannot both see zero users and each create an owner
+            const owner = await prisma.$transaction(async (tx) => {
+                if (await tx.user.count() > 0) return null;
+                return tx.user.create({
+                    data: {
+                        username: String(username),
+                        name: String(name),
+                        passwordHash: hashPassword(String(password)),
+                        role: 'owner'
+                    }
+                });
+            }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+            if (!owner) {
+                backendLogger.securityEvent('setup_after_initialisation', 'high', { username }, {
+                    endpoint: '/api/auth/setup',
+                    method: 'POST',
+                    ip: req.ip
+                });
+                return res.status(409).json({ error: 'Setup has already been completed' });
+            }
+
+            backendLogger.authEvent('setup_owner', true, String(owner.id), { endpoint: '/api/auth/setup', method: 'POST', ip: req.ip });
+            res.status(201).json({ id: owner.id, username: owner.username, name: owner.name, role: owner.role });
+        } catch (error: any) {
+            console.error('Error during setup:', error);
+            // P2034 (serialization failure) or P2002 (same username): a concurrent setup got there first
+            if (error.code === 'P2034' || error.code === 'P2002') {
+                return res.status(409).json({ error: 'Setup has already been completed' });
+            }
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
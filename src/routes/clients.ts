@@ -0,0 +1,545 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import {
+    applyClientAllocations,
+    backfillLegacyCreditPayments,
+    CLIENT_PAYMENT_METHODS,
+    creditBalance,
+    getClientLedger,
+    getOpenCredits,
+    getUnallocatedPayments,
+    planClientAllocations,
+    refreshClientBalance
+} from '../utils/client-ledger';
+import { buildClientStatement, renderStatementHtml, renderStatementPdf, statementFileName } from '../utils/client-statement';
+import { createZip } from '../utils/zip';
+import { AGEING_BUCKETS } from '../utils/ageing';
+import { buildReceivablesAgeing } from '../utils/receivables';
+import { toCsv } from '../utils/csv';
+import { runMonthlyInterestAccrual } from '../utils/client-interest';
+import { dayRange } from '../utils/common';
+
+const STATEMENT_FORMATS = ['pdf', 'html'];
+
+export function createClientsRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    // Settling payments for credits marked paid before payments were recorded; also runs at startup
+    router.post('/backfill-legacy-payments', async (_req, res) => {
+        try {
+            const result = await backfillLegacyCreditPayments(prisma);
+            backendLogger.info('Legacy paid credits backfilled', result);
+            res.json(result);
+        } catch (error: any) {
+            console.error('Error backfilling legacy credit payments:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Rebuild every cached client balance from the ledger
+    router.post('/recalculate-balances', async (_req, res) => {
+        try {
+            // Legacy paid credits must be settled in the ledger before balances are derived from it
+            const backfilled = await backfillLegacyCreditPayments(prisma);
+            const clients = await prisma.client.findMany({ select: { id: true, balance: true } });
+            const changed = [];
+            for (const client of clients) {
+                const balance = await refreshClientBalance(prisma, client.id);
+                if (Math.abs(balance - Number(client.balance)) > 0.005) {
+                    changed.push({ clientId: client.id, oldBalance: Number(client.balance), balance });
+                }
+            }
+
+            backendLogger.info('Client balances recalculated from ledger', { clients: clients.length, changed: changed.length });
+            res.json({ clients: clients.length, changed, backfilled });
+        } catch (error: any) {
+            console.error('Error recalculating client balances:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Client ledger for a date range (defaults to the current month):
+     * credit sales are debits, payments are credits, with opening, running and closing balances.
+     */
+    router.get('/:id/ledger', async (req, res) => {
+        try {
+            const clientId = Number(req.params.id);
+            const client = await prisma.client.findUnique({ where: { id: clientId } });
+            if (!client) return res.status(404).json({ message: 'Client not found' });
+
+            const now = new Date();
+            const start = req.query.startDate
+                ? dayRange(String(req.query.startDate)).start
+                : new Date(now.getFullYear(), now.getMonth(), 1);
+            const end = req.query.endDate ? dayRange(String(req.query.endDate)).end : dayRange(now.toISOString()).end;
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                return res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+            }
+            if (start > end) {
+                return res.status(400).json({ message: 'startDate must be on or before endDate' });
+            }
+
+            const ledger = await getClientLedger(prisma, clientId, start, end);
+            res.json({
+                client: { id: client.id, name: client.name, ownerName: client.ownerName, phone: client.phone, creditLimit: client.creditLimit === null ? null : Number(client.creditLimit) },
+                start,
+                end,
+                ...ledger
+            });
+        } catch (error: any) {
+            console.error('Error fetching client ledger:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Receivables ageing: unpaid credits bucketed by age, per client and in total, with due dates
+     * from each client's payment terms. Filters: asOf, fuelTypeId, clientId, overdueOnly. `format=csv` exports one row per credit.
+     */
+    router.get('/ageing', async (req, res) => {
+        try {
+            // Without asOf the report is for now, from the credits' current balances
+            const asOf = req.query.asOf ? dayRange(String(req.query.asOf)).end : undefined;
+            if (asOf && isNaN(asOf.getTime())) {
+                return res.status(400).json({ message: 'asOf must be a valid date' });
+            }
+
+            const report = await buildReceivablesAgeing(prisma, {
+                asOf,
+                fuelTypeId: req.query.fuelTypeId ? Number(req.query.fuelTypeId) : undefined,
+                clientId: req.query.clientId ? Number(req.query.clientId) : undefined,
+                overdueOnly: req.query.overdueOnly === 'true'
+            });
+
+            if (req.query.format === 'csv') {
+                const headers = ['Client', 'Credit', 'Date', 'Due date', 'Fuel', 'Litres', 'Amount', 'Balance', 'Age (days)', 'Bucket', 'Overdue', 'Days overdue', 'Note'];
+                const rows = report.clients.flatMap(c => c.credits.map(cr => [
+                    c.clientName,
+                    `CR-${cr.creditId}`,
+                    cr.date.toISOString().slice(0, 10),
+                    cr.dueDate.toISOString().slice(0, 10),
+                    cr.fuelType,
+                    cr.litres,
+                    cr.amount.toFixed(2),
+                    cr.balance.toFixed(2),
+                    cr.ageDays,
+                    AGEING_BUCKETS.find(b => b.key === cr.bucket)?.label,
+                    cr.overdue ? 'yes' : 'no',
+                    cr.daysOverdue,
+                    cr.note
+                ]));
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="receivables-ageing-${report.asOf.toISOString().slice(0, 10)}.csv"`);
+                return res.send(toCsv(headers, rows));
+            }
+
+            res.json(report);
+        } catch (error: any) {
+            console.error('Error building receivables ageing report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Statements for every active client for a month (`month=YYYY-MM`, defaults to last month),
+     * returned as a zip of PDF or HTML files.
+     */
+    router.get('/statements', async (req, res) => {
+        try {
+            const format = req.query.format ? String(req.query.format) : 'pdf';
+            if (!STATEMENT_FORMATS.includes(format)) {
+                return res.status(400).json({ message: `format must be one of: ${STATEMENT_FORMATS.join(', ')}` });
+            }
+
+            const now = new Date();
+            let year = now.getFullYear();
+            let month = now.getMonth() - 1;
+            if (req.query.month) {
+                const match = /^(\d{4})-(\d{2})$/.exec(String(req.query.month));
+                if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+                    return res.status(400).json({ message: 'month must be in YYYY-MM format' });
+                }
+                year = Number(match[1]);
+                month = Number(match[2]) - 1;
+            }
+            const start = new Date(year, month, 1);
+            const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+            end.setMilliseconds(end.getMilliseconds() - 1);
+
+            const clients = await prisma.client.findMany({ where: { isActive: true }, orderBy: { name: 'asc' } });
+            const files = [];
+            for (const client of clients) {
+                const statement = await buildClientStatement(prisma, client.id, start, end);
+                if (!statement) continue;
+                files.push({
+                    name: statementFileName(statement, format as 'pdf' | 'html'),
+                    data: format === 'pdf' ? renderStatementPdf(statement) : renderStatementHtml(statement)
+                });
+            }
+
+            const label = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
+            backendLogger.info('Client statements generated', { month: label, format, clients: files.length });
+            res.setHeader('Content-Type', 'application/zip');
+            res.setHeader('Content-Disposition', `attachment; filename="client-statements-${label}.zip"`);
+            res.send(createZip(files));
+        } catch (error: any) {
+            console.error('Error generating client statements:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Statement of account for one client as JSON, PDF or printable HTML (defaults to the current month)
+    router.get('/:id/statement', async (req, res) => {
+        try {
+            const format = req.query.format ? String(req.query.format) : 'json';
+            if (format !== 'json' && !STATEMENT_FORMATS.includes(format)) {
+                return res.status(400).json({ message: `format must be one of: json, ${STATEMENT_FORMATS.join(', ')}` });
+            }
+
+            const now = new Date();
+            const start = req.query.startDate
+                ? dayRange(String(req.query.startDate)).start
+                : new Date(now.getFullYear(), now.getMonth(), 1);
+            const end = req.query.endDate ? dayRange(String(req.query.endDate)).end : dayRange(now.toISOString()).end;
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                return res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+            }
+            if (start > end) {
+                return res.status(400).json({ message: 'startDate must be on or before endDate' });
+            }
+
+            const statement = await buildClientStatement(prisma, Number(req.params.id), start, end);
+            if (!statement) return res.status(404).json({ message: 'Client not found' });
+
+            if (format === 'pdf') {
+                res.setHeader('Content-Type', 'application/pdf');
+                res.setHeader('Content-Disposition', `inline; filename="${statementFileName(statement, 'pdf')}"`);
+                return res.send(renderStatementPdf(statement));
+            }
+            if (format === 'html') {
+                res.setHeader('Content-Type', 'text/html; charset=utf-8');
+                return res.send(renderStatementHtml(statement));
+            }
+            res.json(statement);
+        } catch (error: any) {
+            console.error('Error generating client statement:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Post interest on overdue credit for a month (`month=YYYY-MM`, defaults to last month).
+     * `dryRun: true` returns what would be posted. Months already posted are skipped.
+     */
+    router.post('/interest/accrue', async (req, res) => {
+        try {
+            const { month, clientId, dryRun } = req.body ?? {};
+            const now = new Date();
+            let year = now.getFullYear();
+            let monthIndex = now.getMonth() - 1;
+            if (month) {
+                const match = /^(\d{4})-(\d{2})$/.exec(String(month));
+                if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+                    return res.status(400).json({ message: 'month must be in YYYY-MM format' });
+                }
+                year = Number(match[1]);
+                monthIndex = Number(match[2]) - 1;
+            }
+            if (new Date(year, monthIndex + 1, 1) > now) {
+                return res.status(400).json({ message: 'Interest can only be accrued for a month that has ended' });
+            }
+
+            const result = await runMonthlyInterestAccrual(prisma, year, monthIndex, {
+                clientId: clientId ? Number(clientId) : undefined,
+                dryRun: !!dryRun,
+                userId: req.user?.id
+            });
+            res.json(result);
+        } catch (error: any) {
+            console.error('Error accruing client interest:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Interest terms for a client: annual rate (%), grace days after the due date, minimum monthly charge
+    router.put('/:id/interest-rule', async (req, res) => {
+        try {
+            const clientId = Number(req.params.id);
+            const { interestRatePercent, interestGraceDays, interestMinCharge } = req.body ?? {};
+            const rate = interestRatePercent !== undefined ? Number(interestRatePercent) : undefined;
+            const graceDays = interestGraceDays !== undefined ? Number(interestGraceDays) : undefined;
+            const minCharge = interestMinCharge !== undefined ? Number(interestMinCharge) : undefined;
+
+            if (rate !== undefined && (isNaN(rate) || rate < 0 || rate > 100)) {
+                return res.status(400).json({ message: 'interestRatePercent must be between 0 and 100' });
+            }
+            if (graceDays !== undefined && (!Number.isInteger(graceDays) || graceDays < 0)) {
+                return res.status(400).json({ message: 'interestGraceDays must be a whole number of days, 0 or more' });
+            }
+            if (minCharge !== undefined && (isNaN(minCharge) || minCharge < 0)) {
+                return res.status(400).json({ message: 'interestMinCharge must be 0 or more' });
+            }
+
+            const client = await prisma.client.findUnique({ where: { id: clientId } });
+            if (!client) return res.status(404).json({ message: 'Client not found' });
+
+            const updated = await prisma.$transaction(async (tx) => {
+                const result = await tx.client.update({
+                    where: { id: clientId },
+                    data: { interestRatePercent: rate, interestGraceDays: graceDays, interestMinCharge: minCharge }
+                });
+                await tx.auditLog.create({
+                    data: {
+                        action: 'CLIENT_INTEREST_RULE_UPDATE',
+                        entityType: 'Client',
+                        entityId: clientId,
+                        oldValues: JSON.stringify({
+                            interestRatePercent: client.interestRatePercent,
+                            interestGraceDays: client.interestGraceDays,
+                            interestMinCharge: client.interestMinCharge
+                        }),
+                        newValues: JSON.stringify({
+                            interestRatePercent: result.interestRatePercent,
+                            interestGraceDays: result.interestGraceDays,
+                            interestMinCharge: result.interestMinCharge
+                        }),
+                        userId: req.user?.id
+                    }
+                });
+                return result;
+            });
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error updating client interest rule:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/:id/charges', async (req, res) => {
+        try {
+            const charges = await prisma.clientCharge.findMany({
+                where: { clientId: Number(req.params.id) },
+                include: {
+                    postedBy: { select: { id: true, username: true } },
+                    reversedBy: { select: { id: true, username: true } }
+                },
+                orderBy: { date: 'desc' }
+            });
+            res.json(charges.map(c => ({ ...c, details: c.details ? JSON.parse(c.details) : null })));
+        } catch (error: any) {
+            console.error('Error fetching client charges:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Reverse a posted charge; the charge stays on the ledger with a matching reversal entry
+    router.post('/:id/charges/:chargeId/reverse', async (req, res) => {
+        try {
+            const clientId = Number(req.params.id);
+            const chargeId = Number(req.params.chargeId);
+            const reason = req.body?.reason;
+            if (!reason || !String(reason).trim()) {
+                return res.status(400).json({ message: 'A reason is required to reverse a charge' });
+            }
+
+            const charge = await prisma.clientCharge.findFirst({ where: { id: chargeId, clientId } });
+            if (!charge) return res.status(404).json({ message: 'Charge not found' });
+            if (charge.status === 'reversed') {
+                return res.status(400).json({ message: 'Charge is already reversed' });
+            }
+
+            const reversed = await prisma.$transaction(async (tx) => {
+                const updated = await tx.clientCharge.update({
+                    where: { id: chargeId },
+                    data: { status: 'reversed', reversalReason: reason, reversedById: req.user?.id, reversedAt: new Date() }
+                });
+                await refreshClientBalance(tx, clientId);
+                await tx.auditLog.create({
+                    data: {
+                        action: 'CLIENT_CHARGE_REVERSE',
+                        entityType: 'ClientCharge',
+                        entityId: chargeId,
+                        oldValues: JSON.stringify(charge),
+                        newValues: JSON.stringify(updated),
+                        reason,
+                        userId: req.user?.id
+                    }
+                });
+                return updated;
+            });
+
+            backendLogger.info('Client charge reversed', { clientId, chargeId, amount: Number(charge.amount) });
+            res.json(reversed);
+        } catch (error: any) {
+            console.error('Error reversing client charge:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Credits still (partly) unpaid, oldest first, plus any advance waiting to be applied
+    router.get('/:id/open-credits', async (req, res) => {
+        try {
+            const clientId = Number(req.params.id);
+            const [credits, advances] = await Promise.all([
+                getOpenCredits(prisma, clientId),
+                getUnallocatedPayments(prisma, clientId)
+            ]);
+            res.json({
+                credits: credits.map(c => ({ ...c, balance: creditBalance(c) })),
+                totalDue: credits.reduce((sum, c) => sum + creditBalance(c), 0),
+                advance: advances.reduce((sum, a) => sum + a.unallocated, 0)
+            });
+        } catch (error: any) {
+            console.error('Error fetching open credits:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/:id/payments', async (req, res) => {
+        try {
+            const payments = await prisma.clientPayment.findMany({
+                where: { clientId: Number(req.params.id) },
+                include: { allocations: true },
+                orderBy: { date: 'desc' },
+                take: 200
+            });
+            res.json(payments.map(p => ({
+                ...p,
+                unallocated: Number(p.amount) - p.allocations.reduce((sum, a) => sum + Number(a.amount), 0)
+            })));
+        } catch (error: any) {
+            console.error('Error fetching client payments:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Record a client payment. `allocations: [{ creditId, amount }]` settles chosen credits;
+     * otherwise the oldest open credits are settled first. Any remainder stays on the account as an advance.
+     */
+    router.post('/:id/payments', async (req, res) => {
+        try {
+            const clientId = Number(req.params.id);
+            const { amount, paymentMethod, reference, date, note, allocations } = req.body ?? {};
+            const amountNum = parseFloat(amount);
+
+            if (isNaN(amountNum) || amountNum <= 0) {
+                return res.status(400).json({ message: 'A positive amount is required' });
+            }
+            if (!CLIENT_PAYMENT_METHODS.includes(paymentMethod)) {
+                return res.status(400).json({ message: `paymentMethod must be one of: ${CLIENT_PAYMENT_METHODS.join(', ')}` });
+            }
+            if (allocations !== undefined && !Array.isArray(allocations)) {
+                return res.status(400).json({ message: 'allocations must be an array of { creditId, amount }' });
+            }
+
+            const client = await prisma.client.findUnique({ where: { id: clientId } });
+            if (!client) return res.status(404).json({ message: 'Client not found' });
+
+            const result = await prisma.$transaction(async (tx) => {
+                const { plan, unallocated, error } = await planClientAllocations(tx, clientId, amountNum, allocations);
+                if (error) throw new Error(`Invalid allocation: ${error}`);
+
+                const payment = await tx.clientPayment.create({
+                    data: {
+                        clientId,
+                        amount: amountNum,
+                        paymentMethod,
+                        reference,
+                        note,
+                        date: date ? new Date(date) : new Date(),
+                        allocations: { create: plan }
+                    },
+                    include: { allocations: true }
+                });
+                await applyClientAllocations(tx, plan, paymentMethod);
+                const balance = await refreshClientBalance(tx, clientId);
+
+                return { ...payment, unallocated, balance };
+            });
+
+            backendLogger.info('Client payment recorded', {
+                clientId,
+                amount: amountNum,
+                allocatedTo: result.allocations.map(a => a.creditId),
+                advance: result.unallocated
+            });
+            res.status(201).json(result);
+        } catch (error: any) {
+            console.error('Error recording client payment:', error);
+            if (error.message.startsWith('Invalid allocation')) {
+                return res.status(400).json({ message: 'Invalid allocation', error: error.message });
+            }
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Use advances already on the account to settle open credits, oldest first
+    router.post('/:id/apply-advances', async (req, res) => {
+        try {
+            const clientId = Number(req.params.id);
+
+            const applied = await prisma.$transaction(async (tx) => {
+                const results = [];
+                for (const { payment, unallocated } of await getUnallocatedPayments(tx, clientId)) {
+                    const { plan } = await planClientAllocations(tx, clientId, unallocated);
+                    if (plan.length === 0) break;
+
+                    for (const allocation of plan) {
+                        await tx.clientPaymentAllocation.upsert({
+                            where: { paymentId_creditId: { paymentId: payment.id, creditId: allocation.creditId } },
+                            update: { amount: { increment: allocation.amount } },
+                            create: { paymentId: payment.id, creditId: allocation.creditId, amount: allocation.amount }
+                        });
+                    }
+                    await applyClientAllocations(tx, plan, payment.paymentMethod);
+                    results.push({ paymentId: payment.id, allocations: plan });
+                }
+                return results;
+            });
+
+            res.json({ applied });
+        } catch (error: any) {
+            console.error('Error applying client advances:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Remove a payment recorded in error; the credits it settled become open again
+    router.delete('/:id/payments/:paymentId', async (req, res) => {
+        try {
+            const clientId = Number(req.params.id);
+            const paymentId = Number(req.params.paymentId);
+            const payment = await prisma.clientPayment.findFirst({
+                where: { id: paymentId, clientId },
+                include: { allocations: true }
+            });
+            if (!payment) return res.status(404).json({ message: 'Payment not found' });
+
+            await prisma.$transaction(async (tx) => {
+                await applyClientAllocations(tx, payment.allocations.map(a => ({ creditId: a.creditId, amount: Number(a.amount) })), null, -1);
+                await tx.clientPayment.delete({ where: { id: paymentId } });
+                await refreshClientBalance(tx, clientId);
+                await tx.auditLog.create({
+                    data: {
+                        action: 'CLIENT_PAYMENT_DELETE',
+                        entityType: 'ClientPayment',
+                        entityId: paymentId,
+                        oldValues: JSON.stringify(payment),
+                        reason: req.body?.reason,
+                        userId: req.user?.id
+                    }
+                });
+            });
+
+            res.json({ message: 'Payment deleted successfully' });
+        } catch (error: any) {
+            console.error('Error deleting client payment:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
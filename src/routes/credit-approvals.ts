@@ -0,0 +1,166 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { checkCreditLimit, createLedgerCredit, lockClient, logCreditLimitEvent } from '../utils/credit-limit';
+import { resolveSlip } from '../utils/slip-books';
+import { checkVehicleForCredit } from '../utils/vehicles';
+
+const APPROVAL_STATUSES = ['pending', 'approved', 'rejected'];
+
+/**
+ * Queue of over-limit credits waiting for a manager's decision.
+ * Approving posts the credit to the client ledger; rejecting discards it. Both are audited.
+ */
+export function createCreditApprovalsRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        try {
+            const status = req.query.status ? String(req.query.status) : 'pending';
+            if (status !== 'all' && !APPROVAL_STATUSES.includes(status)) {
+                return res.status(400).json({ message: `status must be one of: ${[...APPROVAL_STATUSES, 'all'].join(', ')}` });
+            }
+
+            const approvals = await prisma.creditApproval.findMany({
+                where: status === 'all' ? {} : { status },
+                include: {
+                    client: { select: { id: true, name: true, creditLimit: true, balance: true, creditLimitPolicy: true } },
+                    fuelType: { select: { id: true, name: true } },
+                    vehicle: { select: { id: true, registrationNo: true } },
+                    requestedBy: { select: { id: true, username: true } },
+                    decidedBy: { select: { id: true, username: true } }
+                },
+                orderBy: { date: status === 'pending' ? 'asc' : 'desc' },
+                take: 200
+            });
+            res.json(approvals);
+        } catch (error: any) {
+            console.error('Error fetching credit approvals:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.post('/:id/approve', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid credit approval id' });
+            const approval = await prisma.creditApproval.findUnique({ where: { id } });
+            if (!approval) return res.status(404).json({ message: 'Credit approval not found' });
+            if (approval.status !== 'pending') {
+                return res.status(400).json({ message: `Credit approval is already ${approval.status}` });
+            }
+
+            // The slip and the vehicle's rules were checked when the credit was requested; either may have changed since
+            if (approval.slipBookId && approval.slipNo !== null) {
+                const book = await prisma.slipBook.findUnique({ where: { id: approval.slipBookId } });
+                const slip = await resolveSlip(prisma, { clientId: approval.clientId, slipNo: approval.slipNo, series: book?.series, approvalId: id });
+                if ('error' in slip) return res.status(400).json({ message: slip.error });
+            }
+            if (approval.vehicleId) {
+                const error = await checkVehicleForCredit(prisma, {
+                    clientId: approval.clientId,
+                    vehicleId: approval.vehicleId,
+                    fuelTypeId: approval.fuelTypeId,
+                    litres: Number(approval.litres),
+                    date: approval.date
+                });
+                if (error) return res.status(400).json({ message: error });
+            }
+            const note = req.body?.note;
+
+            const credit = await prisma.$transaction(async (tx) => {
+                // Claim the approval first, so a second approve arriving at the same time creates nothing
+                const claimed = await tx.creditApproval.updateMany({
+                    where: { id, status: 'pending' },
+                    data: { status: 'approved', decisionNote: note, decidedById: req.user?.id, decidedAt: new Date() }
+                });
+                if (claimed.count !== 1) throw new Error('Credit approval is no longer pending');
+
+                // Re-checked under the client lock so the audit records the balance at the time of the decision
+                await lockClient(tx, approval.clientId);
+                const check = await checkCreditLimit(tx, approval.clientId, Number(approval.totalAmount));
+
+                const created = await createLedgerCredit(tx, {
+                    clientId: approval.clientId,
+                    fuelTypeId: approval.fuelTypeId,
+                    litres: Number(approval.litres),
+                    pricePerLitre: Number(approval.pricePerLitre),
+                    totalAmount: Number(approval.totalAmount),
+                    note: approval.note,
+                    vehicleId: approval.vehicleId,
+                    slipBookId: approval.slipBookId,
+                    slipNo: approval.slipNo,
+                    date: approval.date
+                });
+                await tx.creditApproval.update({ where: { id }, data: { creditId: created.id } });
+                await logCreditLimitEvent(tx, {
+                    action: 'CREDIT_APPROVAL_APPROVED',
+                    entityType: 'CreditApproval',
+                    entityId: id,
+                    check: check ?? undefined,
+                    values: { creditId: created.id, totalAmount: Number(approval.totalAmount) },
+                    reason: note,
+                    userId: req.user?.id
+                });
+                return created;
+            });
+
+            backendLogger.info('Over-limit credit approved', { approvalId: id, creditId: credit.id, approvedBy: req.user?.id });
+            res.json({ message: 'Credit approved', credit });
+        } catch (error: any) {
+            console.error('Error approving credit:', error);
+            if (error.message === 'Credit approval is no longer pending') return res.status(409).json({ message: error.message });
+            // Another credit took the slip between the check above and this one
+            if (error.code === 'P2002') return res.status(409).json({ message: 'The slip on this credit has already been used' });
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.post('/:id/reject', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid credit approval id' });
+            const reason = req.body?.reason;
+            if (!reason || !String(reason).trim()) {
+                return res.status(400).json({ message: 'A reason is required to reject a credit' });
+            }
+
+            const approval = await prisma.creditApproval.findUnique({ where: { id } });
+            if (!approval) return res.status(404).json({ message: 'Credit approval not found' });
+            if (approval.status !== 'pending') {
+                return res.status(400).json({ message: `Credit approval is already ${approval.status}` });
+            }
+
+            const rejected = await prisma.$transaction(async (tx) => {
+                const claimed = await tx.creditApproval.updateMany({
+                    where: { id, status: 'pending' },
+                    data: {
+                        status: 'rejected',
+                        decisionNote: reason,
+                        decidedById: req.user?.id,
+                        decidedAt: new Date()
+                    }
+                });
+                if (claimed.count !== 1) throw new Error('Credit approval is no longer pending');
+                await logCreditLimitEvent(tx, {
+                    action: 'CREDIT_APPROVAL_REJECTED',
+                    entityType: 'CreditApproval',
+                    entityId: id,
+                    values: { clientId: approval.clientId, totalAmount: Number(approval.totalAmount) },
+                    reason,
+                    userId: req.user?.id
+                });
+                return tx.creditApproval.findUnique({ where: { id } });
+            });
+
+            backendLogger.info('Over-limit credit rejected', { approvalId: id, rejectedBy: req.user?.id });
+            res.json(rejected);
+        } catch (error: any) {
+            console.error('Error rejecting credit:', error);
+            if (error.message === 'Credit approval is no longer pending') return res.status(409).json({ message: error.message });
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,237 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { buildEInvoiceJson, getGstInvoice, issueGstInvoice, renderGstInvoicePdf } from '../utils/gst-invoices';
+import { dayRange } from '../utils/common';
+
+// Local or production IRP endpoint that accepts e-invoice JSON and returns Irn, AckNo and AckDt
+const IRP_URL = process.env.IRP_URL || '';
+
+/**
+ * GST tax invoices over client credit sales, with HSN codes and tax rates kept per fuel type.
+ */
+export function createGstInvoicesRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        try {
+            const where: any = {};
+            if (req.query.clientId) {
+                where.clientId = Number(req.query.clientId);
+                if (!Number.isInteger(where.clientId)) return res.status(400).json({ message: 'clientId must be a whole number' });
+            }
+            if (req.query.financialYear) where.financialYear = String(req.query.financialYear);
+            if (req.query.status) where.status = String(req.query.status);
+
+            const invoices = await prisma.gstInvoice.findMany({
+                where,
+                include: { client: { select: { id: true, name: true, gstin: true } }, _count: { select: { lines: true } } },
+                orderBy: [{ financialYear: 'desc' }, { sequence: 'desc' }]
+            });
+            res.json(invoices);
+        } catch (error: any) {
+            console.error('Error fetching GST invoices:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/tax-rates', async (_req, res) => {
+        try {
+            const fuelTypes = await prisma.fuelType.findMany({
+                select: { id: true, name: true, hsnCode: true, gstRatePercent: true },
+                orderBy: { id: 'asc' }
+            });
+            res.json(fuelTypes);
+        } catch (error: any) {
+            console.error('Error fetching tax rates:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.put('/tax-rates/:fuelTypeId', async (req, res) => {
+        try {
+            const id = Number(req.params.fuelTypeId);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid fuel type id' });
+            const { hsnCode, gstRatePercent } = req.body ?? {};
+            if (hsnCode !== undefined && hsnCode !== null && !/^\d{4}(\d{2}){0,2}$/.test(String(hsnCode))) {
+                return res.status(400).json({ message: 'hsnCode must be 4, 6 or 8 digits' });
+            }
+            if (gstRatePercent !== undefined && (isNaN(Number(gstRatePercent)) || Number(gstRatePercent) < 0 || Number(gstRatePercent) > 40)) {
+                return res.status(400).json({ message: 'gstRatePercent must be between 0 and 40' });
+            }
+
+            const fuelType = await prisma.fuelType.findUnique({ where: { id } });
+            if (!fuelType) return res.status(404).json({ message: 'Fuel type not found' });
+
+            const updated = await prisma.fuelType.update({
+                where: { id },
+                data: {
+                    hsnCode: hsnCode === undefined ? undefined : hsnCode ? String(hsnCode) : null,
+                    gstRatePercent: gstRatePercent === undefined ? undefined : Number(gstRatePercent)
+                },
+                select: { id: true, name: true, hsnCode: true, gstRatePercent: true }
+            });
+            backendLogger.info('Fuel type tax rate updated', { fuelTypeId: id, hsnCode: updated.hsnCode, gstRatePercent: Number(updated.gstRatePercent) });
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error updating tax rate:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Issue an invoice for a client's credits: either `creditIds`, or all uninvoiced credits
+     * between `startDate` and `endDate`. `date` defaults to today and decides the financial year.
+     */
+    router.post('/', async (req, res) => {
+        try {
+            const { clientId, creditIds, startDate, endDate, date } = req.body ?? {};
+            if (!Number.isInteger(Number(clientId))) return res.status(400).json({ message: 'clientId is required' });
+            if (creditIds !== undefined && (!Array.isArray(creditIds) || creditIds.length === 0)) {
+                return res.status(400).json({ message: 'creditIds must be a non-empty list' });
+            }
+            if (creditIds && creditIds.some((id: unknown) => !Number.isInteger(Number(id)))) {
+                return res.status(400).json({ message: 'creditIds must be whole numbers' });
+            }
+            if (!creditIds && (!startDate || !endDate)) {
+                return res.status(400).json({ message: 'Give creditIds, or startDate and endDate' });
+            }
+
+            const invoiceDate = date ? new Date(date) : undefined;
+            const range = creditIds ? undefined : { start: dayRange(startDate).start, end: dayRange(endDate).end };
+            if ((invoiceDate && isNaN(invoiceDate.getTime())) || (range && (isNaN(range.start.getTime()) || isNaN(range.end.getTime())))) {
+                return res.status(400).json({ message: 'Dates must be valid' });
+            }
+
+            const result = await issueGstInvoice(prisma, {
+                clientId: Number(clientId),
+                creditIds: creditIds?.map(Number),
+                range,
+                date: invoiceDate,
+                userId: req.user?.id
+            });
+            if ('error' in result) {
+                return res.status(result.error === 'Client not found' ? 404 : 400).json({ message: result.error });
+            }
+
+            backendLogger.info('GST invoice issued', { invoiceNo: result.invoice.invoiceNo, clientId: result.invoice.clientId });
+            res.status(201).json(result.invoice);
+        } catch (error: any) {
+            console.error('Error issuing GST invoice:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // `format=pdf` for the printable invoice, `format=einvoice` for the IRP JSON
+    router.get('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid invoice id' });
+            const invoice = await getGstInvoice(prisma, id);
+            if (!invoice) return res.status(404).json({ message: 'Invoice not found' });
+
+            const fileName = invoice.invoiceNo.replace(/\//g, '-');
+            if (req.query.format === 'pdf') {
+                res.setHeader('Content-Type', 'application/pdf');
+                res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+                return res.send(renderGstInvoicePdf(invoice));
+            }
+            if (req.query.format === 'einvoice') {
+                if (!invoice.buyerGstin) return res.status(400).json({ message: 'E-invoices are only for clients with a GSTIN' });
+                res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+                return res.json(buildEInvoiceJson(invoice));
+            }
+
+            res.json(invoice);
+        } catch (error: any) {
+            console.error('Error fetching GST invoice:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Register the invoice with the IRP. With IRP_URL set the e-invoice JSON is posted there;
+     * otherwise the IRN and acknowledgement from a manual upload are given in the body.
+     */
+    router.post('/:id/irn', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid invoice id' });
+            const invoice = await getGstInvoice(prisma, id);
+            if (!invoice) return res.status(404).json({ message: 'Invoice not found' });
+            if (invoice.status !== 'issued') return res.status(400).json({ message: 'Cancelled invoices cannot be registered' });
+            if (!invoice.buyerGstin) return res.status(400).json({ message: 'E-invoices are only for clients with a GSTIN' });
+            if (invoice.irn) return res.status(409).json({ message: `Invoice already has IRN ${invoice.irn}` });
+
+            let ack: { irn?: string; ackNo?: string; ackDate?: string };
+            if (IRP_URL) {
+                const response = await fetch(IRP_URL, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(buildEInvoiceJson(invoice))
+                });
+                const body: any = await response.json().catch(() => ({}));
+                if (!response.ok) {
+                    return res.status(502).json({ message: 'IRP rejected the invoice', status: response.status, details: body });
+                }
+                ack = { irn: body.Irn, ackNo: body.AckNo !== undefined ? String(body.AckNo) : undefined, ackDate: body.AckDt };
+            } else {
+                ack = req.body ?? {};
+            }
+            if (!ack.irn) return res.status(400).json({ message: IRP_URL ? 'IRP response had no Irn' : 'irn is required when IRP_URL is not set' });
+
+            const ackDate = ack.ackDate ? new Date(ack.ackDate) : new Date();
+            const updated = await prisma.gstInvoice.update({
+                where: { id: invoice.id },
+                data: { irn: ack.irn, ackNo: ack.ackNo ?? null, ackDate: isNaN(ackDate.getTime()) ? new Date() : ackDate }
+            });
+            backendLogger.info('GST invoice registered', { invoiceNo: invoice.invoiceNo, irn: ack.irn });
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error registering GST invoice:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Cancelling keeps the number in the series and frees the credits for a fresh invoice
+    router.post('/:id/cancel', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid invoice id' });
+            const reason = req.body?.reason;
+            if (!reason || !String(reason).trim()) {
+                return res.status(400).json({ message: 'A reason is required to cancel an invoice' });
+            }
+
+            const invoice = await prisma.gstInvoice.findUnique({ where: { id } });
+            if (!invoice) return res.status(404).json({ message: 'Invoice not found' });
+            if (invoice.status === 'cancelled') return res.status(400).json({ message: 'Invoice is already cancelled' });
+
+            const cancelled = await prisma.$transaction(async (tx) => {
+                await tx.clientCredit.updateMany({ where: { gstInvoiceId: id }, data: { gstInvoiceId: null } });
+                const updated = await tx.gstInvoice.update({
+                    where: { id },
+                    data: { status: 'cancelled', cancelReason: reason, cancelledAt: new Date() }
+                });
+                await tx.auditLog.create({
+                    data: {
+                        action: 'GST_INVOICE_CANCEL',
+                        entityType: 'GstInvoice',
+                        entityId: id,
+                        oldValues: JSON.stringify({ status: invoice.status, irn: invoice.irn }),
+                        newValues: JSON.stringify({ status: 'cancelled' }),
+                        reason,
+                        userId: req.user?.id
+                    }
+                });
+                return updated;
+            });
+            res.json(cancelled);
+        } catch (error: any) {
+            console.error('Error cancelling GST invoice:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
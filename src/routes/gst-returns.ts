@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { buildGstr1CsvFiles, buildGstr1Json, buildGstr3bCsv, buildGstr3bJson, buildTaxSummary, taxPeriod } from '../utils/gst-returns';
+import { createZip } from '../utils/zip';
+import { toCsv } from '../utils/csv';
+
+/**
+ * Monthly GST return summaries. `period=YYYY-MM` (defaults to last month); every response carries
+ * the flags for invoices and purchases missing GSTIN or HSN data.
+ */
+export function createGstReturnsRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    function periodFrom(query: any) {
+        const now = new Date();
+        const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+        const month = query.period
+            ? String(query.period)
+            : `${lastMonth.getFullYear()}-${String(lastMonth.getMonth() + 1).padStart(2, '0')}`;
+        return { month, period: taxPeriod(month) };
+    }
+
+    // Supplies by rate, B2B vs B2C, HSN summary and input tax on purchases
+    router.get('/summary', async (req, res) => {
+        try {
+            const { month, period } = periodFrom(req.query);
+            if (!period) return res.status(400).json({ message: 'period must be in YYYY-MM format' });
+
+            const summary = await buildTaxSummary(prisma, period.start, period.end);
+            res.json({ period: month, ...summary });
+        } catch (error: any) {
+            console.error('Error building tax summary:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // GSTR-1 as offline tool JSON, or `format=csv` for a zip of the section CSVs (plus flags.csv)
+    router.get('/gstr1', async (req, res) => {
+        try {
+            const { month, period } = periodFrom(req.query);
+            if (!period) return res.status(400).json({ message: 'period must be in YYYY-MM format' });
+
+            const summary = await buildTaxSummary(prisma, period.start, period.end);
+            backendLogger.info('GSTR-1 exported', { period: month, format: req.query.format || 'json', flags: summary.flags.length });
+
+            if (req.query.format === 'csv') {
+                const files = buildGstr1CsvFiles(summary);
+                if (summary.flags.length > 0) {
+                    files.push({ name: 'flags.csv', data: toCsv(['Type', 'Reference', 'Message'], summary.flags.map(f => [f.type, f.reference, f.message])) });
+                }
+                res.setHeader('Content-Type', 'application/zip');
+                res.setHeader('Content-Disposition', `attachment; filename="gstr1-${month}.zip"`);
+                return res.send(createZip(files));
+            }
+
+            res.json({ return: buildGstr1Json(summary, period.fp), flags: summary.flags });
+        } catch (error: any) {
+            console.error('Error building GSTR-1:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/gstr3b', async (req, res) => {
+        try {
+            const { month, period } = periodFrom(req.query);
+            if (!period) return res.status(400).json({ message: 'period must be in YYYY-MM format' });
+
+            const summary = await buildTaxSummary(prisma, period.start, period.end);
+            backendLogger.info('GSTR-3B exported', { period: month, format: req.query.format || 'json', flags: summary.flags.length });
+
+            if (req.query.format === 'csv') {
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="gstr3b-${month}.csv"`);
+                return res.send(buildGstr3bCsv(summary, period.fp));
+            }
+
+            res.json({ return: buildGstr3bJson(summary, period.fp), flags: summary.flags });
+        } catch (error: any) {
+            console.error('Error building GSTR-3B:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
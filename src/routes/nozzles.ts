@@ -0,0 +1,277 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { TankValidator } from '../utils/tank-validations';
+import { resolveTankForPump, validateTankMapping } from '../utils/tank-mapping';
+import { recordSaleCost } from '../utils/inventory-costing';
+import { getPricePerLitreAt, tradingInstant } from '../utils/pricing';
+import { soldLitres } from '../utils/pump-testing';
+import { dayRange } from '../utils/common';
+
+export function createNozzlesRouter(prisma: PrismaClient, tankValidator: TankValidator) {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        try {
+            const where: any = {};
+            if (req.query.pumpId) where.pumpId = Number(req.query.pumpId);
+
+            const nozzles = await prisma.nozzle.findMany({
+                where,
+                include: {
+                    pump: { include: { fuelType: true } },
+                    tank: { select: { id: true, name: true } }
+                },
+                orderBy: [{ pumpId: 'asc' }, { name: 'asc' }]
+            });
+            res.json(nozzles);
+        } catch (error: any) {
+            console.error('Error fetching nozzles:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.post('/', async (req, res) => {
+        try {
+            const { name, pumpId, tankId, isActive = true } = req.body ?? {};
+            if (!name || !pumpId || !tankId) {
+                return res.status(400).json({ message: 'name, pumpId and tankId are required' });
+            }
+
+            const pump = await prisma.pump.findUnique({ where: { id: Number(pumpId) } });
+            if (!pump) return res.status(404).json({ message: 'Pump not found' });
+
+            const mappingError = await validateTankMapping(prisma, Number(tankId), pump.fuelTypeId);
+            if (mappingError) return res.status(400).json({ message: 'Invalid tank mapping', error: mappingError });
+
+            const nozzle = await prisma.nozzle.create({
+                data: { name, pumpId: pump.id, tankId: Number(tankId), isActive },
+                include: { pump: true, tank: { select: { id: true, name: true } } }
+            });
+            res.status(201).json(nozzle);
+        } catch (error: any) {
+            console.error('Error creating nozzle:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Rename, (de)activate or re-map a nozzle to another tank
+    router.patch('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const { name, tankId, isActive } = req.body ?? {};
+
+            const nozzle = await prisma.nozzle.findUnique({ where: { id }, include: { pump: true } });
+            if (!nozzle) return res.status(404).json({ message: 'Nozzle not found' });
+
+            if (tankId !== undefined) {
+                const mappingError = await validateTankMapping(prisma, Number(tankId), nozzle.pump.fuelTypeId);
+                if (mappingError) return res.status(400).json({ message: 'Invalid tank mapping', error: mappingError });
+            }
+
+            const updated = await prisma.nozzle.update({
+                where: { id },
+                data: { name, isActive, tankId: tankId !== undefined ? Number(tankId) : undefined },
+                include: { pump: true, tank: { select: { id: true, name: true } } }
+            });
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error updating nozzle:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Nozzle totalizer readings for a date
+    router.get('/readings', async (req, res) => {
+        try {
+            const dateStr = String(req.query.date);
+            if (!req.query.date) return res.status(400).json({ message: 'date query param required (YYYY-MM-DD)' });
+            const { start, end } = dayRange(dateStr);
+            if (isNaN(start.getTime())) return res.status(400).json({ message: 'date must be a valid date (YYYY-MM-DD)' });
+            const readings = await prisma.nozzleReading.findMany({
+                where: { date: { gte: start, lte: end } },
+                include: { nozzle: { include: { pump: true, tank: { select: { id: true, name: true } } } } },
+                orderBy: { nozzleId: 'asc' }
+            });
+            res.json(readings);
+        } catch (error: any) {
+            console.error('Error fetching nozzle readings:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Save totalizer readings per nozzle. Stock is deducted from each nozzle's own tank,
+     * and the pump's DailyReading is rolled up from its nozzles so daily reports keep working.
+     */
+    router.post('/readings', async (req, res) => {
+        try {
+            const { date, readings } = req.body ?? {};
+            if (!date || !Array.isArray(readings) || readings.length === 0) {
+                return res.status(400).json({ message: 'date and readings array are required' });
+            }
+
+            const nozzleIds = readings.map(r => Number(r.nozzleId));
+            const repeated = nozzleIds.find((id, i) => nozzleIds.indexOf(id) !== i);
+            if (repeated !== undefined) {
+                return res.status(400).json({ message: 'Duplicate nozzle', error: `Nozzle ${repeated} appears more than once` });
+            }
+
+            // Every reading of the day is keyed on the start of that day, whatever time the client sent
+            const { start: dateKey, end: dayEnd } = dayRange(String(date));
+            if (isNaN(dateKey.getTime())) return res.status(400).json({ message: 'date must be a valid date (YYYY-MM-DD)' });
+            const sameDay = { gte: dateKey, lte: dayEnd };
+            const tankTotals: Record<number, number> = {};
+            const prepared = [];
+
+            for (const reading of readings) {
+                const nozzleId = Number(reading.nozzleId);
+                const openingTotalizer = parseFloat(reading.openingTotalizer);
+                const closingTotalizer = parseFloat(reading.closingTotalizer);
+
+                if (isNaN(openingTotalizer) || isNaN(closingTotalizer) || openingTotalizer < 0 || closingTotalizer < openingTotalizer) {
+                    return res.status(400).json({
+                        message: 'Invalid reading values',
+                        error: 'Totalizers must be non-negative and closing cannot be less than opening',
+                        details: { reading }
+                    });
+                }
+
+                const nozzle = await prisma.nozzle.findUnique({ where: { id: nozzleId }, include: { pump: true } });
+                if (!nozzle) {
+                    return res.status(400).json({ message: 'Nozzle not found', error: `Nozzle with ID ${reading.nozzleId} does not exist` });
+                }
+
+                let pricePerLitre = reading.pricePerLitre !== undefined ? parseFloat(reading.pricePerLitre) : NaN;
+                if (isNaN(pricePerLitre)) {
+                    pricePerLitre = await getPricePerLitreAt(prisma, nozzle.pump.fuelTypeId, tradingInstant(dateKey));
+                }
+
+                // The totalizer carries on from the nozzle's last closing on an earlier day
+                const previous = await prisma.nozzleReading.findFirst({
+                    where: { nozzleId, date: { lt: dateKey } },
+                    orderBy: { date: 'desc' }
+                });
+                if (previous && Number(previous.closingTotalizer) !== openingTotalizer) {
+                    return res.status(400).json({
+                        message: 'Opening totalizer mismatch',
+                        error: `Opening totalizer for nozzle ${nozzle.name} must be ${Number(previous.closingTotalizer)} (previous closing totalizer)`,
+                        details: { nozzleId, expected: Number(previous.closingTotalizer), received: openingTotalizer }
+                    });
+                }
+
+                const existing = await prisma.nozzleReading.findFirst({
+                    where: { nozzleId, date: sameDay }
+                });
+                const sold = closingTotalizer - openingTotalizer;
+                const netSold = existing
+                    ? sold - (Number(existing.closingTotalizer) - Number(existing.openingTotalizer))
+                    : sold;
+
+                if (netSold !== 0) {
+                    tankTotals[nozzle.tankId] = (tankTotals[nozzle.tankId] || 0) + netSold;
+                }
+
+                prepared.push({ nozzle, existing, openingTotalizer, closingTotalizer, pricePerLitre, sold, netSold });
+            }
+
+            // A pump read as a whole earlier in the day already had its litres taken from the pump's tank;
+            // put them back, since from now on its nozzles account for that stock
+            const replaced = [];
+            for (const pumpId of [...new Set(prepared.map(p => p.nozzle.pumpId))]) {
+                const nozzlesRead = await prisma.nozzleReading.count({ where: { date: sameDay, nozzle: { pumpId } } });
+                if (nozzlesRead > 0) continue;
+                const pumpReading = await prisma.dailyReading.findFirst({
+                    where: { pumpId, date: sameDay, shiftId: null },
+                    include: { pump: true }
+                });
+                if (!pumpReading) continue;
+
+                const tank = await resolveTankForPump(prisma, pumpReading.pump);
+                // The pump reading took off what it sold. Put that back, plus its testing litres: they stay
+                // recorded on the pump reading, but the nozzle totalizers count them as dispensed
+                const litres = soldLitres(pumpReading) + Number(pumpReading.testingLitres);
+                if (!tank || litres === 0) continue;
+                tankTotals[tank.id] = (tankTotals[tank.id] || 0) - litres;
+                replaced.push({ tankId: tank.id, litres, reading: pumpReading });
+            }
+
+            for (const [tankId, litres] of Object.entries(tankTotals)) {
+                if (litres <= 0) continue;
+                const validation = await tankValidator.validateSale(Number(tankId), litres);
+                if (!validation.isValid) {
+                    return res.status(400).json({
+                        message: 'Insufficient fuel in tank',
+                        error: validation.error,
+                        details: { tankId: Number(tankId), availableFuel: validation.availableFuel, fuelSold: litres }
+                    });
+                }
+            }
+
+            const saved = await prisma.$transaction(async (tx) => {
+                const results = [];
+                for (const p of prepared) {
+                    const data = {
+                        openingTotalizer: p.openingTotalizer,
+                        closingTotalizer: p.closingTotalizer,
+                        pricePerLitre: p.pricePerLitre,
+                        revenue: p.sold * p.pricePerLitre
+                    };
+                    const savedReading = p.existing
+                        ? await tx.nozzleReading.update({ where: { id: p.existing.id }, data: { ...data, date: dateKey } })
+                        : await tx.nozzleReading.create({ data: { ...data, nozzleId: p.nozzle.id, date: dateKey } });
+                    results.push(savedReading);
+
+                    await recordSaleCost(tx, p.nozzle.tankId, p.netSold, { sourceType: 'nozzle_reading', sourceId: savedReading.id, date: dateKey });
+                }
+
+                for (const r of replaced) {
+                    await recordSaleCost(tx, r.tankId, -r.litres, { sourceType: 'reading', sourceId: r.reading.id, date: r.reading.date });
+                }
+
+                for (const [tankId, litres] of Object.entries(tankTotals)) {
+                    await tx.tank.update({
+                        where: { id: Number(tankId) },
+                        data: { currentLevel: { decrement: litres } }
+                    });
+                }
+
+                // Roll nozzle totalizers up into the pump-level daily reading
+                const pumpIds = [...new Set(prepared.map(p => p.nozzle.pumpId))];
+                for (const pumpId of pumpIds) {
+                    const pumpReadings = await tx.nozzleReading.findMany({
+                        where: { date: sameDay, nozzle: { pumpId } }
+                    });
+                    const openingLitres = pumpReadings.reduce((sum, r) => sum + Number(r.openingTotalizer), 0);
+                    const closingLitres = pumpReadings.reduce((sum, r) => sum + Number(r.closingTotalizer), 0);
+                    const revenue = pumpReadings.reduce((sum, r) => sum + Number(r.revenue), 0);
+                    const litresSold = closingLitres - openingLitres;
+                    const pricePerLitre = litresSold > 0 ? revenue / litresSold : Number(pumpReadings[0]?.pricePerLitre ?? 0);
+
+                    // Testing litres are recorded on the pump reading; keep them and leave them out of revenue
+                    const existingPump = await tx.dailyReading.findFirst({ where: { pumpId, date: sameDay, shiftId: null } });
+                    const netRevenue = revenue - Number(existingPump?.testingLitres ?? 0) * pricePerLitre;
+
+                    const rollup = { date: dateKey, openingLitres, closingLitres, pricePerLitre, revenue: netRevenue };
+                    if (existingPump) {
+                        await tx.dailyReading.update({ where: { id: existingPump.id }, data: rollup });
+                    } else {
+                        await tx.dailyReading.create({ data: { ...rollup, pumpId } });
+                    }
+                }
+
+                return results;
+            });
+
+            res.status(201).json({
+                success: true,
+                message: `${saved.length} nozzle readings saved successfully`,
+                readings: saved
+            });
+        } catch (error: any) {
+            console.error('Error saving nozzle readings:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -1,31 +1,130 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { backfillPriceEffectiveDates, getPricesAt, priceEffectiveFrom, schedulePrice, unschedulePrice } from '../utils/pricing';
+import { getPriceHistory } from '../utils/price-history';
+import { toCsv } from '../utils/csv';
 
 export function createPricesRouter(prisma: PrismaClient) {
     const router = Router();
 
     router.get('/', async (_req, res) => {
-        const prices = await prisma.price.findMany({ include: { fuelType: true }, orderBy: { createdAt: 'desc' } });
+        const prices = await prisma.price.findMany({ include: { fuelType: true }, orderBy: { effectiveFrom: 'desc' } });
         res.json(prices);
     });
 
-    // Current active prices for all fuel types
+    // Price in force for each fuel type at an instant (`at`, defaults to now)
+    router.get('/at', async (req, res) => {
+        try {
+            const at = req.query.at ? new Date(String(req.query.at)) : new Date();
+            if (isNaN(at.getTime())) return res.status(400).json({ message: 'at must be a valid date' });
+
+            const prices = await getPricesAt(prisma, at);
+            res.json({
+                at,
+                prices: Array.from(prices.values()).map(({ fuelType, price }) => ({
+                    fuelTypeId: fuelType.id,
+                    name: fuelType.name,
+                    priceId: price?.id ?? null,
+                    perLitre: price ? Number(price.perLitre) : null,
+                    effectiveFrom: price?.effectiveFrom ?? null,
+                    effectiveTo: price?.effectiveTo ?? null
+                }))
+            });
+        } catch (error: any) {
+            console.error('Error resolving prices:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Selling and purchase price history for a fuel type, with the margin between every pair of changes
+     * and who made each change and why. Optional startDate/endDate; `format=csv` exports the intervals.
+     */
+    router.get('/history/:fuelTypeId', async (req, res) => {
+        try {
+            const fuelType = await prisma.fuelType.findUnique({ where: { id: Number(req.params.fuelTypeId) } });
+            if (!fuelType) return res.status(404).json({ message: 'Fuel type not found' });
+
+            const start = req.query.startDate ? new Date(String(req.query.startDate)) : undefined;
+            const end = req.query.endDate ? new Date(String(req.query.endDate)) : undefined;
+            if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+                return res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+            }
+
+            const history = await getPriceHistory(prisma, fuelType.id, { start, end });
+
+            if (req.query.format === 'csv') {
+                const headers = ['From', 'To', 'Selling price', 'Purchase price', 'Margin', 'Margin %', 'Changed', 'Changed by', 'Reason'];
+                const rows = history.intervals.map(i => [
+                    i.from,
+                    i.to ?? '',
+                    i.sellingPrice ?? '',
+                    i.purchasePrice ?? '',
+                    i.margin ?? '',
+                    i.marginPercent ?? '',
+                    i.changed.join(' '),
+                    i.changedBy ?? '',
+                    i.reason ?? ''
+                ]);
+                const slug = fuelType.name.toLowerCase().replace(/\s+/g, '-');
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="price-history-${slug}.csv"`);
+                return res.send(toCsv(headers, rows));
+            }
+
+            res.json({ fuelType: { id: fuelType.id, name: fuelType.name }, ...history });
+        } catch (error: any) {
+            console.error('Error building price history:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Prices announced but not yet in force
+    router.get('/scheduled', async (_req, res) => {
+        try {
+            const prices = await prisma.price.findMany({
+                where: { effectiveFrom: { gt: new Date() } },
+                include: { fuelType: true },
+                orderBy: { effectiveFrom: 'asc' }
+            });
+            res.json(prices);
+        } catch (error: any) {
+            console.error('Error fetching scheduled prices:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.delete('/scheduled/:id', async (req, res) => {
+        try {
+            const price = await prisma.$transaction(tx => unschedulePrice(tx, Number(req.params.id)));
+            res.json({ message: 'Scheduled price withdrawn', price });
+        } catch (error: any) {
+            console.error('Error withdrawing scheduled price:', error);
+            if (error.message === 'Price not found') return res.status(404).json({ message: error.message });
+            if (error.message.startsWith('Price clash')) return res.status(400).json({ message: error.message });
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // One-off: derive effective dates for prices recorded before they existed
+    router.post('/backfill-effective-dates', async (_req, res) => {
+        try {
+            const updated = await backfillPriceEffectiveDates(prisma);
+            res.json({ updated });
+        } catch (error: any) {
+            console.error('Error backfilling price effective dates:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Prices in force now for all fuel types
     router.get('/current', async (_req, res) => {
-        const fuelTypes = await prisma.fuelType.findMany();
-        const prices = await Promise.all(
-            fuelTypes.map(async (ft) => {
-                const price = await prisma.price.findFirst({
-                    where: { fuelTypeId: ft.id, isActive: true },
-                    orderBy: { createdAt: 'desc' }
-                });
-                return {
-                    fuelTypeId: ft.id,
-                    name: ft.name,
-                    price: price ? Number(price.perLitre) : null,
-                    updatedAt: price?.createdAt || null
-                };
-            })
-        );
+        const prices = Array.from((await getPricesAt(prisma)).values()).map(({ fuelType, price }) => ({
+            fuelTypeId: fuelType.id,
+            name: fuelType.name,
+            price: price ? Number(price.perLitre) : null,
+            updatedAt: price?.effectiveFrom || null
+        }));
 
         const result = prices.reduce((acc, { name, price, updatedAt }) => {
             const key = name.toLowerCase().replace(/\s+/g, '');
@@ -39,19 +138,28 @@ export function createPricesRouter(prisma: PrismaClient) {
         res.json(result);
     });
 
+    // New price for one fuel type, now or from `effectiveFrom` (a bare date takes effect at the daily revision hour)
     router.post('/', async (req, res) => {
-        const { fuelTypeId, perLitre } = req.body ?? {};
-        // Deactivate current active price for this fuel type, then create new
-        await prisma.$transaction(async (tx) => {
-            await tx.price.updateMany({ where: { fuelTypeId, isActive: true }, data: { isActive: false } });
-            await tx.price.create({ data: { fuelTypeId, perLitre, isActive: true } });
-        });
-        res.status(201).json({ ok: true });
+        try {
+            const { fuelTypeId, perLitre, effectiveFrom, reason } = req.body ?? {};
+            const from = priceEffectiveFrom(effectiveFrom);
+            if (isNaN(from.getTime())) return res.status(400).json({ message: 'effectiveFrom must be a valid date' });
+            if (isNaN(Number(perLitre)) || Number(perLitre) < 0) {
+                return res.status(400).json({ message: 'perLitre must be a non-negative number' });
+            }
+
+            const price = await prisma.$transaction(tx => schedulePrice(tx, Number(fuelTypeId), Number(perLitre), from, { reason, userId: req.user?.id }));
+            res.status(201).json({ ok: true, price, scheduled: from > new Date() });
+        } catch (error: any) {
+            console.error('Error setting price:', error);
+            if (error.message.startsWith('Price clash')) return res.status(409).json({ message: error.message });
+            res.status(500).json({ error: error.message });
+        }
     });
 
-    // Set prices for all fuel types together; snapshots all with same timestamp
+    // Set prices for all fuel types together, all taking effect at the same instant
     router.post('/set', async (req, res) => {
-        const { prices, date } = req.body ?? {} as { prices?: Record<string, number>; date?: string };
+        const { prices, date, reason } = req.body ?? {} as { prices?: Record<string, number>; date?: string; reason?: string };
 
         if (!prices || typeof prices !== 'object') {
             return res.status(400).json({ message: 'prices object is required' });
@@ -72,60 +180,42 @@ export function createPricesRouter(prisma: PrismaClient) {
             });
         }
 
-        let createdAt = date ? new Date(date) : new Date();
+        const effectiveAt = priceEffectiveFrom(date);
+        if (isNaN(effectiveAt.getTime())) return res.status(400).json({ message: 'date must be a valid date' });
 
-        // Ensure unique timestamp when user supplies a date
-        if (date) {
-            for (let i = 0; i < 60; i++) {
-                const existing = await prisma.price.findFirst({ where: { createdAt }, select: { id: true } });
-                if (!existing) break;
-                createdAt = new Date(createdAt.getTime() + 1000);
-            }
-        }
-
-        const result = await prisma.$transaction(async (tx) => {
-            // Deactivate current for all fuel types
-            await tx.price.updateMany({
-                where: { fuelTypeId: { in: fuelTypes.map(ft => ft.id) }, isActive: true },
-                data: { isActive: false }
-            });
-
-            // Create new prices for all fuel types
-            const newPrices = await Promise.all(
-                fuelTypes.map(async (ft) => {
+        let result;
+        try {
+            result = await prisma.$transaction(async (tx) => {
+                const newPrices = [];
+                for (const ft of fuelTypes) {
                     const key = ft.name.toLowerCase().replace(/\s+/g, '');
-                    return await tx.price.create({
-                        data: {
-                            fuelTypeId: ft.id,
-                            perLitre: Number(prices[key]),
-                            isActive: true,
-                            createdAt
-                        }
-                    });
-                })
-            );
-
-            return newPrices;
-        });
+                    newPrices.push(await schedulePrice(tx, ft.id, Number(prices[key]), effectiveAt, { reason, userId: req.user?.id }));
+                }
+                return newPrices;
+            });
+        } catch (error: any) {
+            if (error.message.startsWith('Price clash')) return res.status(409).json({ message: error.message });
+            throw error;
+        }
 
         res.status(201).json(result);
     });
 
-    // Combined history: all fuel types, date (group by createdAt timestamp)
+    // Combined history: all fuel types, grouped by the instant each price took effect
     router.get('/combined', async (_req, res) => {
         const fuelTypes = await prisma.fuelType.findMany();
         if (fuelTypes.length === 0) return res.json([]);
 
         const prices = await prisma.price.findMany({
             where: { fuelTypeId: { in: fuelTypes.map(ft => ft.id) } },
-            orderBy: { createdAt: 'desc' },
+            orderBy: { effectiveFrom: 'desc' },
             take: 200,
         });
 
         const byTs = new Map<string, Record<string, any>>();
         for (const p of prices) {
-            const ts = p.createdAt.toISOString();
-            const row = byTs.get(ts) ?? { date: ts };
+            const ts = p.effectiveFrom.toISOString();
+            const row = byTs.get(ts) ?? { date: ts, scheduled: p.effectiveFrom > new Date() };
             const fuelType = fuelTypes.find(ft => ft.id === p.fuelTypeId);
             if (fuelType) {
                 const key = fuelType.name.toLowerCase().replace(/\s+/g, '');
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { calibrationStatus, getCalibrationDueList } from '../utils/pump-testing';
+
+/**
+ * Weights & Measures verification of the pumps: certificates on record and when the next one is due.
+ */
+export function createPumpCalibrationsRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    // Certificate history, newest first; `pumpId` narrows it to one pump
+    router.get('/', async (req, res) => {
+        try {
+            const pumpId = req.query.pumpId ? Number(req.query.pumpId) : undefined;
+            if (pumpId !== undefined && !Number.isInteger(pumpId)) return res.status(400).json({ message: 'pumpId must be a whole number' });
+
+            const calibrations = await prisma.pumpCalibration.findMany({
+                where: pumpId ? { pumpId } : {},
+                include: { pump: { select: { id: true, name: true } }, recordedBy: { select: { id: true, username: true } } },
+                orderBy: [{ calibratedAt: 'desc' }, { id: 'desc' }]
+            });
+            res.json(calibrations.map(c => ({ ...c, status: calibrationStatus(c.validUntil) })));
+        } catch (error: any) {
+            console.error('Error fetching pump calibrations:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Every active pump with its current certificate; overdue, due soon and missing ones first
+    router.get('/due', async (_req, res) => {
+        try {
+            const order = { overdue: 0, missing: 1, due_soon: 2, valid: 3 };
+            const pumps = await getCalibrationDueList(prisma);
+            res.json(pumps.sort((a, b) => order[a.status] - order[b.status]));
+        } catch (error: any) {
+            console.error('Error fetching calibration due list:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Record a verification; the certificate is valid for a year unless validUntil says otherwise
+    router.post('/', async (req, res) => {
+        try {
+            const { pumpId, certificateNo, authority, calibratedAt, validUntil, note } = req.body ?? {};
+            if (!Number.isInteger(Number(pumpId)) || !certificateNo || !String(certificateNo).trim()) {
+                return res.status(400).json({ message: 'pumpId and certificateNo are required' });
+            }
+
+            const calibrated = calibratedAt ? new Date(calibratedAt) : new Date();
+            if (isNaN(calibrated.getTime())) return res.status(400).json({ message: 'calibratedAt must be a valid date' });
+
+            let due: Date;
+            if (validUntil) {
+                due = new Date(validUntil);
+                if (isNaN(due.getTime())) return res.status(400).json({ message: 'validUntil must be a valid date' });
+            } else {
+                due = new Date(calibrated);
+                due.setFullYear(due.getFullYear() + 1);
+            }
+            if (due <= calibrated) return res.status(400).json({ message: 'validUntil must be after calibratedAt' });
+
+            const pump = await prisma.pump.findUnique({ where: { id: Number(pumpId) } });
+            if (!pump) return res.status(404).json({ message: 'Pump not found' });
+
+            const calibration = await prisma.$transaction(async (tx) => {
+                const created = await tx.pumpCalibration.create({
+                    data: {
+                        pumpId: pump.id,
+                        certificateNo: String(certificateNo).trim(),
+                        authority: authority || null,
+                        calibratedAt: calibrated,
+                        validUntil: due,
+                        note: note || null,
+                        recordedById: req.user?.id
+                    }
+                });
+                await tx.auditLog.create({
+                    data: {
+                        action: 'PUMP_CALIBRATION_RECORD',
+                        entityType: 'PumpCalibration',
+                        entityId: created.id,
+                        newValues: JSON.stringify(created),
+                        userId: req.user?.id
+                    }
+                });
+                return created;
+            });
+
+            backendLogger.info('Pump calibration recorded', { pumpId: pump.id, certificateNo: calibration.certificateNo, validUntil: calibration.validUntil });
+            res.status(201).json({ ...calibration, status: calibrationStatus(calibration.validUntil) });
+        } catch (error: any) {
+            console.error('Error recording pump calibration:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { validateTankMapping } from '../utils/tank-mapping';
 
 export function createPumpsRouter(prisma: PrismaClient) {
     const router = Router();
 
     router.get('/', async (_req, res) => {
         const pumps = await prisma.pump.findMany({
-            include: { fuelType: true },
+            include: { fuelType: true, tank: { select: { id: true, name: true } }, nozzles: true },
             orderBy: [
                 { fuelType: { name: 'asc' } },
                 { name: 'asc' }
@@ -16,9 +17,13 @@ export function createPumpsRouter(prisma: PrismaClient) {
     });
 
     router.post('/', async (req, res) => {
-        const { name, fuelTypeId, isActive = true } = req.body ?? {};
+        const { name, fuelTypeId, tankId, isActive = true } = req.body ?? {};
+        if (tankId) {
+            const mappingError = await validateTankMapping(prisma, Number(tankId), Number(fuelTypeId));
+            if (mappingError) return res.status(400).json({ message: 'Invalid tank mapping', error: mappingError });
+        }
         const pump = await prisma.pump.create({
-            data: { name, fuelTypeId, isActive },
+            data: { name, fuelTypeId, tankId: tankId ? Number(tankId) : null, isActive },
             include: { fuelType: true }
         });
         res.status(201).json(pump);
@@ -26,10 +31,17 @@ export function createPumpsRouter(prisma: PrismaClient) {
 
     router.patch('/:id', async (req, res) => {
         const id = Number(req.params.id);
-        const { name, isActive } = req.body ?? {};
+        const { name, isActive, tankId } = req.body ?? {};
+        if (tankId) {
+            const existing = await prisma.pump.findUnique({ where: { id } });
+            if (!existing) return res.status(404).json({ message: 'Pump not found' });
+            const mappingError = await validateTankMapping(prisma, Number(tankId), existing.fuelTypeId);
+            if (mappingError) return res.status(400).json({ message: 'Invalid tank mapping', error: mappingError });
+        }
         const pump = await prisma.pump.update({
             where: { id },
-            data: { name, isActive },
+            // tankId: null clears the mapping and falls back to the fuel type's default tank
+            data: { name, isActive, tankId: tankId === undefined ? undefined : (tankId ? Number(tankId) : null) },
             include: { fuelType: true }
         });
         res.json(pump);
@@ -0,0 +1,404 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { TankValidator } from '../utils/tank-validations';
+import { backendLogger } from '../utils/logger';
+import { evaluateQuality, parseQualityReadings } from '../utils/volume-correction';
+import {
+    deliveryProgress,
+    nextPoNumber,
+    PURCHASE_ORDER_STATUSES,
+    SHORT_RECEIPT_TOLERANCE_LITRES,
+    syncPurchaseOrderStatus
+} from '../utils/purchase-orders';
+import { applyAllocations, invoiceBalance, SUPPLIER_PAYMENT_MODES } from '../utils/supplier-ledger';
+
+const CLAIM_STATUSES = ['open', 'accepted', 'rejected', 'settled'];
+
+export function createPurchaseOrdersRouter(prisma: PrismaClient, tankValidator: TankValidator) {
+    const router = Router();
+
+    const poInclude = {
+        supplier: { select: { id: true, name: true } },
+        fuelType: { select: { id: true, name: true } },
+        purchases: { include: { tank: { select: { id: true, name: true } } }, orderBy: { date: 'asc' as const } },
+        claims: true
+    };
+
+    router.get('/', async (req, res) => {
+        try {
+            const where: any = {};
+            if (req.query.supplierId) where.supplierId = Number(req.query.supplierId);
+            if (req.query.status) {
+                const status = String(req.query.status);
+                if (!(PURCHASE_ORDER_STATUSES as readonly string[]).includes(status)) {
+                    return res.status(400).json({ message: `status must be one of: ${PURCHASE_ORDER_STATUSES.join(', ')}` });
+                }
+                where.status = status;
+            }
+
+            const orders = await prisma.purchaseOrder.findMany({
+                where,
+                include: poInclude,
+                orderBy: { orderDate: 'desc' },
+                take: 200
+            });
+            res.json(orders.map(po => ({ ...po, progress: deliveryProgress(po) })));
+        } catch (error: any) {
+            console.error('Error fetching purchase orders:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Short-receipt claims, optionally filtered by status
+    router.get('/claims', async (req, res) => {
+        try {
+            const claims = await prisma.shortReceiptClaim.findMany({
+                where: req.query.status ? { status: String(req.query.status) } : {},
+                include: { purchaseOrder: { include: { supplier: { select: { id: true, name: true } } } } },
+                orderBy: { createdAt: 'desc' }
+            });
+            res.json(claims);
+        } catch (error: any) {
+            console.error('Error fetching short-receipt claims:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.put('/claims/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const { status, note } = req.body ?? {};
+            if (!CLAIM_STATUSES.includes(status)) {
+                return res.status(400).json({ message: `status must be one of: ${CLAIM_STATUSES.join(', ')}` });
+            }
+
+            const claim = await prisma.shortReceiptClaim.findUnique({ where: { id } });
+            if (!claim) return res.status(404).json({ message: 'Claim not found' });
+
+            const updated = await prisma.$transaction(async (tx) => {
+                const result = await tx.shortReceiptClaim.update({
+                    where: { id },
+                    data: {
+                        status,
+                        note: note ?? claim.note,
+                        resolvedAt: status === 'open' ? null : new Date()
+                    }
+                });
+                await tx.auditLog.create({
+                    data: {
+                        action: 'SHORT_CLAIM_UPDATE',
+                        entityType: 'ShortReceiptClaim',
+                        entityId: id,
+                        oldValues: JSON.stringify({ status: claim.status }),
+                        newValues: JSON.stringify({ status }),
+                        reason: note,
+                        userId: req.user?.id
+                    }
+                });
+                return result;
+            });
+
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error updating short-receipt claim:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/:id', async (req, res) => {
+        try {
+            const po = await prisma.purchaseOrder.findUnique({
+                where: { id: Number(req.params.id) },
+                include: poInclude
+            });
+            if (!po) return res.status(404).json({ message: 'Purchase order not found' });
+            res.json({ ...po, progress: deliveryProgress(po) });
+        } catch (error: any) {
+            console.error('Error fetching purchase order:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.post('/', async (req, res) => {
+        try {
+            const { supplierId, fuelTypeId, orderedLitres, unitCost, orderDate, expectedDate, note } = req.body ?? {};
+            const litres = parseFloat(orderedLitres);
+            const cost = parseFloat(unitCost);
+
+            if (!supplierId || !fuelTypeId || isNaN(litres) || litres <= 0 || isNaN(cost) || cost <= 0) {
+                return res.status(400).json({ message: 'supplierId, fuelTypeId, positive orderedLitres and unitCost are required' });
+            }
+
+            const supplier = await prisma.supplier.findUnique({ where: { id: Number(supplierId) } });
+            if (!supplier || !supplier.isActive) {
+                return res.status(400).json({ message: 'Supplier not found or inactive' });
+            }
+
+            const date = orderDate ? new Date(orderDate) : new Date();
+            const po = await prisma.$transaction(async (tx) => tx.purchaseOrder.create({
+                data: {
+                    poNumber: await nextPoNumber(tx, date),
+                    supplierId: supplier.id,
+                    fuelTypeId: Number(fuelTypeId),
+                    orderedLitres: litres,
+                    unitCost: cost,
+                    orderDate: date,
+                    expectedDate: expectedDate ? new Date(expectedDate) : null,
+                    note
+                },
+                include: poInclude
+            }));
+
+            backendLogger.info('Purchase order created', { poNumber: po.poNumber, supplier: supplier.name, litres });
+            res.status(201).json(po);
+        } catch (error: any) {
+            console.error('Error creating purchase order:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Supplier has loaded the tanker
+    router.put('/:id/dispatch', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const po = await prisma.purchaseOrder.findUnique({ where: { id } });
+            if (!po) return res.status(404).json({ message: 'Purchase order not found' });
+            if (po.status !== 'ordered') {
+                return res.status(400).json({ message: `Cannot dispatch a purchase order that is ${po.status}` });
+            }
+
+            const { vehicleNo, dispatchedAt } = req.body ?? {};
+            const updated = await prisma.purchaseOrder.update({
+                where: { id },
+                data: {
+                    status: 'dispatched',
+                    vehicleNo,
+                    dispatchedAt: dispatchedAt ? new Date(dispatchedAt) : new Date()
+                },
+                include: poInclude
+            });
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error dispatching purchase order:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Record a delivery against the PO. Creates a pending purchase for the receiving tank,
+     * raises a short-receipt claim when less arrived than the challan shows, and marks the
+     * PO received once the ordered litres have been billed (or `finalDelivery` is sent).
+     */
+    router.post('/:id/deliveries', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const po = await prisma.purchaseOrder.findUnique({ where: { id }, include: { supplier: true } });
+            if (!po) return res.status(404).json({ message: 'Purchase order not found' });
+            if (po.status !== 'ordered' && po.status !== 'dispatched') {
+                return res.status(400).json({ message: `Cannot record a delivery on a purchase order that is ${po.status}` });
+            }
+
+            const { tankId, litres, challanLitres, challanNo, date, finalDelivery, note } = req.body ?? {};
+            const receivedLitres = parseFloat(litres);
+            const billedLitres = challanLitres !== undefined && challanLitres !== null && challanLitres !== ''
+                ? parseFloat(challanLitres)
+                : receivedLitres;
+
+            if (!tankId || isNaN(receivedLitres) || receivedLitres <= 0 || isNaN(billedLitres) || billedLitres <= 0) {
+                return res.status(400).json({ message: 'tankId and positive litres are required' });
+            }
+
+            const tank = await prisma.tank.findUnique({ where: { id: Number(tankId) } });
+            if (!tank || !tank.isActive) return res.status(400).json({ message: 'Tank not found or inactive' });
+            if (tank.fuelTypeId !== po.fuelTypeId) {
+                return res.status(400).json({ message: `Tank ${tank.name} does not hold the fuel type on this purchase order` });
+            }
+
+            const validation = await tankValidator.validatePurchase(tank.id, receivedLitres);
+            if (!validation.isValid) {
+                return res.status(400).json({
+                    message: 'Delivery validation failed',
+                    error: validation.error,
+                    details: { availableSpace: validation.availableSpace, currentLevel: validation.currentLevel, capacity: validation.capacity }
+                });
+            }
+
+            const { readings: quality, error: qualityError } = parseQualityReadings(req.body);
+            if (qualityError) {
+                return res.status(400).json({ message: 'Invalid quality readings', error: qualityError });
+            }
+
+            const unitCost = Number(po.unitCost);
+            const shortLitres = billedLitres - receivedLitres;
+
+            const result = await prisma.$transaction(async (tx) => {
+                const purchase = await tx.purchase.create({
+                    data: {
+                        tankId: tank.id,
+                        litres: receivedLitres,
+                        challanLitres: billedLitres !== receivedLitres ? billedLitres : null,
+                        unitCost,
+                        totalCost: receivedLitres * unitCost,
+                        supplier: po.supplier.name,
+                        supplierId: po.supplierId,
+                        purchaseOrderId: po.id,
+                        note: challanNo ? `Challan ${challanNo}${note ? ` - ${note}` : ''}` : note,
+                        ...quality,
+                        ...evaluateQuality(receivedLitres, quality),
+                        date: date ? new Date(date) : new Date(),
+                        status: 'pending'
+                    }
+                });
+
+                let claim = null;
+                if (shortLitres > SHORT_RECEIPT_TOLERANCE_LITRES) {
+                    claim = await tx.shortReceiptClaim.create({
+                        data: {
+                            purchaseOrderId: po.id,
+                            purchaseId: purchase.id,
+                            shortLitres,
+                            amount: shortLitres * unitCost
+                        }
+                    });
+                }
+
+                if (po.status === 'ordered') {
+                    await tx.purchaseOrder.update({
+                        where: { id: po.id },
+                        data: { status: 'dispatched', dispatchedAt: new Date() }
+                    });
+                }
+                const updatedPo = await syncPurchaseOrderStatus(tx, po.id, Boolean(finalDelivery));
+
+                return { purchase, claim, status: updatedPo?.status };
+            });
+
+            if (result.claim) {
+                backendLogger.warn('Short receipt against purchase order', { poNumber: po.poNumber, shortLitres });
+            }
+            res.status(201).json(result);
+        } catch (error: any) {
+            console.error('Error recording delivery:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Supplier invoice received for an unloaded PO
+    router.put('/:id/invoice', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const po = await prisma.purchaseOrder.findUnique({ where: { id }, include: { purchases: true } });
+            if (!po) return res.status(404).json({ message: 'Purchase order not found' });
+            if (po.status !== 'unloaded') {
+                return res.status(400).json({ message: `Only unloaded purchase orders can be invoiced, this one is ${po.status}` });
+            }
+
+            const { invoiceNo, invoiceAmount, invoicedAt } = req.body ?? {};
+            if (!invoiceNo) return res.status(400).json({ message: 'invoiceNo is required' });
+
+            // Supplier bills challan litres unless the invoice says otherwise
+            const amount = invoiceAmount !== undefined && invoiceAmount !== null && invoiceAmount !== ''
+                ? parseFloat(invoiceAmount)
+                : po.purchases.reduce((sum, p) => sum + Number(p.challanLitres ?? p.litres) * Number(p.unitCost), 0);
+            if (isNaN(amount) || amount < 0) {
+                return res.status(400).json({ message: 'invoiceAmount must be a non-negative number' });
+            }
+
+            const invoiceDate = invoicedAt ? new Date(invoicedAt) : new Date();
+            const billedLitres = po.purchases.reduce((sum, p) => sum + Number(p.challanLitres ?? p.litres), 0);
+
+            const updated = await prisma.$transaction(async (tx) => {
+                // Each delivery becomes a payable invoice line, sharing the invoice amount by billed litres
+                for (const purchase of po.purchases) {
+                    const share = billedLitres > 0 ? Number(purchase.challanLitres ?? purchase.litres) / billedLitres : 1 / po.purchases.length;
+                    await tx.purchase.update({
+                        where: { id: purchase.id },
+                        data: {
+                            invoiceNo: purchase.invoiceNo ?? invoiceNo,
+                            invoiceAmount: Math.round(amount * share * 100) / 100,
+                            invoiceDate
+                        }
+                    });
+                }
+                return tx.purchaseOrder.update({
+                    where: { id },
+                    data: {
+                        status: 'invoiced',
+                        invoiceNo,
+                        invoiceAmount: amount,
+                        invoicedAt: invoiceDate
+                    },
+                    include: poInclude
+                });
+            });
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error invoicing purchase order:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Pay the remaining balance of an invoiced PO in one payment; partial payments go through /api/supplier-payments
+    router.put('/:id/pay', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const po = await prisma.purchaseOrder.findUnique({ where: { id }, include: { purchases: true } });
+            if (!po) return res.status(404).json({ message: 'Purchase order not found' });
+            if (po.status !== 'invoiced') {
+                return res.status(400).json({ message: `Only invoiced purchase orders can be paid, this one is ${po.status}` });
+            }
+
+            const { mode, bankReference, paidAt, note } = req.body ?? {};
+            if (!SUPPLIER_PAYMENT_MODES.includes(mode)) {
+                return res.status(400).json({ message: `mode must be one of: ${SUPPLIER_PAYMENT_MODES.join(', ')}` });
+            }
+            if (mode !== 'cash' && !bankReference) {
+                return res.status(400).json({ message: 'bankReference is required for non-cash payments' });
+            }
+            const paidDate = paidAt ? new Date(paidAt) : new Date();
+            if (isNaN(paidDate.getTime())) return res.status(400).json({ message: 'paidAt must be a valid date' });
+
+            const updated = await prisma.$transaction(async (tx) => {
+                // Lock the order while it is still invoiced, so a second payment arriving at the same time
+                // waits here and then finds it paid instead of paying the same balances again
+                const claimed = await tx.purchaseOrder.updateMany({
+                    where: { id, status: 'invoiced' },
+                    data: { updatedAt: new Date() }
+                });
+                if (claimed.count !== 1) throw new Error('Purchase order is no longer awaiting payment');
+
+                const current = await tx.purchaseOrder.findUnique({ where: { id }, include: { purchases: true } });
+                const plan = current.purchases
+                    .map(p => ({ purchaseId: p.id, amount: invoiceBalance(p) }))
+                    .filter(a => a.amount > 0);
+                const amount = plan.reduce((sum, a) => sum + a.amount, 0);
+
+                if (plan.length > 0) {
+                    await tx.supplierPayment.create({
+                        data: {
+                            supplierId: current.supplierId,
+                            amount,
+                            mode,
+                            bankReference,
+                            note: note ?? `Payment for ${po.poNumber}`,
+                            recordedById: req.user?.id,
+                            date: paidDate,
+                            allocations: { create: plan }
+                        }
+                    });
+                    await applyAllocations(tx, plan);
+                } else {
+                    await tx.purchaseOrder.update({ where: { id }, data: { status: 'paid', paidAt: new Date() } });
+                }
+                return tx.purchaseOrder.findUnique({ where: { id }, include: poInclude });
+            });
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error marking purchase order paid:', error);
+            if (error.message === 'Purchase order is no longer awaiting payment') return res.status(409).json({ message: error.message });
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
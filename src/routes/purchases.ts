@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { TankValidator } from '../utils/tank-validations';
+import { backendLogger } from '../utils/logger';
+import { DENSITY_TOLERANCE_KG_M3, evaluateQuality, parseQualityReadings } from '../utils/volume-correction';
+import { addCostLayer } from '../utils/inventory-costing';
+import { syncPurchaseOrderStatus } from '../utils/purchase-orders';
 
 export function createPurchasesRouter(prisma: PrismaClient, tankValidator: TankValidator) {
     const router = Router();
@@ -12,11 +16,19 @@ export function createPurchasesRouter(prisma: PrismaClient, tankValidator: TankV
 
     router.post('/', async (req, res) => {
         try {
-            const { tankId, litres, unitCost, date } = req.body ?? {};
+            const { tankId, litres, unitCost, date, supplierId } = req.body ?? {};
             if (!tankId || !litres || !unitCost) return res.status(400).json({ message: 'tankId, litres, unitCost required' });
 
+            const supplier = supplierId ? await prisma.supplier.findUnique({ where: { id: Number(supplierId) } }) : null;
+            if (supplierId && !supplier) return res.status(400).json({ message: 'Supplier not found' });
+
             console.log('Purchase request:', { tankId, litres, unitCost, date });
 
+            const { readings: quality, error: qualityError } = parseQualityReadings(req.body);
+            if (qualityError) {
+                return res.status(400).json({ message: 'Invalid quality readings', error: qualityError });
+            }
+
             // Validate tank capacity before proceeding
             const validation = await tankValidator.validatePurchase(tankId, Number(litres));
             if (!validation.isValid) {
@@ -47,6 +59,11 @@ export function createPurchasesRouter(prisma: PrismaClient, tankValidator: TankV
                     litres,
                     unitCost,
                     totalCost: Number(unitCost) * Number(litres),
+                    supplierId: supplier?.id,
+                    supplier: supplier?.name,
+                    invoiceDate: supplier ? (date ? new Date(date) : new Date()) : null,
+                    ...quality,
+                    ...evaluateQuality(Number(litres), quality),
                     date: date ? new Date(date) : new Date(),
                     status: 'pending' // Mark as pending until unloaded
                 },
@@ -89,6 +106,40 @@ export function createPurchasesRouter(prisma: PrismaClient, tankValidator: TankV
                 return res.status(400).json({ message: 'Purchase already marked as unloaded' });
             }
 
+            // Decantation readings: temperature and density taken now, merged with what was recorded at purchase
+            const { readings: bodyQuality, error: qualityError } = parseQualityReadings(req.body);
+            if (qualityError) {
+                return res.status(400).json({ message: 'Invalid quality readings', error: qualityError });
+            }
+            const quality = {
+                invoiceDensity: bodyQuality.invoiceDensity ?? (purchase.invoiceDensity !== null ? Number(purchase.invoiceDensity) : null),
+                observedTemperature: bodyQuality.observedTemperature ?? (purchase.observedTemperature !== null ? Number(purchase.observedTemperature) : null),
+                observedDensity: bodyQuality.observedDensity ?? (purchase.observedDensity !== null ? Number(purchase.observedDensity) : null)
+            };
+            const qualityResult = evaluateQuality(Number(purchase.litres), quality);
+
+            // Density outside the band: record the readings and hold the unload unless a manager accepts it
+            const { acceptDensityVariance, reason } = req.body ?? {};
+            if (qualityResult.densityStatus === 'out_of_band' && !(acceptDensityVariance && reason)) {
+                await prisma.purchase.update({
+                    where: { id: purchaseId },
+                    data: { ...quality, ...qualityResult }
+                });
+
+                backendLogger.warn('Unload held: density outside allowed band', {
+                    purchaseId,
+                    invoiceDensity: quality.invoiceDensity,
+                    density15: qualityResult.density15,
+                    densityVariance: qualityResult.densityVariance
+                });
+
+                return res.status(409).json({
+                    message: 'Density outside allowed band',
+                    error: `Density at 15°C (${qualityResult.density15} kg/m³) differs from the invoice (${quality.invoiceDensity} kg/m³) by more than ${DENSITY_TOLERANCE_KG_M3} kg/m³. Send acceptDensityVariance with a reason to unload anyway.`,
+                    details: { ...quality, ...qualityResult, toleranceKgM3: DENSITY_TOLERANCE_KG_M3 }
+                });
+            }
+
             // Get tank data
             const tank = purchase.tank;
             const newLevel = Number(tank.currentLevel) + Number(purchase.litres);
@@ -117,9 +168,22 @@ export function createPurchasesRouter(prisma: PrismaClient, tankValidator: TankV
                 // Update purchase status
                 await tx.purchase.update({
                     where: { id: purchaseId },
-                    data: { status: 'unloaded' }
+                    data: { status: 'unloaded', unloadedAt: new Date(), ...quality, ...qualityResult }
                 });
 
+                if (qualityResult.densityStatus === 'out_of_band') {
+                    await tx.auditLog.create({
+                        data: {
+                            action: 'PURCHASE_DENSITY_OVERRIDE',
+                            entityType: 'Purchase',
+                            entityId: purchaseId,
+                            newValues: JSON.stringify({ ...quality, ...qualityResult }),
+                            reason,
+                            userId: req.user?.id
+                        }
+                    });
+                }
+
                 // Update tank level
                 await tx.tank.update({
                     where: { id: tank.id },
@@ -128,6 +192,19 @@ export function createPurchasesRouter(prisma: PrismaClient, tankValidator: TankV
                         avgUnitCost: avgUnitCost
                     }
                 });
+
+                // Open a FIFO cost layer for the delivered litres
+                await addCostLayer(tx, {
+                    tankId: tank.id,
+                    purchaseId,
+                    litres: Number(purchase.litres),
+                    unitCost: Number(purchase.unitCost),
+                    receivedAt: new Date()
+                });
+
+                if (purchase.purchaseOrderId) {
+                    await syncPurchaseOrderStatus(tx, purchase.purchaseOrderId);
+                }
             });
 
             console.log('✅ Purchase marked as unloaded and tank updated:', {
@@ -143,7 +220,8 @@ export function createPurchasesRouter(prisma: PrismaClient, tankValidator: TankV
                 purchaseId,
                 tankName: tank.name,
                 newLevel,
-                addedLitres: purchase.litres
+                addedLitres: purchase.litres,
+                quality: { ...quality, ...qualityResult }
             });
         } catch (error: any) {
             console.error('Error marking purchase as unloaded:', error);
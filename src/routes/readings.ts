@@ -1,5 +1,9 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { getPricePerLitreAt, tradingInstant } from '../utils/pricing';
+import { parseTestingLitres, soldLitres } from '../utils/pump-testing';
+import { resolveTankForPump } from '../utils/tank-mapping';
+import { recordSaleCost } from '../utils/inventory-costing';
 
 export function createReadingsRouter(prisma: PrismaClient) {
     const router = Router();
@@ -24,11 +28,10 @@ export function createReadingsRouter(prisma: PrismaClient) {
         const dateKey = new Date(date);
         let price = pricePerLitre;
         if (price === undefined || price === null) {
-            // auto-fill from current active price for the pump's fuel type
+            // auto-fill from the price in force on the reading's date for the pump's fuel type
             const pump = await prisma.pump.findUnique({ where: { id: Number(pumpId) } });
             if (!pump) return res.status(404).json({ message: 'Pump not found' });
-            const active = await prisma.price.findFirst({ where: { fuelTypeId: pump.fuelTypeId, isActive: true }, orderBy: { createdAt: 'desc' } });
-            price = Number(active?.perLitre ?? 0);
+            price = await getPricePerLitreAt(prisma, pump.fuelTypeId, tradingInstant(dateKey));
         }
         const result = await prisma.dailyReading.upsert({
             where: { pumpId_date: { pumpId, date: dateKey } },
@@ -146,6 +149,59 @@ export function createReadingsRouter(prisma: PrismaClient) {
         }
     });
 
+    /**
+     * Record the litres dispensed for pump testing or W&M calibration on a saved reading. The meters stay as
+     * they are; revenue drops to the litres actually sold and the testing litres go back into the tank.
+     */
+    router.put('/:id/testing', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid reading id' });
+            const reading = await prisma.dailyReading.findUnique({ where: { id }, include: { pump: true } });
+            if (!reading) return res.status(404).json({ message: 'Reading not found' });
+
+            const testing = parseTestingLitres(req.body?.testingLitres, Number(reading.openingLitres), Number(reading.closingLitres));
+            if ('error' in testing) return res.status(400).json({ message: testing.error });
+
+            const tank = await resolveTankForPump(prisma, reading.pump);
+            if (!tank) return res.status(404).json({ message: `No active tank found for pump ${reading.pump.name}` });
+
+            const returned = testing.litres - Number(reading.testingLitres);
+            const updated = await prisma.$transaction(async (tx) => {
+                const saved = await tx.dailyReading.update({
+                    where: { id },
+                    data: {
+                        testingLitres: testing.litres,
+                        revenue: soldLitres({ ...reading, testingLitres: testing.litres }) * Number(reading.pricePerLitre)
+                    }
+                });
+
+                if (returned !== 0) {
+                    await tx.tank.update({ where: { id: tank.id }, data: { currentLevel: { increment: returned } } });
+                    await recordSaleCost(tx, tank.id, -returned, { sourceType: 'reading', sourceId: id, date: reading.date });
+                }
+
+                await tx.auditLog.create({
+                    data: {
+                        action: 'READING_TESTING_UPDATE',
+                        entityType: 'DailyReading',
+                        entityId: id,
+                        oldValues: JSON.stringify({ testingLitres: reading.testingLitres, revenue: reading.revenue }),
+                        newValues: JSON.stringify({ testingLitres: saved.testingLitres, revenue: saved.revenue }),
+                        reason: req.body?.reason,
+                        userId: req.user?.id
+                    }
+                });
+                return saved;
+            });
+
+            res.json(updated);
+        } catch (error: any) {
+            console.error('Error updating testing litres:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
     // Helper to compute revenue/profit for a date across pumps
     router.get('/summary', async (req, res) => {
         const dateStr = String(req.query.date);
@@ -154,7 +210,7 @@ export function createReadingsRouter(prisma: PrismaClient) {
         const readings = await prisma.dailyReading.findMany({ where: { date: { gte: start, lte: end } }, include: { pump: true } });
         let litres = 0, revenue = 0;
         for (const r of readings) {
-            const sold = Number(r.openingLitres) - Number(r.closingLitres); // opening - closing = sold
+            const sold = soldLitres(r); // Testing litres are not sold
             litres += sold;
             revenue += sold * Number(r.pricePerLitre);
         }
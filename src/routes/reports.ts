@@ -1,5 +1,11 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { COSTING_METHOD, COSTING_METHODS, CostingMethod, getCostOfSales } from '../utils/inventory-costing';
+import { buildStockRevaluationReport } from '../utils/stock-revaluation';
+import { toCsv } from '../utils/csv';
+import { buildDailySalesReport, buildMonthlyDsr, renderDsrCsv, renderDsrPdf, renderMonthlyDsrCsv } from '../utils/dsr';
+import { soldLitres } from '../utils/pump-testing';
+import { formatDate } from '../utils/common';
 
 export function createReportsRouter(prisma: PrismaClient) {
     const router = Router();
@@ -120,6 +126,179 @@ export function createReportsRouter(prisma: PrismaClient) {
         });
     });
 
+    /**
+     * Realised cost and profit per day and fuel type.
+     * Cost comes from the FIFO layers consumed by readings, or the tank moving average with ?method=average.
+     */
+    router.get('/profit', async (req, res) => {
+        try {
+            const method = (req.query.method ? String(req.query.method) : COSTING_METHOD) as CostingMethod;
+            if (!COSTING_METHODS.includes(method)) {
+                return res.status(400).json({ message: `method must be one of: ${COSTING_METHODS.join(', ')}` });
+            }
+
+            const today = new Date().toISOString().split('T')[0];
+            const start = getPeriodStart(new Date(String(req.query.startDate || today)), 'daily');
+            const end = endOfPeriod(getPeriodStart(new Date(String(req.query.endDate || req.query.startDate || today)), 'daily'), 'daily');
+
+            const [readings, costs, fuelTypes] = await Promise.all([
+                prisma.dailyReading.findMany({
+                    where: { date: { gte: start, lte: end } },
+                    include: { pump: true }
+                }),
+                getCostOfSales(prisma, start, end, method),
+                prisma.fuelType.findMany()
+            ]);
+            const fuelTypeNames = new Map(fuelTypes.map(f => [f.id, f.name]));
+
+            const rows: Record<string, { date: string; fuelTypeId: number; fuelType: string; litres: number; revenue: number; cost: number; costedLitres: number }> = {};
+            const rowFor = (date: string, fuelTypeId: number) => {
+                const key = `${date}_${fuelTypeId}`;
+                if (!rows[key]) {
+                    rows[key] = { date, fuelTypeId, fuelType: fuelTypeNames.get(fuelTypeId) || '', litres: 0, revenue: 0, cost: 0, costedLitres: 0 };
+                }
+                return rows[key];
+            };
+
+            for (const r of readings) {
+                const sold = soldLitres(r);
+                if (sold <= 0) continue;
+                const row = rowFor(formatDate(r.date), r.pump.fuelTypeId);
+                row.litres += sold;
+                row.revenue += sold * Number(r.pricePerLitre);
+            }
+            for (const c of Object.values(costs)) {
+                const row = rowFor(c.date, c.fuelTypeId);
+                row.cost += c.cost;
+                row.costedLitres += c.litres;
+            }
+
+            const result = Object.values(rows)
+                .map(row => {
+                    const profit = row.revenue - row.cost;
+                    return {
+                        ...row,
+                        // Litres sold with no cost layer behind them (readings from before costing was enabled)
+                        uncostedLitres: Math.max(row.litres - row.costedLitres, 0),
+                        profit,
+                        margin: row.revenue > 0 ? (profit / row.revenue) * 100 : 0
+                    };
+                })
+                .sort((a, b) => a.date.localeCompare(b.date) || a.fuelTypeId - b.fuelTypeId);
+
+            const totals = result.reduce((t, r) => ({
+                litres: t.litres + r.litres,
+                revenue: t.revenue + r.revenue,
+                cost: t.cost + r.cost,
+                profit: t.profit + r.profit
+            }), { litres: 0, revenue: 0, cost: 0, profit: 0 });
+
+            res.json({ method, start: formatDate(start), end: formatDate(end), rows: result, totals });
+        } catch (error: any) {
+            console.error('Error building profit report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Gain or loss on tank stock at each selling or purchase price revision, with monthly totals.
+     * Defaults to the current month; `format=csv` exports one row per tank per revision.
+     */
+    router.get('/stock-revaluation', async (req, res) => {
+        try {
+            const now = new Date();
+            const start = getPeriodStart(req.query.startDate ? new Date(String(req.query.startDate)) : getPeriodStart(now, 'monthly'), 'daily');
+            const end = endOfPeriod(getPeriodStart(req.query.endDate ? new Date(String(req.query.endDate)) : now, 'daily'), 'daily');
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                return res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+            }
+
+            const report = await buildStockRevaluationReport(prisma, {
+                start,
+                end,
+                fuelTypeId: req.query.fuelTypeId ? Number(req.query.fuelTypeId) : undefined
+            });
+
+            if (req.query.format === 'csv') {
+                const headers = ['Date', 'Fuel type', 'Price', 'Old price', 'New price', 'Tank', 'Litres', 'Avg unit cost', 'Book value', 'Gain/loss'];
+                const rows = report.revisions.flatMap((r: any) => r.tanks.map((t: any) => [
+                    r.date,
+                    r.fuelType,
+                    r.trigger === 'selling_price' ? 'selling' : 'purchase',
+                    r.oldPrice.toFixed(2),
+                    r.newPrice.toFixed(2),
+                    t.tank,
+                    t.litres.toFixed(2),
+                    t.avgUnitCost.toFixed(2),
+                    t.bookValue.toFixed(2),
+                    t.gainLoss.toFixed(2)
+                ]));
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="stock-revaluation-${formatDate(start)}-to-${formatDate(end)}.csv"`);
+                return res.send(toCsv(headers, rows));
+            }
+
+            res.json({ start: formatDate(start), end: formatDate(end), ...report });
+        } catch (error: any) {
+            console.error('Error building stock revaluation report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Daily Sales Report for the oil company (`date`, defaults to today) as JSON, PDF or CSV.
+     */
+    router.get('/dsr', async (req, res) => {
+        try {
+            const day = getPeriodStart(req.query.date ? new Date(String(req.query.date)) : new Date(), 'daily');
+            if (isNaN(day.getTime())) return res.status(400).json({ message: 'date must be a valid date' });
+
+            const report = await buildDailySalesReport(prisma, day);
+            if (req.query.format === 'pdf') {
+                res.setHeader('Content-Type', 'application/pdf');
+                res.setHeader('Content-Disposition', `attachment; filename="dsr-${report.date}.pdf"`);
+                return res.send(renderDsrPdf(report));
+            }
+            if (req.query.format === 'csv') {
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="dsr-${report.date}.csv"`);
+                return res.send(renderDsrCsv(report));
+            }
+            res.json(report);
+        } catch (error: any) {
+            console.error('Error building DSR:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Month roll-up of the DSR (`month=YYYY-MM`, defaults to the current month); `format=csv` for a spreadsheet
+    router.get('/dsr/monthly', async (req, res) => {
+        try {
+            const now = new Date();
+            let year = now.getFullYear();
+            let month = now.getMonth();
+            if (req.query.month) {
+                const match = /^(\d{4})-(\d{2})$/.exec(String(req.query.month));
+                if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+                    return res.status(400).json({ message: 'month must be in YYYY-MM format' });
+                }
+                year = Number(match[1]);
+                month = Number(match[2]) - 1;
+            }
+
+            const monthly = await buildMonthlyDsr(prisma, year, month);
+            if (req.query.format === 'csv') {
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="dsr-${monthly.month}.csv"`);
+                return res.send(renderMonthlyDsrCsv(monthly));
+            }
+            res.json(monthly);
+        } catch (error: any) {
+            console.error('Error building monthly DSR:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
     return router;
 }
 
@@ -174,5 +353,3 @@ function endOfPeriod(start: Date, period: string): Date {
     }
     return end;
 }
-
-
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { TankValidator } from '../utils/tank-validations';
+import { refreshClientBalance } from '../utils/client-ledger';
+import { checkCreditLimit, logCreditLimitEvent } from '../utils/credit-limit';
+import { getPriceAt } from '../utils/pricing';
 
 export function createSalesRouter(prisma: PrismaClient, tankValidator: TankValidator) {
     const router = Router();
@@ -40,22 +43,33 @@ export function createSalesRouter(prisma: PrismaClient, tankValidator: TankValid
                 throw new Error(`Insufficient fuel in tank. Available: ${tank.currentLevel}L, trying to sell: ${litres}L`);
             }
 
-            const price = await tx.price.findFirst({ where: { fuelTypeId: tank.fuelTypeId, isActive: true }, orderBy: { createdAt: 'desc' } });
+            const price = await getPriceAt(tx, tank.fuelTypeId);
             if (!price) throw new Error('No active price');
 
             const totalAmount = Number(litres) * Number(price.perLitre);
 
             if (method === 'CREDIT') {
                 if (!clientId) throw new Error('clientId required for credit');
-                const client = await tx.client.findUnique({ where: { id: clientId } });
-                if (!client) throw new Error('Client not found');
-                const newBalance = Number(client.balance) + totalAmount;
-                if (newBalance > Number(client.creditLimit)) throw new Error('Credit limit exceeded');
-                await tx.client.update({ where: { id: client.id }, data: { balance: newBalance } });
-                // Note: ledgerEntry model doesn't exist, using ClientCredit instead
-                await tx.clientCredit.create({
+                const check = await checkCreditLimit(tx, clientId, totalAmount);
+                if (!check) throw new Error('Client not found');
+                if (!check.withinLimit && check.policy !== 'warn') {
+                    // Logged outside the transaction so the record survives the rollback
+                    await logCreditLimitEvent(prisma, {
+                        action: 'CREDIT_LIMIT_BLOCKED',
+                        entityType: 'Client',
+                        entityId: clientId,
+                        check,
+                        values: { litres: Number(litres), totalAmount },
+                        userId: req.user?.id
+                    });
+                    throw new Error(check.policy === 'approval'
+                        ? `Credit limit exceeded; record this sale through POST /api/credits for approval. ${check.message}`
+                        : `Credit limit exceeded. ${check.message}`);
+                }
+                // Credit sales are posted to the client ledger as ClientCredit entries
+                const credit = await tx.clientCredit.create({
                     data: {
-                        clientId: client.id,
+                        clientId,
                         fuelTypeId: tank.fuelTypeId,
                         litres: 0,
                         pricePerLitre: price.perLitre,
@@ -64,6 +78,17 @@ export function createSalesRouter(prisma: PrismaClient, tankValidator: TankValid
                         date: new Date()
                     }
                 });
+                await refreshClientBalance(tx, clientId);
+                if (!check.withinLimit) {
+                    await logCreditLimitEvent(tx, {
+                        action: 'CREDIT_LIMIT_WARNING',
+                        entityType: 'ClientCredit',
+                        entityId: credit.id,
+                        check,
+                        values: { litres: Number(litres), totalAmount },
+                        userId: req.user?.id
+                    });
+                }
             }
 
             // Use tank.avgUnitCost as cost basis
@@ -0,0 +1,519 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { TankValidator } from '../utils/tank-validations';
+import { backendLogger } from '../utils/logger';
+import { resolveTankForPump } from '../utils/tank-mapping';
+import { recordSaleCost } from '../utils/inventory-costing';
+import { getPricePerLitreAt } from '../utils/pricing';
+import { parseTestingLitres, soldLitres } from '../utils/pump-testing';
+import { dayRange } from '../utils/common';
+
+export function createShiftsRouter(prisma: PrismaClient, tankValidator: TankValidator) {
+    const router = Router();
+
+    // Load a shift and make sure attendants only touch their own shifts
+    async function loadShift(req: Request, res: Response) {
+        const shiftId = Number(req.params.id);
+        const shift = await prisma.shift.findUnique({
+            where: { id: shiftId },
+            include: { pumps: { include: { pump: true } } }
+        });
+
+        if (!shift) {
+            res.status(404).json({ error: 'Shift not found' });
+            return null;
+        }
+
+        if (req.user?.role === 'attendant' && shift.attendantId !== req.user.id) {
+            backendLogger.securityEvent('foreign_shift_access', 'medium', {
+                userId: req.user.id,
+                shiftId
+            }, { endpoint: req.path, method: req.method, userId: String(req.user.id) });
+            res.status(403).json({ error: 'Attendants can only work on their own shift' });
+            return null;
+        }
+
+        return shift;
+    }
+
+    // List shifts, optionally for one day and/or status
+    router.get('/', async (req, res) => {
+        try {
+            const { date, status, attendantId } = req.query;
+            const where: any = {};
+            if (date) {
+                const { start, end } = dayRange(String(date));
+                if (isNaN(start.getTime())) return res.status(400).json({ message: 'date must be a valid date' });
+                where.startTime = { gte: start, lte: end };
+            }
+            if (status) where.status = String(status);
+            if (attendantId) where.attendantId = Number(attendantId);
+
+            const shifts = await prisma.shift.findMany({
+                where,
+                include: {
+                    attendant: { select: { id: true, name: true, username: true } },
+                    pumps: { include: { pump: { include: { fuelType: true } } } }
+                },
+                orderBy: { startTime: 'desc' }
+            });
+            res.json(shifts);
+        } catch (error: any) {
+            console.error('Error fetching shifts:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Opening meters a new shift would start from, for the handover screen
+    router.get('/opening-meters', async (req, res) => {
+        try {
+            const pumpIds = String(req.query.pumpIds || '')
+                .split(',')
+                .map(id => Number(id))
+                .filter(id => id > 0);
+            const pumps = await prisma.pump.findMany({
+                where: pumpIds.length > 0 ? { id: { in: pumpIds } } : { isActive: true },
+                orderBy: { id: 'asc' }
+            });
+
+            const meters = await getLastClosingMeters(prisma, pumps.map(p => p.id));
+            res.json(pumps.map(pump => ({
+                pumpId: pump.id,
+                pumpName: pump.name,
+                openingMeter: meters[pump.id] ?? 0
+            })));
+        } catch (error: any) {
+            console.error('Error fetching opening meters:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/:id', async (req, res) => {
+        try {
+            const shift = await prisma.shift.findUnique({
+                where: { id: Number(req.params.id) },
+                include: {
+                    attendant: { select: { id: true, name: true, username: true } },
+                    pumps: { include: { pump: { include: { fuelType: true } } } },
+                    readings: true,
+                    cashReceipts: true,
+                    onlinePayments: true
+                }
+            });
+            if (!shift) return res.status(404).json({ error: 'Shift not found' });
+            res.json(shift);
+        } catch (error: any) {
+            console.error('Error fetching shift:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Open a shift for an attendant with the pumps they are handed over
+    router.post('/', async (req, res) => {
+        try {
+            const { pumpIds, startTime, note } = req.body ?? {};
+            // Attendants always open their own shift; managers may open one for someone else
+            const attendantId = req.user?.role === 'attendant'
+                ? req.user.id
+                : Number(req.body?.attendantId ?? req.user?.id);
+
+            if (!Array.isArray(pumpIds) || pumpIds.length === 0) {
+                return res.status(400).json({ message: 'pumpIds array is required' });
+            }
+            if (!Number.isInteger(attendantId)) {
+                return res.status(400).json({ message: 'attendantId must be a whole number' });
+            }
+
+            const pumpIdNums: number[] = pumpIds.map((id: any) => Number(id));
+            if (pumpIdNums.some(id => !Number.isInteger(id))) {
+                return res.status(400).json({ message: 'pumpIds must be whole numbers' });
+            }
+            const repeated = pumpIdNums.find((id, i) => pumpIdNums.indexOf(id) !== i);
+            if (repeated !== undefined) {
+                return res.status(400).json({ message: `Pump ${repeated} appears more than once` });
+            }
+
+            const start = startTime ? new Date(startTime) : new Date();
+            if (isNaN(start.getTime())) return res.status(400).json({ message: 'startTime must be a valid date' });
+
+            const pumps = await prisma.pump.findMany({ where: { id: { in: pumpIdNums }, isActive: true }, select: { id: true } });
+            const unknown = pumpIdNums.filter(id => !pumps.some(p => p.id === id));
+            if (unknown.length > 0) {
+                return res.status(400).json({ message: `Pumps not found or inactive: ${unknown.join(', ')}` });
+            }
+
+            const attendant = await prisma.user.findUnique({ where: { id: attendantId } });
+            if (!attendant || !attendant.isActive) {
+                return res.status(400).json({ message: 'Attendant not found or inactive' });
+            }
+
+            // A pump can only be handed to one open shift at a time
+            const busyPumps = await prisma.shiftPump.findMany({
+                where: { pumpId: { in: pumpIdNums }, shift: { status: 'open' } },
+                include: { pump: true, shift: { include: { attendant: { select: { name: true } } } } }
+            });
+            if (busyPumps.length > 0) {
+                return res.status(409).json({
+                    error: 'Some pumps are still assigned to an open shift',
+                    details: busyPumps.map(bp => ({
+                        pumpId: bp.pumpId,
+                        pumpName: bp.pump.name,
+                        shiftId: bp.shiftId,
+                        attendant: bp.shift.attendant.name
+                    }))
+                });
+            }
+
+            const openingMeters = await getLastClosingMeters(prisma, pumpIdNums);
+
+            const shift = await prisma.shift.create({
+                data: {
+                    attendantId,
+                    startTime: start,
+                    note,
+                    pumps: {
+                        create: pumpIdNums.map((pumpId: number) => ({
+                            pumpId,
+                            openingMeter: openingMeters[pumpId] ?? 0
+                        }))
+                    }
+                },
+                include: { pumps: { include: { pump: true } } }
+            });
+
+            backendLogger.info('Shift opened', { shiftId: shift.id, attendantId, pumpIds: pumpIdNums }, {
+                endpoint: '/api/shifts',
+                method: 'POST',
+                userId: String(req.user?.id)
+            });
+
+            res.status(201).json(shift);
+        } catch (error: any) {
+            console.error('Error opening shift:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Record closing meters for the shift's pumps
+    router.post('/:id/readings', async (req, res) => {
+        try {
+            const shift = await loadShift(req, res);
+            if (!shift) return;
+            if (shift.status !== 'open') {
+                return res.status(400).json({ error: 'Shift is already closed' });
+            }
+
+            const { readings } = req.body ?? {};
+            if (!Array.isArray(readings) || readings.length === 0) {
+                return res.status(400).json({ message: 'readings array is required' });
+            }
+
+            const pumpIds = readings.map(r => Number(r.pumpId));
+            const repeated = pumpIds.find((id, i) => pumpIds.indexOf(id) !== i);
+            if (repeated !== undefined) {
+                return res.status(400).json({ error: `Pump ${repeated} appears more than once` });
+            }
+
+            // Check every row before anything is saved, so a bad row leaves stock untouched
+            const tankTotals: Record<number, number> = {};
+            const prepared = [];
+            for (const reading of readings) {
+                const pumpId = Number(reading.pumpId);
+                const shiftPump = shift.pumps.find(sp => sp.pumpId === pumpId);
+                if (!shiftPump) {
+                    return res.status(400).json({ error: `Pump ${reading.pumpId} is not assigned to this shift` });
+                }
+
+                const openingLitres = Number(shiftPump.openingMeter);
+                const closingLitres = parseFloat(reading.closingLitres);
+
+                if (reading.openingLitres !== undefined && Number(reading.openingLitres) !== openingLitres) {
+                    return res.status(400).json({
+                        message: 'Opening meter mismatch',
+                        error: `Opening meter for ${shiftPump.pump.name} must be ${openingLitres} (previous closing meter)`,
+                        details: { pumpId, expected: openingLitres, received: Number(reading.openingLitres) }
+                    });
+                }
+
+                if (isNaN(closingLitres) || closingLitres < openingLitres) {
+                    return res.status(400).json({
+                        message: 'Invalid closing litres',
+                        error: `Closing meter for ${shiftPump.pump.name} must be at least ${openingLitres}, got: ${reading.closingLitres}`,
+                        details: { pumpId, openingLitres, closingLitres: reading.closingLitres }
+                    });
+                }
+
+                const testing = parseTestingLitres(reading.testingLitres, openingLitres, closingLitres);
+                if ('error' in testing) {
+                    return res.status(400).json({
+                        message: 'Invalid testing litres',
+                        error: testing.error,
+                        details: { pumpId, testingLitres: reading.testingLitres }
+                    });
+                }
+
+                let pricePerLitre = reading.pricePerLitre !== undefined ? parseFloat(reading.pricePerLitre) : NaN;
+                if (isNaN(pricePerLitre)) {
+                    pricePerLitre = await getPricePerLitreAt(prisma, shiftPump.pump.fuelTypeId, shift.startTime);
+                }
+
+                const existing = await prisma.dailyReading.findUnique({
+                    where: { pumpId_date: { pumpId, date: shift.startTime } }
+                });
+                // Shift readings are keyed on the shift start; a day-wise reading for that instant is someone else's row
+                if (existing && existing.shiftId !== shift.id) {
+                    return res.status(409).json({
+                        error: `A reading for ${shiftPump.pump.name} already exists at the shift start time`,
+                        details: { pumpId, readingId: existing.id, shiftId: existing.shiftId }
+                    });
+                }
+                const fuelSold = soldLitres({ openingLitres, closingLitres, testingLitres: testing.litres });
+                const netFuelSold = existing ? fuelSold - soldLitres(existing) : fuelSold;
+
+                const tank = await resolveTankForPump(prisma, shiftPump.pump);
+                if (!tank) {
+                    return res.status(404).json({ error: `No active tank found for pump ${shiftPump.pump.name}` });
+                }
+
+                if (netFuelSold !== 0) {
+                    tankTotals[tank.id] = (tankTotals[tank.id] || 0) + netFuelSold;
+                }
+                prepared.push({ pumpId, tankId: tank.id, openingLitres, closingLitres, testingLitres: testing.litres, pricePerLitre, fuelSold, netFuelSold });
+            }
+
+            for (const [tankId, litres] of Object.entries(tankTotals)) {
+                if (litres <= 0) continue;
+                const validation = await tankValidator.validateSale(Number(tankId), litres);
+                if (!validation.isValid) {
+                    return res.status(400).json({
+                        message: 'Reading validation failed',
+                        error: validation.error,
+                        details: { tankId: Number(tankId), availableFuel: validation.availableFuel, fuelSold: litres }
+                    });
+                }
+            }
+
+            const saved = await prisma.$transaction(async (tx) => {
+                const results = [];
+                for (const p of prepared) {
+                    const data = {
+                        openingLitres: p.openingLitres,
+                        closingLitres: p.closingLitres,
+                        testingLitres: p.testingLitres,
+                        pricePerLitre: p.pricePerLitre,
+                        revenue: p.fuelSold * p.pricePerLitre
+                    };
+                    const savedReading = await tx.dailyReading.upsert({
+                        where: { pumpId_date: { pumpId: p.pumpId, date: shift.startTime } },
+                        update: data,
+                        create: { ...data, pumpId: p.pumpId, shiftId: shift.id, date: shift.startTime }
+                    });
+                    results.push(savedReading);
+
+                    if (p.netFuelSold !== 0) {
+                        await recordSaleCost(tx, p.tankId, p.netFuelSold, { sourceType: 'reading', sourceId: savedReading.id, date: savedReading.date });
+                    }
+                }
+
+                for (const [tankId, litres] of Object.entries(tankTotals)) {
+                    await tx.tank.update({
+                        where: { id: Number(tankId) },
+                        data: { currentLevel: { decrement: litres } }
+                    });
+                }
+
+                return results;
+            });
+
+            res.status(201).json({ success: true, readings: saved });
+        } catch (error: any) {
+            console.error('Error saving shift readings:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Record cash collected at a pump during the shift
+    router.post('/:id/cash-receipts', async (req, res) => {
+        try {
+            const shift = await loadShift(req, res);
+            if (!shift) return;
+            if (shift.status !== 'open') {
+                return res.status(400).json({ error: 'Shift is already closed' });
+            }
+
+            const { pumpId, amount, note } = req.body ?? {};
+            const pumpIdNum = Number(pumpId);
+            if (!shift.pumps.some(sp => sp.pumpId === pumpIdNum)) {
+                return res.status(400).json({ error: `Pump ${pumpId} is not assigned to this shift` });
+            }
+            if (!amount || isNaN(parseFloat(amount))) {
+                return res.status(400).json({ message: 'amount is required' });
+            }
+
+            const existing = await prisma.cashReceipt.findUnique({
+                where: { pumpId_date: { pumpId: pumpIdNum, date: shift.startTime } }
+            });
+            if (existing && existing.shiftId !== shift.id) {
+                return res.status(409).json({
+                    error: `A cash receipt for pump ${pumpIdNum} already exists at the shift start time`,
+                    details: { pumpId: pumpIdNum, receiptId: existing.id, shiftId: existing.shiftId }
+                });
+            }
+
+            const receipt = await prisma.cashReceipt.upsert({
+                where: { pumpId_date: { pumpId: pumpIdNum, date: shift.startTime } },
+                update: { amount: parseFloat(amount), note },
+                create: {
+                    pumpId: pumpIdNum,
+                    shiftId: shift.id,
+                    date: shift.startTime,
+                    amount: parseFloat(amount),
+                    collectedBy: req.user?.name,
+                    note
+                }
+            });
+
+            res.status(201).json(receipt);
+        } catch (error: any) {
+            console.error('Error saving shift cash receipt:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Record an online (UPI/card) payment taken during the shift
+    router.post('/:id/online-payments', async (req, res) => {
+        try {
+            const shift = await loadShift(req, res);
+            if (!shift) return;
+            if (shift.status !== 'open') {
+                return res.status(400).json({ error: 'Shift is already closed' });
+            }
+
+            const { amount, method, reference, description } = req.body ?? {};
+            if (!amount || isNaN(parseFloat(amount))) {
+                return res.status(400).json({ message: 'amount is required' });
+            }
+
+            const payment = await prisma.onlinePayment.create({
+                data: {
+                    shiftId: shift.id,
+                    amount: parseFloat(amount),
+                    method: method || 'UPI',
+                    reference: reference || '',
+                    description: description || '',
+                    // Dated like the shift's readings and cash, so day reports put it in the same day
+                    date: shift.startTime
+                }
+            });
+
+            res.status(201).json(payment);
+        } catch (error: any) {
+            console.error('Error saving shift online payment:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Close the shift: meter sales vs cash + online collected by the attendant
+    router.post('/:id/close', async (req, res) => {
+        try {
+            const shift = await loadShift(req, res);
+            if (!shift) return;
+            if (shift.status !== 'open') {
+                return res.status(400).json({ error: 'Shift is already closed' });
+            }
+
+            const [readings, cashReceipts, onlinePayments] = await Promise.all([
+                prisma.dailyReading.findMany({ where: { shiftId: shift.id }, include: { pump: true } }),
+                prisma.cashReceipt.findMany({ where: { shiftId: shift.id } }),
+                prisma.onlinePayment.findMany({ where: { shiftId: shift.id } })
+            ]);
+
+            const missing = shift.pumps.filter(sp => !readings.some(r => r.pumpId === sp.pumpId));
+            if (missing.length > 0) {
+                return res.status(400).json({
+                    error: 'Closing meters are missing for some pumps',
+                    details: missing.map(sp => ({ pumpId: sp.pumpId, pumpName: sp.pump.name }))
+                });
+            }
+
+            const pumps = shift.pumps.map(sp => {
+                const reading = readings.find(r => r.pumpId === sp.pumpId)!;
+                const litres = soldLitres(reading);
+                const meterSales = litres * Number(reading.pricePerLitre);
+                const cash = cashReceipts
+                    .filter(r => r.pumpId === sp.pumpId)
+                    .reduce((sum, r) => sum + Number(r.amount), 0);
+                return {
+                    pumpId: sp.pumpId,
+                    pumpName: sp.pump.name,
+                    openingMeter: Number(reading.openingLitres),
+                    closingMeter: Number(reading.closingLitres),
+                    testingLitres: Number(reading.testingLitres),
+                    litres,
+                    pricePerLitre: Number(reading.pricePerLitre),
+                    meterSales,
+                    cashCollected: cash
+                };
+            });
+
+            const meterSales = pumps.reduce((sum, p) => sum + p.meterSales, 0);
+            const cashCollected = cashReceipts.reduce((sum, r) => sum + Number(r.amount), 0);
+            const onlineCollected = onlinePayments.reduce((sum, p) => sum + Number(p.amount), 0);
+            const totalCollected = cashCollected + onlineCollected;
+            const difference = totalCollected - meterSales; // Negative means the attendant is short
+            const isBalanced = Math.abs(difference) < 0.01;
+
+            const closed = await prisma.shift.update({
+                where: { id: shift.id },
+                data: {
+                    status: 'closed',
+                    endTime: req.body?.endTime ? new Date(req.body.endTime) : new Date(),
+                    closedById: req.user?.id,
+                    meterSales,
+                    cashCollected,
+                    onlineCollected,
+                    difference
+                },
+                include: { attendant: { select: { id: true, name: true, username: true } } }
+            });
+
+            backendLogger.info('Shift closed', { shiftId: shift.id, meterSales, totalCollected, difference }, {
+                endpoint: `/api/shifts/${shift.id}/close`,
+                method: 'POST',
+                userId: String(req.user?.id)
+            });
+
+            res.json({
+                shiftId: closed.id,
+                attendant: closed.attendant,
+                startTime: closed.startTime,
+                endTime: closed.endTime,
+                pumps,
+                meterSales,
+                cashCollected,
+                onlineCollected,
+                totalCollected,
+                difference,
+                isBalanced
+            });
+        } catch (error: any) {
+            console.error('Error closing shift:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
+
+// Latest closing meter per pump, from daily or shift readings
+async function getLastClosingMeters(prisma: PrismaClient, pumpIds: number[]) {
+    const meters: Record<number, number> = {};
+    for (const pumpId of pumpIds) {
+        const last = await prisma.dailyReading.findFirst({
+            where: { pumpId },
+            orderBy: [{ date: 'desc' }, { createdAt: 'desc' }]
+        });
+        if (last) meters[pumpId] = Number(last.closingLitres);
+    }
+    return meters;
+}
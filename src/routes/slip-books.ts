@@ -0,0 +1,175 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { getSlipUsage, SLIP_BOOK_STATUSES, slipLabel } from '../utils/slip-books';
+import { toCsv } from '../utils/csv';
+
+export function createSlipBooksRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        try {
+            const where: any = {};
+            if (req.query.clientId) where.clientId = Number(req.query.clientId);
+            if (req.query.status) where.status = String(req.query.status);
+
+            const books = await prisma.slipBook.findMany({
+                where,
+                include: {
+                    client: { select: { id: true, name: true } },
+                    _count: { select: { credits: true, cancellations: true } }
+                },
+                orderBy: [{ series: 'asc' }, { startNo: 'asc' }]
+            });
+            res.json(books);
+        } catch (error: any) {
+            console.error('Error fetching slip books:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Used, cancelled and unused slips per client and book, with slips rejected at entry.
+     * `format=csv` exports one row per slip.
+     */
+    router.get('/report', async (req, res) => {
+        try {
+            const report = await getSlipUsage(prisma, { clientId: req.query.clientId ? Number(req.query.clientId) : undefined });
+
+            if (req.query.format === 'csv') {
+                const headers = ['Client', 'Series', 'Slip', 'State', 'Credit', 'Date', 'Amount', 'Detail'];
+                const rows = report.flatMap(client => [
+                    ...client.books.flatMap((book: any) => [
+                        ...book.used.map((u: any) => [client.clientName, book.series, u.slipNo, 'used', `CR-${u.creditId}`, u.date, u.amount.toFixed(2), '']),
+                        ...book.cancelled.map((c: any) => [client.clientName, book.series, c.slipNo, 'cancelled', '', c.date, '', c.reason]),
+                        ...book.unused.map((n: number) => [client.clientName, book.series, n, 'unused', '', '', '', ''])
+                    ]),
+                    ...client.rejectedSlips.map((r: any) => [client.clientName, r.series ?? '', r.slipNo, 'rejected', '', r.at, '', r.reason])
+                ]);
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="slip-usage-${new Date().toISOString().slice(0, 10)}.csv"`);
+                return res.send(toCsv(headers, rows));
+            }
+
+            res.json(report);
+        } catch (error: any) {
+            console.error('Error building slip usage report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Register a slip book issued to a client; ranges may not overlap another book of the same series
+    router.post('/', async (req, res) => {
+        try {
+            const { clientId, series, startNo, endNo, note, issuedAt } = req.body ?? {};
+            const start = Number(startNo);
+            const end = Number(endNo);
+            if (!clientId || !series || !String(series).trim()) {
+                return res.status(400).json({ message: 'clientId and series are required' });
+            }
+            if (!Number.isInteger(start) || !Number.isInteger(end) || start <= 0 || end < start) {
+                return res.status(400).json({ message: 'startNo and endNo must be whole numbers with startNo <= endNo' });
+            }
+            if (end - start >= 10000) {
+                return res.status(400).json({ message: 'A slip book may hold at most 10000 slips' });
+            }
+
+            const client = await prisma.client.findUnique({ where: { id: Number(clientId) } });
+            if (!client) return res.status(404).json({ message: 'Client not found' });
+
+            const seriesCode = String(series).trim().toUpperCase();
+            const overlapping = await prisma.slipBook.findFirst({
+                where: { series: seriesCode, startNo: { lte: end }, endNo: { gte: start } }
+            });
+            if (overlapping) {
+                return res.status(409).json({
+                    message: `Range overlaps slip book ${overlapping.series} ${overlapping.startNo}-${overlapping.endNo}`,
+                    slipBookId: overlapping.id
+                });
+            }
+
+            const book = await prisma.slipBook.create({
+                data: {
+                    clientId: client.id,
+                    series: seriesCode,
+                    startNo: start,
+                    endNo: end,
+                    note,
+                    issuedAt: issuedAt ? new Date(issuedAt) : new Date()
+                }
+            });
+            backendLogger.info('Slip book issued', { clientId: client.id, series: seriesCode, startNo: start, endNo: end });
+            res.status(201).json(book);
+        } catch (error: any) {
+            console.error('Error creating slip book:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.patch('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const { status, note } = req.body ?? {};
+            if (status !== undefined && !SLIP_BOOK_STATUSES.includes(status)) {
+                return res.status(400).json({ message: `status must be one of: ${SLIP_BOOK_STATUSES.join(', ')}` });
+            }
+
+            const book = await prisma.slipBook.findUnique({ where: { id } });
+            if (!book) return res.status(404).json({ message: 'Slip book not found' });
+
+            res.json(await prisma.slipBook.update({ where: { id }, data: { status, note } }));
+        } catch (error: any) {
+            console.error('Error updating slip book:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Void an unused slip (lost, torn, returned) so it can never be accepted for a credit
+    router.post('/:id/cancellations', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const slipNo = Number(req.body?.slipNo);
+            const reason = req.body?.reason;
+            if (!reason || !String(reason).trim()) {
+                return res.status(400).json({ message: 'A reason is required to cancel a slip' });
+            }
+
+            const book = await prisma.slipBook.findUnique({ where: { id } });
+            if (!book) return res.status(404).json({ message: 'Slip book not found' });
+            if (!Number.isInteger(slipNo) || slipNo < book.startNo || slipNo > book.endNo) {
+                return res.status(400).json({ message: `slipNo must be between ${book.startNo} and ${book.endNo}` });
+            }
+
+            const label = slipLabel(book.series, slipNo);
+            const [used, cancelled] = await Promise.all([
+                prisma.clientCredit.findUnique({ where: { slipBookId_slipNo: { slipBookId: id, slipNo } } }),
+                prisma.slipCancellation.findUnique({ where: { slipBookId_slipNo: { slipBookId: id, slipNo } } })
+            ]);
+            if (used) return res.status(409).json({ message: `Slip ${label} was used for credit CR-${used.id}` });
+            if (cancelled) return res.status(409).json({ message: `Slip ${label} is already cancelled` });
+
+            const cancellation = await prisma.$transaction(async (tx) => {
+                const created = await tx.slipCancellation.create({
+                    data: { slipBookId: id, slipNo, reason, cancelledById: req.user?.id }
+                });
+                await tx.auditLog.create({
+                    data: {
+                        action: 'SLIP_CANCEL',
+                        entityType: 'SlipBook',
+                        entityId: id,
+                        newValues: JSON.stringify({ slipNo, series: book.series }),
+                        reason,
+                        userId: req.user?.id
+                    }
+                });
+                return created;
+            });
+            res.status(201).json(cancellation);
+        } catch (error: any) {
+            console.error('Error cancelling slip:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
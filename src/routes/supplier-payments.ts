@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { applyAllocations, planSupplierAllocations, SUPPLIER_PAYMENT_MODES } from '../utils/supplier-ledger';
+
+export function createSupplierPaymentsRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        try {
+            const where: any = {};
+            if (req.query.supplierId) where.supplierId = Number(req.query.supplierId);
+
+            const payments = await prisma.supplierPayment.findMany({
+                where,
+                include: {
+                    supplier: { select: { id: true, name: true } },
+                    allocations: { include: { purchase: { select: { id: true, invoiceNo: true, invoiceDate: true } } } }
+                },
+                orderBy: { date: 'desc' },
+                take: 200
+            });
+
+            res.json(payments.map(p => ({
+                ...p,
+                unallocated: Number(p.amount) - p.allocations.reduce((sum, a) => sum + Number(a.amount), 0)
+            })));
+        } catch (error: any) {
+            console.error('Error fetching supplier payments:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Record a payment to a supplier. `allocations: [{ purchaseId, amount }]` applies it to specific
+     * invoices; without it the oldest unpaid invoices are settled first.
+     */
+    router.post('/', async (req, res) => {
+        try {
+            const { supplierId, amount, mode, bankReference, date, note, allocations } = req.body ?? {};
+            const amountNum = parseFloat(amount);
+
+            if (!supplierId || isNaN(amountNum) || amountNum <= 0) {
+                return res.status(400).json({ message: 'supplierId and a positive amount are required' });
+            }
+            if (!SUPPLIER_PAYMENT_MODES.includes(mode)) {
+                return res.status(400).json({ message: `mode must be one of: ${SUPPLIER_PAYMENT_MODES.join(', ')}` });
+            }
+            if (mode !== 'cash' && !bankReference) {
+                return res.status(400).json({ message: 'bankReference is required for non-cash payments' });
+            }
+            if (allocations !== undefined && !Array.isArray(allocations)) {
+                return res.status(400).json({ message: 'allocations must be an array of { purchaseId, amount }' });
+            }
+
+            const supplier = await prisma.supplier.findUnique({ where: { id: Number(supplierId) } });
+            if (!supplier) return res.status(404).json({ message: 'Supplier not found' });
+
+            const payment = await prisma.$transaction(async (tx) => {
+                const { plan, unallocated, error } = await planSupplierAllocations(tx, supplier.id, amountNum, allocations);
+                if (error) throw new Error(`Invalid allocation: ${error}`);
+
+                const created = await tx.supplierPayment.create({
+                    data: {
+                        supplierId: supplier.id,
+                        amount: amountNum,
+                        mode,
+                        bankReference,
+                        note,
+                        recordedById: req.user?.id,
+                        date: date ? new Date(date) : new Date(),
+                        allocations: { create: plan }
+                    },
+                    include: { allocations: true }
+                });
+                await applyAllocations(tx, plan);
+
+                return { ...created, unallocated };
+            });
+
+            backendLogger.info('Supplier payment recorded', {
+                supplierId: supplier.id,
+                amount: amountNum,
+                allocatedTo: payment.allocations.map(a => a.purchaseId)
+            });
+            res.status(201).json(payment);
+        } catch (error: any) {
+            console.error('Error recording supplier payment:', error);
+            if (error.message.startsWith('Invalid allocation')) {
+                return res.status(400).json({ message: 'Invalid allocation', error: error.message });
+            }
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Remove a payment recorded in error; its allocations are released back onto the invoices
+    router.delete('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const payment = await prisma.supplierPayment.findUnique({ where: { id }, include: { allocations: true } });
+            if (!payment) return res.status(404).json({ message: 'Supplier payment not found' });
+
+            await prisma.$transaction(async (tx) => {
+                await applyAllocations(tx, payment.allocations.map(a => ({ purchaseId: a.purchaseId, amount: Number(a.amount) })), -1);
+                await tx.supplierPayment.delete({ where: { id } });
+                await tx.auditLog.create({
+                    data: {
+                        action: 'SUPPLIER_PAYMENT_DELETE',
+                        entityType: 'SupplierPayment',
+                        entityId: id,
+                        oldValues: JSON.stringify(payment),
+                        reason: req.body?.reason,
+                        userId: req.user?.id
+                    }
+                });
+            });
+
+            res.json({ message: 'Supplier payment deleted successfully' });
+        } catch (error: any) {
+            console.error('Error deleting supplier payment:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,309 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AGEING_BUCKETS, AgeingBucket, ageingBucket, daysBetween, emptyBuckets } from '../utils/ageing';
+import { invoiceAmount, invoiceBalance } from '../utils/supplier-ledger';
+import { dayRange } from '../utils/common';
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z0-9]{10}[0-9A-Z]Z[0-9A-Z]$/;
+
+export function createSuppliersRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        try {
+            const suppliers = await prisma.supplier.findMany({
+                where: req.query.includeInactive === 'true' ? {} : { isActive: true },
+                orderBy: { name: 'asc' }
+            });
+            res.json(suppliers);
+        } catch (error: any) {
+            console.error('Error fetching suppliers:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * What is owed to each supplier: billed purchases not yet paid (and how much of that is past the
+     * supplier's payment terms), deliveries still awaiting an invoice, advances, and short-receipt claims.
+     */
+    router.get('/outstanding', async (_req, res) => {
+        try {
+            const now = new Date();
+            const suppliers = await prisma.supplier.findMany({
+                include: {
+                    purchases: { where: { paymentStatus: { not: 'paid' } } },
+                    payments: { include: { allocations: true } }
+                },
+                orderBy: { name: 'asc' }
+            });
+            const claims = await prisma.shortReceiptClaim.findMany({
+                where: { status: { in: ['open', 'accepted'] } },
+                include: { purchaseOrder: { select: { supplierId: true } } }
+            });
+
+            const rows = suppliers.map(supplier => {
+                let invoicedUnpaid = 0;
+                let overdue = 0;
+                let awaitingInvoice = 0;
+                const unpaidInvoices = [];
+
+                for (const purchase of supplier.purchases) {
+                    if (!purchase.invoiceDate) {
+                        awaitingInvoice += Number(purchase.challanLitres ?? purchase.litres) * Number(purchase.unitCost);
+                        continue;
+                    }
+                    const balance = invoiceBalance(purchase);
+                    const dueDate = new Date(purchase.invoiceDate);
+                    dueDate.setDate(dueDate.getDate() + supplier.paymentTermsDays);
+                    const isOverdue = dueDate < now;
+
+                    invoicedUnpaid += balance;
+                    if (isOverdue) overdue += balance;
+                    unpaidInvoices.push({ purchaseId: purchase.id, invoiceNo: purchase.invoiceNo, invoiceDate: purchase.invoiceDate, balance, dueDate, overdue: isOverdue });
+                }
+
+                const advances = supplier.payments.reduce((sum, p) => sum + Number(p.amount) - p.allocations.reduce((s, a) => s + Number(a.amount), 0), 0);
+                const supplierClaims = claims.filter(c => c.purchaseOrder.supplierId === supplier.id);
+                const openClaims = supplierClaims.filter(c => c.status === 'open').reduce((sum, c) => sum + Number(c.amount), 0);
+                const acceptedClaims = supplierClaims.filter(c => c.status === 'accepted').reduce((sum, c) => sum + Number(c.amount), 0);
+
+                return {
+                    supplierId: supplier.id,
+                    supplierName: supplier.name,
+                    paymentTermsDays: supplier.paymentTermsDays,
+                    invoicedUnpaid,
+                    overdue,
+                    awaitingInvoice,
+                    advances,
+                    openClaims,
+                    acceptedClaims,
+                    // Accepted claims will come back as credit notes, so they reduce what we owe
+                    netPayable: invoicedUnpaid - advances - acceptedClaims,
+                    unpaidInvoices
+                };
+            }).filter(r => r.invoicedUnpaid > 0 || r.awaitingInvoice > 0 || r.advances > 0 || r.openClaims > 0 || r.acceptedClaims > 0);
+
+            res.json({
+                asOf: now,
+                suppliers: rows,
+                totals: {
+                    invoicedUnpaid: rows.reduce((sum, r) => sum + r.invoicedUnpaid, 0),
+                    overdue: rows.reduce((sum, r) => sum + r.overdue, 0),
+                    awaitingInvoice: rows.reduce((sum, r) => sum + r.awaitingInvoice, 0),
+                    netPayable: rows.reduce((sum, r) => sum + r.netPayable, 0)
+                }
+            });
+        } catch (error: any) {
+            console.error('Error building supplier outstanding report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Unpaid purchase invoices bucketed by age since the invoice date
+    router.get('/ageing', async (req, res) => {
+        try {
+            const asOf = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+            const where: any = { supplierId: { not: null }, invoiceDate: { not: null, lte: asOf }, paymentStatus: { not: 'paid' } };
+            if (req.query.supplierId) where.supplierId = Number(req.query.supplierId);
+
+            const invoices = await prisma.purchase.findMany({
+                where,
+                include: { supplierAccount: true },
+                orderBy: { invoiceDate: 'asc' }
+            });
+
+            const bySupplier: Record<number, { supplierId: number; supplierName: string; buckets: Record<AgeingBucket, number>; total: number; invoices: any[] }> = {};
+            const totals = emptyBuckets();
+            for (const invoice of invoices) {
+                const supplier = invoice.supplierAccount!;
+                const balance = invoiceBalance(invoice);
+                if (balance <= 0) continue;
+
+                const ageDays = daysBetween(invoice.invoiceDate!, asOf);
+                const bucket = ageingBucket(ageDays);
+                const dueDate = new Date(invoice.invoiceDate!);
+                dueDate.setDate(dueDate.getDate() + supplier.paymentTermsDays);
+
+                if (!bySupplier[supplier.id]) {
+                    bySupplier[supplier.id] = { supplierId: supplier.id, supplierName: supplier.name, buckets: emptyBuckets(), total: 0, invoices: [] };
+                }
+                const row = bySupplier[supplier.id];
+                row.buckets[bucket] += balance;
+                row.total += balance;
+                row.invoices.push({
+                    purchaseId: invoice.id,
+                    invoiceNo: invoice.invoiceNo,
+                    invoiceDate: invoice.invoiceDate,
+                    dueDate,
+                    amount: invoiceAmount(invoice),
+                    balance,
+                    ageDays,
+                    bucket,
+                    overdue: dueDate < asOf
+                });
+                totals[bucket] += balance;
+            }
+
+            res.json({
+                asOf,
+                buckets: AGEING_BUCKETS.map(b => ({ key: b.key, label: b.label })),
+                suppliers: Object.values(bySupplier),
+                totals: { ...totals, total: Object.values(totals).reduce((sum, v) => sum + v, 0) }
+            });
+        } catch (error: any) {
+            console.error('Error building supplier ageing report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Supplier statement: opening balance, invoices and payments in date order with a running balance,
+     * and the closing balance. A positive balance is what we owe the supplier.
+     */
+    router.get('/:id/statement', async (req, res) => {
+        try {
+            const supplierId = Number(req.params.id);
+            const supplier = await prisma.supplier.findUnique({ where: { id: supplierId } });
+            if (!supplier) return res.status(404).json({ message: 'Supplier not found' });
+
+            const today = new Date().toISOString().split('T')[0];
+            const start = dayRange(String(req.query.startDate || today)).start;
+            const end = dayRange(String(req.query.endDate || today)).end;
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                return res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+            }
+
+            const [invoices, payments] = await Promise.all([
+                prisma.purchase.findMany({ where: { supplierId, invoiceDate: { not: null, lte: end } } }),
+                prisma.supplierPayment.findMany({ where: { supplierId, date: { lte: end } } })
+            ]);
+
+            let openingBalance = 0;
+            const entries: { date: Date; type: 'invoice' | 'payment'; reference: string; credit: number; debit: number; balance?: number }[] = [];
+            for (const invoice of invoices) {
+                const amount = invoiceAmount(invoice);
+                if (invoice.invoiceDate! < start) {
+                    openingBalance += amount;
+                } else {
+                    entries.push({ date: invoice.invoiceDate!, type: 'invoice', reference: invoice.invoiceNo || `Purchase #${invoice.id}`, credit: amount, debit: 0 });
+                }
+            }
+            for (const payment of payments) {
+                const amount = Number(payment.amount);
+                if (payment.date < start) {
+                    openingBalance -= amount;
+                } else {
+                    entries.push({ date: payment.date, type: 'payment', reference: payment.bankReference || payment.mode, credit: 0, debit: amount });
+                }
+            }
+
+            entries.sort((a, b) => a.date.getTime() - b.date.getTime() || (a.type === 'invoice' ? -1 : 1));
+            let balance = openingBalance;
+            for (const entry of entries) {
+                balance += entry.credit - entry.debit;
+                entry.balance = balance;
+            }
+
+            res.json({
+                supplier: { id: supplier.id, name: supplier.name, gstin: supplier.gstin, paymentTermsDays: supplier.paymentTermsDays },
+                start,
+                end,
+                openingBalance,
+                entries,
+                totalInvoiced: entries.reduce((sum, e) => sum + e.credit, 0),
+                totalPaid: entries.reduce((sum, e) => sum + e.debit, 0),
+                closingBalance: balance
+            });
+        } catch (error: any) {
+            console.error('Error building supplier statement:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/:id', async (req, res) => {
+        try {
+            const supplier = await prisma.supplier.findUnique({
+                where: { id: Number(req.params.id) },
+                include: { purchaseOrders: { orderBy: { orderDate: 'desc' }, take: 50 } }
+            });
+            if (!supplier) return res.status(404).json({ message: 'Supplier not found' });
+            res.json(supplier);
+        } catch (error: any) {
+            console.error('Error fetching supplier:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.post('/', async (req, res) => {
+        try {
+            const { name, gstin, contactName, phone, email, address, paymentTermsDays } = req.body ?? {};
+            if (!name || !String(name).trim()) {
+                return res.status(400).json({ message: 'name is required' });
+            }
+            if (gstin && !GSTIN_PATTERN.test(String(gstin).toUpperCase())) {
+                return res.status(400).json({ message: `Invalid GSTIN: ${gstin}` });
+            }
+            const terms = paymentTermsDays !== undefined ? parseInt(paymentTermsDays) : 0;
+            if (isNaN(terms) || terms < 0) {
+                return res.status(400).json({ message: 'paymentTermsDays must be a non-negative integer' });
+            }
+
+            const existing = await prisma.supplier.findUnique({ where: { name: String(name).trim() } });
+            if (existing) return res.status(409).json({ message: 'A supplier with this name already exists' });
+
+            const supplier = await prisma.supplier.create({
+                data: {
+                    name: String(name).trim(),
+                    gstin: gstin ? String(gstin).toUpperCase() : null,
+                    contactName,
+                    phone,
+                    email,
+                    address,
+                    paymentTermsDays: terms
+                }
+            });
+            res.status(201).json(supplier);
+        } catch (error: any) {
+            console.error('Error creating supplier:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.patch('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const { name, gstin, contactName, phone, email, address, paymentTermsDays, isActive } = req.body ?? {};
+
+            const data: any = {};
+            if (name !== undefined) data.name = String(name).trim();
+            if (gstin !== undefined) {
+                if (gstin && !GSTIN_PATTERN.test(String(gstin).toUpperCase())) {
+                    return res.status(400).json({ message: `Invalid GSTIN: ${gstin}` });
+                }
+                data.gstin = gstin ? String(gstin).toUpperCase() : null;
+            }
+            if (paymentTermsDays !== undefined) {
+                const terms = parseInt(paymentTermsDays);
+                if (isNaN(terms) || terms < 0) {
+                    return res.status(400).json({ message: 'paymentTermsDays must be a non-negative integer' });
+                }
+                data.paymentTermsDays = terms;
+            }
+            if (contactName !== undefined) data.contactName = contactName;
+            if (phone !== undefined) data.phone = phone;
+            if (email !== undefined) data.email = email;
+            if (address !== undefined) data.address = address;
+            if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+            const supplier = await prisma.supplier.findUnique({ where: { id } });
+            if (!supplier) return res.status(404).json({ message: 'Supplier not found' });
+
+            res.json(await prisma.supplier.update({ where: { id }, data }));
+        } catch (error: any) {
+            console.error('Error updating supplier:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { buildTallyVouchers, listLedgerMappings, renderTallyXml } from '../utils/tally-export';
+import { dayRange, formatDate } from '../utils/common';
+
+/**
+ * Accounting vouchers for Tally, and the ledger names they post to.
+ */
+export function createTallyRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/ledgers', async (_req, res) => {
+        try {
+            const { ledgers } = await listLedgerMappings(prisma);
+            res.json(ledgers);
+        } catch (error: any) {
+            console.error('Error fetching ledger mappings:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // `mappings` is { key: ledgerName }; a blank or null name goes back to the default
+    router.put('/ledgers', async (req, res) => {
+        try {
+            const mappings = req.body?.mappings;
+            if (!mappings || typeof mappings !== 'object' || Array.isArray(mappings)) {
+                return res.status(400).json({ message: 'mappings object is required' });
+            }
+
+            const { ledgers } = await listLedgerMappings(prisma);
+            const known = new Set(ledgers.map(l => l.key));
+            const unknown = Object.keys(mappings).filter(key => !known.has(key));
+            if (unknown.length > 0) return res.status(400).json({ message: `Unknown ledger keys: ${unknown.join(', ')}` });
+
+            await prisma.$transaction(async (tx) => {
+                for (const [key, name] of Object.entries(mappings)) {
+                    const ledgerName = name === null || name === undefined ? '' : String(name).trim();
+                    if (ledgerName) {
+                        await tx.ledgerMapping.upsert({ where: { key }, create: { key, ledgerName }, update: { ledgerName } });
+                    } else {
+                        await tx.ledgerMapping.deleteMany({ where: { key } });
+                    }
+                }
+                await tx.auditLog.create({
+                    data: {
+                        action: 'LEDGER_MAPPING_UPDATE',
+                        entityType: 'LedgerMapping',
+                        entityId: 0,
+                        newValues: JSON.stringify(mappings),
+                        userId: req.user?.id
+                    }
+                });
+            });
+            res.json((await listLedgerMappings(prisma)).ledgers);
+        } catch (error: any) {
+            console.error('Error updating ledger mappings:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Vouchers between startDate and endDate (default today) as a Tally import file.
+     * `format=json` previews the vouchers instead.
+     */
+    router.get('/vouchers', async (req, res) => {
+        try {
+            const today = new Date().toISOString().split('T')[0];
+            const start = dayRange(String(req.query.startDate || today)).start;
+            const end = dayRange(String(req.query.endDate || req.query.startDate || today)).end;
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                return res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+            }
+            if (start > end) return res.status(400).json({ message: 'startDate must not be after endDate' });
+
+            const vouchers = await buildTallyVouchers(prisma, start, end);
+            if (req.query.format === 'json') return res.json(vouchers);
+
+            const label = `${formatDate(start)}-to-${formatDate(end)}`;
+            backendLogger.info('Tally vouchers exported', { start: formatDate(start), end: formatDate(end), vouchers: vouchers.length });
+            res.setHeader('Content-Type', 'application/xml');
+            res.setHeader('Content-Disposition', `attachment; filename="tally-vouchers-${label}.xml"`);
+            res.send(renderTallyXml(vouchers));
+        } catch (error: any) {
+            console.error('Error exporting Tally vouchers:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
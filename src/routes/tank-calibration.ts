@@ -0,0 +1,108 @@
+import express, { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from '../utils/logger';
+import { getCalibrationPoints, interpolateLitres, parseCalibrationCsv } from '../utils/tank-calibration';
+
+export function createTankCalibrationRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    // Calibration chart for a tank
+    router.get('/:tankId', async (req, res) => {
+        try {
+            const tankId = Number(req.params.tankId);
+            const tank = await prisma.tank.findUnique({ where: { id: tankId } });
+            if (!tank) return res.status(404).json({ message: 'Tank not found' });
+
+            const points = await getCalibrationPoints(prisma, tankId);
+            res.json({ tankId, tankName: tank.name, capacity: Number(tank.capacityLit), rows: points });
+        } catch (error: any) {
+            console.error('Error fetching calibration chart:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Replace a tank's calibration chart from CSV (`dip_mm,litres` per line).
+     * Accepts a text/csv body or JSON `{ csv: "..." }`.
+     */
+    router.post('/:tankId/import', express.text({ type: ['text/csv', 'text/plain'], limit: '1mb' }), async (req, res) => {
+        try {
+            const tankId = Number(req.params.tankId);
+            const csv = typeof req.body === 'string' ? req.body : req.body?.csv;
+            if (!csv || typeof csv !== 'string') {
+                return res.status(400).json({ message: 'CSV body (text/csv) or { csv } is required' });
+            }
+
+            const tank = await prisma.tank.findUnique({ where: { id: tankId } });
+            if (!tank) return res.status(404).json({ message: 'Tank not found' });
+
+            const { points, errors } = parseCalibrationCsv(csv);
+            if (errors.length > 0 || points.length < 2) {
+                return res.status(400).json({
+                    message: 'Invalid calibration chart',
+                    errors: points.length < 2 ? [...errors, 'At least two rows are required'] : errors
+                });
+            }
+
+            const maxLitres = points[points.length - 1].litres;
+            if (maxLitres > Number(tank.capacityLit) * 1.05) {
+                return res.status(400).json({
+                    message: 'Invalid calibration chart',
+                    errors: [`Chart maximum (${maxLitres}L) exceeds tank capacity (${tank.capacityLit}L)`]
+                });
+            }
+
+            const oldCount = await prisma.tankCalibrationRow.count({ where: { tankId } });
+            await prisma.$transaction([
+                prisma.tankCalibrationRow.deleteMany({ where: { tankId } }),
+                prisma.tankCalibrationRow.createMany({
+                    data: points.map(p => ({ tankId, dipMm: p.dipMm, litres: p.litres }))
+                }),
+                prisma.auditLog.create({
+                    data: {
+                        action: 'TANK_CALIBRATION_IMPORT',
+                        entityType: 'Tank',
+                        entityId: tankId,
+                        oldValues: JSON.stringify({ rows: oldCount }),
+                        newValues: JSON.stringify({ rows: points.length, maxDipMm: points[points.length - 1].dipMm, maxLitres }),
+                        userId: req.user?.id
+                    }
+                })
+            ]);
+
+            backendLogger.info('Tank calibration chart imported', { tankId, rows: points.length });
+            res.status(201).json({ success: true, tankId, rows: points.length });
+        } catch (error: any) {
+            console.error('Error importing calibration chart:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Convert a dip in millimetres to litres using the tank's chart
+    router.get('/:tankId/convert', async (req, res) => {
+        try {
+            const tankId = Number(req.params.tankId);
+            const dipMm = Number(req.query.dipMm);
+            if (req.query.dipMm === undefined || isNaN(dipMm)) {
+                return res.status(400).json({ message: 'dipMm query param is required' });
+            }
+
+            const points = await getCalibrationPoints(prisma, tankId);
+            if (points.length === 0) {
+                return res.status(404).json({ message: 'No calibration chart for this tank' });
+            }
+
+            try {
+                const litres = interpolateLitres(points, dipMm);
+                res.json({ tankId, dipMm, litres: Math.round(litres * 100) / 100 });
+            } catch (conversionError: any) {
+                res.status(400).json({ message: 'Cannot convert dip', error: conversionError.message });
+            }
+        } catch (error: any) {
+            console.error('Error converting dip:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
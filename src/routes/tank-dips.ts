@@ -0,0 +1,231 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+    cylinderDipToLitres,
+    DEFAULT_VARIANCE_TOLERANCE_PERCENT,
+    getMeterSalesByTank,
+    getReceiptsByTank
+} from '../utils/tank-stock';
+import { getCalibrationPoints, interpolateLitres } from '../utils/tank-calibration';
+import { dayRange, formatDate } from '../utils/common';
+
+export function createTankDipsRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    // List dips, optionally for one tank and/or one day
+    router.get('/', async (req, res) => {
+        try {
+            const where: any = {};
+            if (req.query.tankId) where.tankId = Number(req.query.tankId);
+            if (req.query.date) {
+                const { start, end } = dayRange(String(req.query.date));
+                if (isNaN(start.getTime())) return res.status(400).json({ message: 'date must be a valid date' });
+                where.date = { gte: start, lte: end };
+            }
+
+            const dips = await prisma.tankDip.findMany({
+                where,
+                include: {
+                    tank: { select: { id: true, name: true } },
+                    recordedBy: { select: { id: true, name: true } }
+                },
+                orderBy: { date: 'desc' },
+                take: 200
+            });
+            res.json(dips);
+        } catch (error: any) {
+            console.error('Error fetching tank dips:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Record a physical dip measurement
+    router.post('/', async (req, res) => {
+        try {
+            const { tankId, dipCm, litres, waterCm, date, note } = req.body ?? {};
+            const dipCmNum = parseFloat(dipCm);
+
+            if (!tankId || isNaN(dipCmNum) || dipCmNum < 0) {
+                return res.status(400).json({ message: 'tankId and a non-negative dipCm are required' });
+            }
+
+            const tank = await prisma.tank.findUnique({ where: { id: Number(tankId) } });
+            if (!tank) return res.status(404).json({ message: 'Tank not found' });
+
+            // Litres may be read off a chart by hand; otherwise use the calibration chart, then the tank geometry
+            let litresNum = litres !== undefined && litres !== null && litres !== '' ? parseFloat(litres) : NaN;
+            if (isNaN(litresNum)) {
+                const points = await getCalibrationPoints(prisma, tank.id);
+                if (points.length > 0) {
+                    try {
+                        litresNum = interpolateLitres(points, dipCmNum * 10);
+                    } catch (conversionError: any) {
+                        return res.status(400).json({ message: 'Cannot convert dip to litres', error: conversionError.message });
+                    }
+                } else if (tank.diameterCm) {
+                    litresNum = cylinderDipToLitres(dipCmNum, Number(tank.diameterCm), Number(tank.capacityLit));
+                } else {
+                    return res.status(400).json({
+                        message: 'Cannot convert dip to litres',
+                        error: `Tank ${tank.name} has no calibration chart or diameter configured; send litres explicitly`
+                    });
+                }
+            }
+
+            if (litresNum < 0 || litresNum > Number(tank.capacityLit)) {
+                return res.status(400).json({
+                    message: 'Invalid dip volume',
+                    error: `Dip volume must be between 0 and the tank capacity (${tank.capacityLit}L), got: ${litresNum}`
+                });
+            }
+
+            const dip = await prisma.tankDip.create({
+                data: {
+                    tankId: tank.id,
+                    dipCm: dipCmNum,
+                    litres: Math.round(litresNum * 100) / 100,
+                    waterCm: waterCm !== undefined && waterCm !== null && waterCm !== '' ? parseFloat(waterCm) : null,
+                    note,
+                    recordedById: req.user?.id,
+                    date: date ? new Date(date) : new Date()
+                },
+                include: { tank: { select: { id: true, name: true } } }
+            });
+
+            res.status(201).json({
+                ...dip,
+                bookStock: Number(tank.currentLevel),
+                difference: Number(dip.litres) - Number(tank.currentLevel)
+            });
+        } catch (error: any) {
+            console.error('Error recording tank dip:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.delete('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const dip = await prisma.tankDip.findUnique({ where: { id } });
+            if (!dip) return res.status(404).json({ message: 'Tank dip not found' });
+
+            await prisma.$transaction([
+                prisma.tankDip.delete({ where: { id } }),
+                prisma.auditLog.create({
+                    data: {
+                        action: 'TANK_DIP_DELETE',
+                        entityType: 'TankDip',
+                        entityId: id,
+                        oldValues: JSON.stringify(dip),
+                        reason: req.body?.reason,
+                        userId: req.user?.id
+                    }
+                })
+            ]);
+
+            res.json({ message: 'Tank dip deleted successfully' });
+        } catch (error: any) {
+            console.error('Error deleting tank dip:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Book vs physical stock per tank per day:
+     * expected closing = opening dip + receipts - meter sales, compared with the closing dip.
+     */
+    router.get('/variance', async (req, res) => {
+        try {
+            const { date, startDate, endDate, tankId, tolerancePercent } = req.query;
+            const first = startDate ? String(startDate) : date ? String(date) : new Date().toISOString().split('T')[0];
+            const last = endDate ? String(endDate) : first;
+            if (isNaN(dayRange(first).start.getTime()) || isNaN(dayRange(last).start.getTime())) {
+                return res.status(400).json({ message: 'Dates must be valid' });
+            }
+
+            if (Math.round((dayRange(last).start.getTime() - dayRange(first).start.getTime()) / 86400000) + 1 > 92) {
+                return res.status(400).json({ message: 'Date range cannot exceed 92 days' });
+            }
+
+            const tanks = await prisma.tank.findMany({
+                where: tankId ? { id: Number(tankId) } : { isActive: true },
+                include: { fuelType: true },
+                orderBy: { id: 'asc' }
+            });
+
+            const days: Date[] = [];
+            for (let d = dayRange(first).start; d <= dayRange(last).start; d.setDate(d.getDate() + 1)) {
+                days.push(new Date(d));
+            }
+
+            const rows = [];
+            for (const day of days) {
+                const start = day;
+                const end = new Date(day);
+                end.setDate(end.getDate() + 1);
+                end.setMilliseconds(end.getMilliseconds() - 1);
+                const [salesByTank, receiptsByTank] = await Promise.all([
+                    getMeterSalesByTank(prisma, start, end),
+                    // Receipts count at their volume-corrected (15°C) litres where decantation recorded them
+                    getReceiptsByTank(prisma, start, end, true)
+                ]);
+
+                for (const tank of tanks) {
+                    const [openingDip, closingDip] = await Promise.all([
+                        prisma.tankDip.findFirst({ where: { tankId: tank.id, date: { lt: start } }, orderBy: { date: 'desc' } }),
+                        prisma.tankDip.findFirst({ where: { tankId: tank.id, date: { gte: start, lte: end } }, orderBy: { date: 'desc' } })
+                    ]);
+
+                    const receipts = receiptsByTank[tank.id] || 0;
+                    const meterSales = salesByTank[tank.id] || 0;
+                    const tolerance = tolerancePercent !== undefined
+                        ? Number(tolerancePercent)
+                        : tank.varianceTolerancePercent !== null
+                            ? Number(tank.varianceTolerancePercent)
+                            : DEFAULT_VARIANCE_TOLERANCE_PERCENT;
+
+                    const row: any = {
+                        date: formatDate(start),
+                        tankId: tank.id,
+                        tankName: tank.name,
+                        fuelType: tank.fuelType.name,
+                        openingStock: openingDip ? Number(openingDip.litres) : null,
+                        receipts,
+                        meterSales,
+                        expectedClosing: null,
+                        closingDip: closingDip ? Number(closingDip.litres) : null,
+                        variance: null,
+                        variancePercent: null,
+                        tolerancePercent: tolerance,
+                        status: 'incomplete'
+                    };
+
+                    if (openingDip && closingDip) {
+                        const expectedClosing = Number(openingDip.litres) + receipts - meterSales;
+                        const variance = Number(closingDip.litres) - expectedClosing; // Positive = gain, negative = loss
+                        const toleranceLitres = meterSales * tolerance / 100;
+
+                        row.expectedClosing = expectedClosing;
+                        row.variance = variance;
+                        row.variancePercent = meterSales > 0 ? (variance / meterSales) * 100 : null;
+                        row.status = Math.abs(variance) <= toleranceLitres ? 'ok' : variance > 0 ? 'gain' : 'loss';
+                    }
+
+                    rows.push(row);
+                }
+            }
+
+            res.json({
+                start: first,
+                end: last,
+                rows,
+                flagged: rows.filter(r => r.status === 'gain' || r.status === 'loss').length
+            });
+        } catch (error: any) {
+            console.error('Error building dip variance report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { addCostLayer } from '../utils/inventory-costing';
+import { getPriceAt } from '../utils/pricing';
 
 export function createTanksRouter(prisma: PrismaClient) {
     const router = Router();
@@ -19,10 +21,7 @@ export function createTanksRouter(prisma: PrismaClient) {
         const fuelTypes = await prisma.fuelType.findMany();
         const currentPrices = await Promise.all(
             fuelTypes.map(async (ft) => {
-                const price = await prisma.price.findFirst({
-                    where: { fuelTypeId: ft.id, isActive: true },
-                    orderBy: { createdAt: 'desc' }
-                });
+                const price = await getPriceAt(prisma, ft.id);
                 return {
                     fuelTypeId: ft.id,
                     price: price ? Number(price.perLitre) : 0
@@ -112,6 +111,71 @@ export function createTanksRouter(prisma: PrismaClient) {
         }
     });
 
+    // FIFO cost layers still holding stock, oldest first
+    router.get('/:id/cost-layers', async (req, res) => {
+        try {
+            const tankId = Number(req.params.id);
+            const tank = await prisma.tank.findUnique({ where: { id: tankId } });
+            if (!tank) return res.status(404).json({ message: 'Tank not found' });
+
+            const layers = await prisma.inventoryLayer.findMany({
+                where: { tankId, remainingLitres: { gt: 0 } },
+                include: { purchase: { select: { id: true, invoiceNo: true, date: true } } },
+                orderBy: [{ receivedAt: 'asc' }, { id: 'asc' }]
+            });
+            const layeredLitres = layers.reduce((sum, l) => sum + Number(l.remainingLitres), 0);
+
+            res.json({
+                tankId,
+                tankName: tank.name,
+                currentLevel: Number(tank.currentLevel),
+                avgUnitCost: Number(tank.avgUnitCost),
+                layeredLitres,
+                layeredValue: layers.reduce((sum, l) => sum + Number(l.remainingLitres) * Number(l.unitCost), 0),
+                unlayeredLitres: Math.max(Number(tank.currentLevel) - layeredLitres, 0),
+                layers
+            });
+        } catch (error: any) {
+            console.error('Error fetching cost layers:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Put stock that predates cost layers into an opening layer, so it is consumed before later deliveries.
+     * Uses the tank's average cost unless a unitCost is given.
+     */
+    router.post('/:id/opening-layer', async (req, res) => {
+        try {
+            const tankId = Number(req.params.id);
+            const tank = await prisma.tank.findUnique({ where: { id: tankId } });
+            if (!tank) return res.status(404).json({ message: 'Tank not found' });
+
+            const unitCost = req.body?.unitCost !== undefined ? parseFloat(req.body.unitCost) : Number(tank.avgUnitCost);
+            if (isNaN(unitCost) || unitCost < 0) {
+                return res.status(400).json({ message: 'unitCost must be a non-negative number' });
+            }
+
+            const layered = await prisma.inventoryLayer.aggregate({
+                _sum: { remainingLitres: true },
+                where: { tankId }
+            });
+            const litres = Number(tank.currentLevel) - Number(layered._sum.remainingLitres ?? 0);
+            if (litres <= 0) {
+                return res.status(400).json({ message: 'All stock in this tank is already covered by cost layers' });
+            }
+
+            const earliest = await prisma.inventoryLayer.findFirst({ where: { tankId }, orderBy: { receivedAt: 'asc' } });
+            const receivedAt = earliest ? new Date(earliest.receivedAt.getTime() - 1) : new Date();
+
+            const layer = await addCostLayer(prisma, { tankId, litres, unitCost, receivedAt });
+            res.status(201).json(layer);
+        } catch (error: any) {
+            console.error('Error creating opening cost layer:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
     return router;
 }
 
@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { hashPassword, USER_ROLES, UserRole } from '../utils/auth';
+
+const userSelect = {
+    id: true,
+    username: true,
+    name: true,
+    role: true,
+    isActive: true,
+    lastLoginAt: true,
+    createdAt: true
+};
+
+export function createUsersRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/', async (_req, res) => {
+        try {
+            const users = await prisma.user.findMany({ select: userSelect, orderBy: { username: 'asc' } });
+            res.json(users);
+        } catch (error: any) {
+            console.error('Error fetching users:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.post('/', async (req, res) => {
+        try {
+            const { username, password, name, role } = req.body ?? {};
+            if (!username || !password || !name || !role) {
+                return res.status(400).json({ message: 'username, password, name and role are required' });
+            }
+            if (!USER_ROLES.includes(role as UserRole)) {
+                return res.status(400).json({ message: `role must be one of: ${USER_ROLES.join(', ')}` });
+            }
+
+            const user = await prisma.user.create({
+                data: {
+                    username: String(username),
+                    name: String(name),
+                    role,
+                    passwordHash: hashPassword(String(password))
+                },
+                select: userSelect
+            });
+
+            await prisma.auditLog.create({
+                data: {
+                    action: 'USER_CREATE',
+                    entityType: 'User',
+                    entityId: user.id,
+                    newValues: JSON.stringify({ username: user.username, role: user.role }),
+                    userId: req.user?.id
+                }
+            });
+
+            res.status(201).json(user);
+        } catch (error: any) {
+            console.error('Error creating user:', error);
+            if (error.code === 'P2002') {
+                return res.status(409).json({ error: 'Username already exists' });
+            }
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    // Change role, name, active flag or reset the password
+    router.patch('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            if (!Number.isInteger(id)) return res.status(400).json({ message: 'Invalid user id' });
+            const { name, role, isActive, password } = req.body ?? {};
+
+            if (role !== undefined && !USER_ROLES.includes(role as UserRole)) {
+                return res.status(400).json({ message: `role must be one of: ${USER_ROLES.join(', ')}` });
+            }
+
+            const existing = await prisma.user.findUnique({ where: { id }, select: userSelect });
+            if (!existing) {
+                return res.status(404).json({ error: 'User not found' });
+            }
+
+            const user = await prisma.$transaction(async (tx) => {
+                const updated = await tx.user.update({
+                    where: { id },
+                    data: {
+                        name,
+                        role,
+                        isActive,
+                        passwordHash: password ? hashPassword(String(password)) : undefined
+                    },
+                    select: userSelect
+                });
+
+                // Deactivation or a password reset ends every open session for the user
+                if (isActive === false || password) {
+                    await tx.session.updateMany({
+                        where: { userId: id, revokedAt: null },
+                        data: { revokedAt: new Date() }
+                    });
+                }
+
+                await tx.auditLog.create({
+                    data: {
+                        action: 'USER_UPDATE',
+                        entityType: 'User',
+                        entityId: id,
+                        oldValues: JSON.stringify({ name: existing.name, role: existing.role, isActive: existing.isActive }),
+                        newValues: JSON.stringify({ name: updated.name, role: updated.role, isActive: updated.isActive, passwordReset: !!password }),
+                        userId: req.user?.id
+                    }
+                });
+
+                return updated;
+            });
+
+            res.json(user);
+        } catch (error: any) {
+            console.error('Error updating user:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,185 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { getVehicleUsage, normaliseRegistration, VEHICLE_TYPES } from '../utils/vehicles';
+import { toCsv } from '../utils/csv';
+import { dayRange } from '../utils/common';
+
+export function createVehiclesRouter(prisma: PrismaClient) {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        try {
+            const where: any = req.query.includeInactive === 'true' ? {} : { isActive: true };
+            if (req.query.clientId) where.clientId = Number(req.query.clientId);
+
+            const vehicles = await prisma.vehicle.findMany({
+                where,
+                include: {
+                    client: { select: { id: true, name: true } },
+                    allowedFuelTypes: { select: { id: true, name: true } }
+                },
+                orderBy: { registrationNo: 'asc' }
+            });
+            res.json(vehicles);
+        } catch (error: any) {
+            console.error('Error fetching vehicles:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    /**
+     * Litres and amount per vehicle for a period (defaults to the current month), flagging vehicles
+     * over their monthly cap or drawing fuel types they are not allowed. `format=csv` exports one row per vehicle and month.
+     */
+    router.get('/usage', async (req, res) => {
+        try {
+            const now = new Date();
+            const start = req.query.startDate
+                ? dayRange(String(req.query.startDate)).start
+                : new Date(now.getFullYear(), now.getMonth(), 1);
+            const end = req.query.endDate ? dayRange(String(req.query.endDate)).end : dayRange(now.toISOString()).end;
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                return res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+            }
+            if (start > end) {
+                return res.status(400).json({ message: 'startDate must be on or before endDate' });
+            }
+
+            const usage = await getVehicleUsage(prisma, start, end, {
+                clientId: req.query.clientId ? Number(req.query.clientId) : undefined,
+                vehicleId: req.query.vehicleId ? Number(req.query.vehicleId) : undefined
+            });
+
+            if (req.query.format === 'csv') {
+                const headers = ['Client', 'Vehicle', 'Type', 'Month', 'Litres', 'Amount', 'Monthly cap', 'Over cap', 'Credits with disallowed fuel'];
+                const rows = usage.vehicles.flatMap(v => Object.entries(v.months).map(([month, m]: [string, any]) => [
+                    v.clientName,
+                    v.registrationNo,
+                    v.vehicleType,
+                    month,
+                    m.litres.toFixed(2),
+                    m.amount.toFixed(2),
+                    v.monthlyLitreCap ?? '',
+                    m.overCap ? 'yes' : 'no',
+                    v.disallowedFuelCredits.join(' ')
+                ]));
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="vehicle-usage-${start.toISOString().slice(0, 10)}-${end.toISOString().slice(0, 10)}.csv"`);
+                return res.send(toCsv(headers, rows));
+            }
+
+            res.json(usage);
+        } catch (error: any) {
+            console.error('Error building vehicle usage report:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.get('/:id', async (req, res) => {
+        try {
+            const vehicle = await prisma.vehicle.findUnique({
+                where: { id: Number(req.params.id) },
+                include: {
+                    client: { select: { id: true, name: true } },
+                    allowedFuelTypes: { select: { id: true, name: true } },
+                    credits: { orderBy: { date: 'desc' }, take: 50, include: { fuelType: { select: { name: true } } } }
+                }
+            });
+            if (!vehicle) return res.status(404).json({ message: 'Vehicle not found' });
+            res.json(vehicle);
+        } catch (error: any) {
+            console.error('Error fetching vehicle:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.post('/', async (req, res) => {
+        try {
+            const { clientId, registrationNo, vehicleType, allowedFuelTypeIds, monthlyLitreCap, note } = req.body ?? {};
+            if (!clientId || !registrationNo || !String(registrationNo).trim()) {
+                return res.status(400).json({ message: 'clientId and registrationNo are required' });
+            }
+            if (!VEHICLE_TYPES.includes(vehicleType)) {
+                return res.status(400).json({ message: `vehicleType must be one of: ${VEHICLE_TYPES.join(', ')}` });
+            }
+            if (allowedFuelTypeIds !== undefined && !Array.isArray(allowedFuelTypeIds)) {
+                return res.status(400).json({ message: 'allowedFuelTypeIds must be an array of fuel type ids' });
+            }
+            const cap = monthlyLitreCap !== undefined && monthlyLitreCap !== null && monthlyLitreCap !== '' ? Number(monthlyLitreCap) : null;
+            if (cap !== null && (isNaN(cap) || cap <= 0)) {
+                return res.status(400).json({ message: 'monthlyLitreCap must be a positive number of litres' });
+            }
+
+            const client = await prisma.client.findUnique({ where: { id: Number(clientId) } });
+            if (!client) return res.status(404).json({ message: 'Client not found' });
+
+            const registration = normaliseRegistration(registrationNo);
+            const existing = await prisma.vehicle.findUnique({ where: { registrationNo: registration } });
+            if (existing) return res.status(409).json({ message: `Vehicle ${registration} is already registered` });
+
+            const vehicle = await prisma.vehicle.create({
+                data: {
+                    clientId: client.id,
+                    registrationNo: registration,
+                    vehicleType,
+                    monthlyLitreCap: cap,
+                    note,
+                    allowedFuelTypes: { connect: (allowedFuelTypeIds ?? []).map((id: any) => ({ id: Number(id) })) }
+                },
+                include: { allowedFuelTypes: { select: { id: true, name: true } } }
+            });
+            res.status(201).json(vehicle);
+        } catch (error: any) {
+            console.error('Error creating vehicle:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    router.patch('/:id', async (req, res) => {
+        try {
+            const id = Number(req.params.id);
+            const { registrationNo, vehicleType, allowedFuelTypeIds, monthlyLitreCap, note, isActive } = req.body ?? {};
+
+            const data: any = {};
+            if (registrationNo !== undefined) data.registrationNo = normaliseRegistration(registrationNo);
+            if (vehicleType !== undefined) {
+                if (!VEHICLE_TYPES.includes(vehicleType)) {
+                    return res.status(400).json({ message: `vehicleType must be one of: ${VEHICLE_TYPES.join(', ')}` });
+                }
+                data.vehicleType = vehicleType;
+            }
+            if (allowedFuelTypeIds !== undefined) {
+                if (!Array.isArray(allowedFuelTypeIds)) {
+                    return res.status(400).json({ message: 'allowedFuelTypeIds must be an array of fuel type ids' });
+                }
+                data.allowedFuelTypes = { set: allowedFuelTypeIds.map((fuelTypeId: any) => ({ id: Number(fuelTypeId) })) };
+            }
+            if (monthlyLitreCap !== undefined) {
+                const cap = monthlyLitreCap === null || monthlyLitreCap === '' ? null : Number(monthlyLitreCap);
+                if (cap !== null && (isNaN(cap) || cap <= 0)) {
+                    return res.status(400).json({ message: 'monthlyLitreCap must be a positive number of litres' });
+                }
+                data.monthlyLitreCap = cap;
+            }
+            if (note !== undefined) data.note = note;
+            if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+            const vehicle = await prisma.vehicle.findUnique({ where: { id } });
+            if (!vehicle) return res.status(404).json({ message: 'Vehicle not found' });
+
+            res.json(await prisma.vehicle.update({
+                where: { id },
+                data,
+                include: { allowedFuelTypes: { select: { id: true, name: true } } }
+            }));
+        } catch (error: any) {
+            console.error('Error updating vehicle:', error);
+            if (error.code === 'P2002') {
+                return res.status(409).json({ message: 'Another vehicle has this registration number' });
+            }
+            res.status(500).json({ error: error.message });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,24 @@
+export const AGEING_BUCKETS = [
+    { key: '0-30', label: '0-30 days', minDays: 0, maxDays: 30 },
+    { key: '31-60', label: '31-60 days', minDays: 31, maxDays: 60 },
+    { key: '61-90', label: '61-90 days', minDays: 61, maxDays: 90 },
+    { key: '90+', label: 'Over 90 days', minDays: 91, maxDays: Infinity }
+] as const;
+
+export type AgeingBucket = typeof AGEING_BUCKETS[number]['key'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from `from` to `asOf`, never negative
+export function daysBetween(from: Date, asOf: Date): number {
+    return Math.max(Math.floor((asOf.getTime() - from.getTime()) / DAY_MS), 0);
+}
+
+export function ageingBucket(days: number): AgeingBucket {
+    const bucket = AGEING_BUCKETS.find(b => days >= b.minDays && days <= b.maxDays);
+    return bucket ? bucket.key : '90+';
+}
+
+export function emptyBuckets(): Record<AgeingBucket, number> {
+    return { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { backendLogger } from './logger';
+
+export type UserRole = 'owner' | 'manager' | 'attendant';
+
+export const USER_ROLES: UserRole[] = ['owner', 'manager', 'attendant'];
+
+export interface AuthenticatedUser {
+    id: number;
+    username: string;
+    name: string;
+    role: UserRole;
+    sessionId: number;
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthenticatedUser;
+        }
+    }
+}
+
+const SESSION_TTL_HOURS = process.env.SESSION_TTL_HOURS ? Number(process.env.SESSION_TTL_HOURS) : 12;
+
+const ALL_ROLES: UserRole[] = ['owner', 'manager', 'attendant'];
+const MANAGEMENT: UserRole[] = ['owner', 'manager'];
+const OWNER_ONLY: UserRole[] = ['owner'];
+
+export interface PermissionRule {
+    method: string; // HTTP method or '*'
+    pattern: RegExp;
+    roles: UserRole[];
+}
+
+// Routes reachable without a session
+const PUBLIC_ROUTES: Array<{ method: string; pattern: RegExp }> = [
+    { method: 'POST', pattern: /^\/api\/auth\/login$/ },
+    { method: 'POST', pattern: /^\/api\/auth\/setup$/ },
+    { method: 'GET', pattern: /^\/api\/status$/ }
+];
+
+/**
+ * Permission matrix, evaluated top to bottom - the first matching rule wins.
+ * Anything not matched explicitly falls through to the management-only catch-all.
+ */
+export const PERMISSION_MATRIX: PermissionRule[] = [
+    // Owner only: user management, destructive maintenance, tank capacities
+    { method: '*', pattern: /^\/api\/users(\/|$)/, roles: OWNER_ONLY },
+    { method: '*', pattern: /^\/api\/seed(\/|$)/, roles: OWNER_ONLY },
+    { method: '*', pattern: /^\/api\/init-db$/, roles: OWNER_ONLY },
+    { method: 'DELETE', pattern: /^\/api\/logs$/, roles: OWNER_ONLY },
+    { method: 'DELETE', pattern: /^\/api\/clients\/\d+$/, roles: OWNER_ONLY },
+    { method: 'DELETE', pattern: /^\/api\/purchases\/cleanup$/, roles: OWNER_ONLY },
+    { method: 'POST', pattern: /^\/api\/tank-capacity\/update-capacity$/, roles: OWNER_ONLY },
+
+    // Forecourt data entry: everyone, attendants included
+    { method: 'POST', pattern: /^\/api\/readings(\/bulk)?$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/cash-receipts(\/bulk)?$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/online-payments$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/credits$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/nozzles\/readings$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/tank-dips$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/shifts$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/shifts\/\d+\/(readings|cash-receipts|online-payments|close)$/, roles: ALL_ROLES },
+    { method: 'POST', pattern: /^\/api\/logs$/, roles: ALL_ROLES },
+    { method: '*', pattern: /^\/api\/auth(\/|$)/, roles: ALL_ROLES },
+
+    // Reads
+    { method: 'GET', pattern: /^\/api\/logs(\/|$)/, roles: MANAGEMENT },
+    { method: 'GET', pattern: /^\/api\/db-check$/, roles: MANAGEMENT },
+    { method: 'GET', pattern: /^\/api\//, roles: ALL_ROLES },
+
+    // Everything else (prices, tanks, purchases, clients...) needs a manager
+    { method: '*', pattern: /^\/api\//, roles: MANAGEMENT }
+];
+
+export function hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `scrypt:${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+    const [scheme, salt, hash] = stored.split(':');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a session for a user and return the raw bearer token.
+ * Only the token hash is stored, so a leaked database does not leak live sessions.
+ */
+export async function createSession(prisma: PrismaClient, userId: number, context: { ip?: string; userAgent?: string }) {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+    const session = await prisma.session.create({
+        data: {
+            tokenHash: hashToken(token),
+            userId,
+            expiresAt,
+            ip: context.ip,
+            userAgent: context.userAgent
+        }
+    });
+
+    return { token, session };
+}
+
+export function findPermissionRule(method: string, path: string): PermissionRule | undefined {
+    return PERMISSION_MATRIX.find(rule =>
+        (rule.method === '*' || rule.method === method) && rule.pattern.test(path)
+    );
+}
+
+/**
+ * Express matches routes case-insensitively and ignores a trailing slash, so the
+ * matrix is checked against the same canonical form: `/API/Clients/5/` is `/api/clients/5`.
+ */
+export function normalisePath(path: string): string {
+    const lower = path.toLowerCase();
+    return lower.length > 1 ? lower.replace(/\/+$/, '') : lower;
+}
+
+function isPublicRoute(method: string, path: string): boolean {
+    return PUBLIC_ROUTES.some(route => route.method === method && route.pattern.test(path));
+}
+
+function extractToken(req: Request): string | null {
+    const header = req.get('Authorization');
+    if (!header || !header.startsWith('Bearer ')) return null;
+    return header.slice('Bearer '.length).trim() || null;
+}
+
+/**
+ * Authenticate the bearer token and enforce the permission matrix for /api routes.
+ */
+export function createAuthMiddleware(prisma: PrismaClient) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const path = normalisePath(req.path);
+        if (!path.startsWith('/api/') || req.method === 'OPTIONS' || isPublicRoute(req.method, path)) {
+            return next();
+        }
+
+        const context = {
+            endpoint: req.path,
+            method: req.method,
+            ip: req.ip,
+            userAgent: req.get('User-Agent')
+        };
+
+        try {
+            const token = extractToken(req);
+            if (!token) {
+                backendLogger.securityEvent('missing_token', 'low', { path: req.path }, context);
+                return res.status(401).json({ error: 'Authentication required' });
+            }
+
+            const session = await prisma.session.findUnique({
+                where: { tokenHash: hashToken(token) },
+                include: { user: true }
+            });
+
+            if (!session || session.revokedAt || session.expiresAt < new Date() || !session.user.isActive) {
+                backendLogger.authEvent('session_validation', false, session ? String(session.userId) : undefined, context);
+                return res.status(401).json({ error: 'Session expired or invalid' });
+            }
+
+            req.user = {
+                id: session.user.id,
+                username: session.user.username,
+                name: session.user.name,
+                role: session.user.role as UserRole,
+                sessionId: session.id
+            };
+
+            const rule = findPermissionRule(req.method, path);
+            if (!rule || !rule.roles.includes(req.user.role)) {
+                backendLogger.securityEvent('access_denied', 'medium', {
+                    userId: req.user.id,
+                    username: req.user.username,
+                    role: req.user.role,
+                    path: req.path,
+                    requiredRoles: rule?.roles ?? []
+                }, { ...context, userId: String(req.user.id), sessionId: String(session.id) });
+                return res.status(403).json({ error: `Role '${req.user.role}' is not allowed to ${req.method} ${req.path}` });
+            }
+
+            next();
+        } catch (error: any) {
+            backendLogger.error('Authentication check failed', { error: error.message }, context);
+            res.status(500).json({ error: 'Authentication check failed' });
+        }
+    };
+}
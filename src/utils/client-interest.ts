@@ -0,0 +1,171 @@
+import { PrismaClient } from '@prisma/client';
+import { daysBetween } from './ageing';
+import { refreshClientBalance } from './client-ledger';
+import { creditDueDate } from './receivables';
+import { backendLogger } from './logger';
+import { round2 } from './common';
+
+export interface InterestLine {
+    creditId: number;
+    dueDate: Date;
+    interestFrom: Date;
+    balance: number;
+    days: number;
+    interest: number;
+}
+
+export function monthPeriod(year: number, month: number) {
+    const start = new Date(year, month, 1);
+    const end = new Date(year, month + 1, 1);
+    end.setMilliseconds(end.getMilliseconds() - 1);
+    return { start, end };
+}
+
+/**
+ * Interest for one client over a period: each credit still unpaid at the end of the period earns
+ * simple interest at the client's annual rate for the days it was past due plus grace within the period.
+ * A non-zero total below the client's minimum charge is raised to the minimum.
+ */
+export async function calculateClientInterest(prisma: PrismaClient, clientId: number, start: Date, end: Date) {
+    const client = await prisma.client.findUnique({ where: { id: clientId } });
+    if (!client) return null;
+
+    const rate = Number(client.interestRatePercent);
+    if (rate <= 0) return { client, lines: [] as InterestLine[], interest: 0, amount: 0 };
+
+    const credits = await prisma.clientCredit.findMany({
+        where: { clientId, date: { lte: end } },
+        include: { allocations: { include: { payment: { select: { date: true } } } } },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+
+    const periodEndExclusive = new Date(end.getTime() + 1);
+    const lines: InterestLine[] = [];
+    for (const credit of credits) {
+        // Marked paid before payments were recorded, and not yet backfilled: settled, whatever the allocations say
+        if (credit.status === 'paid' && credit.allocations.length === 0) continue;
+
+        // Outstanding at the end of the period, ignoring payments made afterwards
+        const paid = credit.allocations
+            .filter(a => a.payment.date <= end)
+            .reduce((sum, a) => sum + Number(a.amount), 0);
+        const balance = round2(Number(credit.totalAmount) - paid);
+        if (balance <= 0) continue;
+
+        const dueDate = creditDueDate(credit.date, client.paymentTermsDays);
+        const interestFrom = new Date(dueDate);
+        interestFrom.setDate(interestFrom.getDate() + client.interestGraceDays);
+        if (interestFrom > end) continue;
+
+        const days = daysBetween(interestFrom > start ? interestFrom : start, periodEndExclusive);
+        if (days <= 0) continue;
+
+        lines.push({
+            creditId: credit.id,
+            dueDate,
+            interestFrom,
+            balance,
+            days,
+            interest: round2(balance * (rate / 100) * (days / 365))
+        });
+    }
+
+    const interest = round2(lines.reduce((sum, l) => sum + l.interest, 0));
+    const amount = interest > 0 ? Math.max(interest, Number(client.interestMinCharge)) : 0;
+    return { client, lines, interest, amount: round2(amount) };
+}
+
+/**
+ * Post interest for a month to every client with an interest rate (or one client).
+ * Months that already have an interest charge are skipped, posted or reversed, so the job can be re-run
+ * safely and a reversal stays reversed; the unique key on the charge stops concurrent runs posting twice.
+ */
+export async function runMonthlyInterestAccrual(
+    prisma: PrismaClient,
+    year: number,
+    month: number,
+    options: { clientId?: number; dryRun?: boolean; userId?: number } = {}
+) {
+    const { start, end } = monthPeriod(year, month);
+    const clients = await prisma.client.findMany({
+        where: { interestRatePercent: { gt: 0 }, ...(options.clientId ? { id: options.clientId } : {}) },
+        orderBy: { id: 'asc' }
+    });
+
+    const results = [];
+    for (const client of clients) {
+        const existing = await prisma.clientCharge.findUnique({
+            where: { clientId_type_periodStart: { clientId: client.id, type: 'interest', periodStart: start } }
+        });
+        if (existing) {
+            const status = existing.status === 'reversed' ? 'already_reversed' : 'already_posted';
+            results.push({ clientId: client.id, clientName: client.name, status, chargeId: existing.id, amount: Number(existing.amount) });
+            continue;
+        }
+
+        const calculation = await calculateClientInterest(prisma, client.id, start, end);
+        if (!calculation || calculation.amount <= 0) {
+            results.push({ clientId: client.id, clientName: client.name, status: 'nothing_due', amount: 0 });
+            continue;
+        }
+        if (options.dryRun) {
+            results.push({ clientId: client.id, clientName: client.name, status: 'would_post', amount: calculation.amount, lines: calculation.lines });
+            continue;
+        }
+
+        const label = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
+        const charge = await prisma.$transaction(async (tx) => {
+            const created = await tx.clientCharge.create({
+                data: {
+                    clientId: client.id,
+                    type: 'interest',
+                    amount: calculation.amount,
+                    periodStart: start,
+                    periodEnd: end,
+                    description: `Interest on overdue credit for ${label} @ ${Number(client.interestRatePercent)}% p.a.`,
+                    details: JSON.stringify({ interest: calculation.interest, minCharge: Number(client.interestMinCharge), lines: calculation.lines }),
+                    postedById: options.userId,
+                    date: end
+                }
+            });
+            await refreshClientBalance(tx, client.id);
+            return created;
+        }).catch(error => {
+            // Another run posted this month in the meantime
+            if (error.code === 'P2002') return null;
+            throw error;
+        });
+        if (!charge) {
+            results.push({ clientId: client.id, clientName: client.name, status: 'already_posted', amount: calculation.amount });
+            continue;
+        }
+        results.push({ clientId: client.id, clientName: client.name, status: 'posted', chargeId: charge.id, amount: calculation.amount });
+    }
+
+    const posted = results.filter(r => r.status === 'posted');
+    backendLogger.info('Client interest accrual run', {
+        period: start.toISOString().slice(0, 7),
+        dryRun: !!options.dryRun,
+        clients: results.length,
+        posted: posted.length,
+        amount: round2(posted.reduce((sum, r) => sum + r.amount, 0))
+    });
+    return { periodStart: start, periodEnd: end, dryRun: !!options.dryRun, results };
+}
+
+/**
+ * With INTEREST_ACCRUAL_AUTO=true, accrue last month's interest on startup and then every few hours.
+ * Re-runs are no-ops once a month is posted.
+ */
+export function scheduleMonthlyInterestAccrual(prisma: PrismaClient) {
+    if (process.env.INTEREST_ACCRUAL_AUTO !== 'true') return;
+
+    const run = () => {
+        const now = new Date();
+        const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+        runMonthlyInterestAccrual(prisma, lastMonth.getFullYear(), lastMonth.getMonth())
+            .catch(error => backendLogger.error('Scheduled interest accrual failed', { error: error.message }));
+    };
+    run();
+    setInterval(run, 6 * 60 * 60 * 1000).unref();
+}
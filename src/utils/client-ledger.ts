@@ -0,0 +1,273 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const CLIENT_PAYMENT_METHODS = ['CASH', 'UPI', 'CARD', 'BANK_TRANSFER', 'CHEQUE'];
+
+export interface LedgerEntry {
+    date: Date;
+    type: 'credit_sale' | 'payment' | 'charge' | 'charge_reversal';
+    sourceId: number;
+    reference: string;
+    description: string;
+    debit: number; // Owed by the client
+    credit: number; // Paid by the client
+    balance?: number;
+}
+
+/**
+ * Client balance as of an instant: credit sales and charges (debits) less payments and charge reversals (credits).
+ * Positive means the client owes us.
+ */
+export async function getClientBalance(db: Db, clientId: number, asOf?: Date): Promise<number> {
+    const dateFilter = asOf ? { date: { lt: asOf } } : {};
+    const [debits, credits, charges, reversals] = await Promise.all([
+        db.clientCredit.aggregate({ _sum: { totalAmount: true }, where: { clientId, ...dateFilter } }),
+        db.clientPayment.aggregate({ _sum: { amount: true }, where: { clientId, ...dateFilter } }),
+        db.clientCharge.aggregate({ _sum: { amount: true }, where: { clientId, ...dateFilter } }),
+        db.clientCharge.aggregate({
+            _sum: { amount: true },
+            where: { clientId, status: 'reversed', ...(asOf ? { reversedAt: { lt: asOf } } : {}) }
+        })
+    ]);
+    return Number(debits._sum.totalAmount ?? 0) + Number(charges._sum.amount ?? 0)
+        - Number(credits._sum.amount ?? 0) - Number(reversals._sum.amount ?? 0);
+}
+
+/**
+ * Store the ledger balance on the client. Client.balance is only ever written here,
+ * so it is a cache of the ledger and never edited directly.
+ */
+export async function refreshClientBalance(db: Db, clientId: number): Promise<number> {
+    const balance = await getClientBalance(db, clientId);
+    await db.client.update({ where: { id: clientId }, data: { balance } });
+    return balance;
+}
+
+/**
+ * Ledger for a date range: opening balance, entries in date order with a running balance, closing balance.
+ */
+export async function getClientLedger(db: Db, clientId: number, start: Date, end: Date) {
+    const [openingBalance, credits, payments, charges, reversals] = await Promise.all([
+        getClientBalance(db, clientId, start),
+        db.clientCredit.findMany({
+            where: { clientId, date: { gte: start, lte: end } },
+            include: { fuelType: { select: { name: true } } }
+        }),
+        db.clientPayment.findMany({ where: { clientId, date: { gte: start, lte: end } } }),
+        db.clientCharge.findMany({ where: { clientId, date: { gte: start, lte: end } } }),
+        db.clientCharge.findMany({ where: { clientId, status: 'reversed', reversedAt: { gte: start, lte: end } } })
+    ]);
+
+    const entries: LedgerEntry[] = [
+        ...credits.map(c => ({
+            date: c.date,
+            type: 'credit_sale' as const,
+            sourceId: c.id,
+            reference: `CR-${c.id}`,
+            description: `${Number(c.litres)}L ${c.fuelType.name} @ ${Number(c.pricePerLitre)}${c.note ? ` - ${c.note}` : ''}`,
+            debit: Number(c.totalAmount),
+            credit: 0
+        })),
+        ...payments.map(p => ({
+            date: p.date,
+            type: 'payment' as const,
+            sourceId: p.id,
+            reference: p.reference || `PAY-${p.id}`,
+            description: `Payment (${p.paymentMethod})${p.note ? ` - ${p.note}` : ''}`,
+            debit: 0,
+            credit: Number(p.amount)
+        })),
+        ...charges.map(c => ({
+            date: c.date,
+            type: 'charge' as const,
+            sourceId: c.id,
+            reference: `CHG-${c.id}`,
+            description: c.description,
+            debit: Number(c.amount),
+            credit: 0
+        })),
+        ...reversals.map(c => ({
+            date: c.reversedAt!,
+            type: 'charge_reversal' as const,
+            sourceId: c.id,
+            reference: `CHG-${c.id}`,
+            description: `Reversal of ${c.description}${c.reversalReason ? ` - ${c.reversalReason}` : ''}`,
+            debit: 0,
+            credit: Number(c.amount)
+        }))
+    ];
+
+    // Same-day debits (sales, then charges) before credits, then in the order they were recorded
+    const typeOrder = { credit_sale: 0, charge: 1, payment: 2, charge_reversal: 3 };
+    entries.sort((a, b) =>
+        a.date.getTime() - b.date.getTime()
+        || typeOrder[a.type] - typeOrder[b.type]
+        || a.sourceId - b.sourceId);
+
+    let balance = openingBalance;
+    for (const entry of entries) {
+        balance += entry.debit - entry.credit;
+        entry.balance = Math.round(balance * 100) / 100;
+    }
+
+    return {
+        openingBalance,
+        entries,
+        totalDebit: entries.reduce((sum, e) => sum + e.debit, 0),
+        totalCredit: entries.reduce((sum, e) => sum + e.credit, 0),
+        closingBalance: Math.round(balance * 100) / 100
+    };
+}
+
+type CreditLike = {
+    totalAmount: Prisma.Decimal | number;
+    paidAmount: Prisma.Decimal | number;
+};
+
+export function creditBalance(credit: CreditLike): number {
+    return Math.round((Number(credit.totalAmount) - Number(credit.paidAmount)) * 100) / 100;
+}
+
+export function creditStatusFor(amount: number, paid: number): 'unpaid' | 'partially_paid' | 'paid' {
+    if (paid <= 0.005) return 'unpaid';
+    return amount - paid <= 0.005 ? 'paid' : 'partially_paid';
+}
+
+// A client's credits with something left to pay, oldest first
+export async function getOpenCredits(db: Db, clientId: number) {
+    return db.clientCredit.findMany({
+        where: { clientId, status: { not: 'paid' } },
+        include: { fuelType: { select: { name: true } } },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+}
+
+/**
+ * Work out how a client payment is spread over open credits: explicit `{ creditId, amount }` choices,
+ * or oldest-first when none are given. The remainder is left as an advance.
+ */
+export async function planClientAllocations(
+    db: Db,
+    clientId: number,
+    amount: number,
+    requested?: { creditId: number; amount: number }[]
+): Promise<{ plan: { creditId: number; amount: number }[]; unallocated: number; error?: string }> {
+    const openCredits = await getOpenCredits(db, clientId);
+    const plan: { creditId: number; amount: number }[] = [];
+
+    if (requested && requested.length > 0) {
+        const ids = requested.map(r => Number(r.creditId));
+        const repeated = ids.find((id, i) => ids.indexOf(id) !== i);
+        if (repeated !== undefined) {
+            return { plan, unallocated: amount, error: `Credit ${repeated} is listed more than once` };
+        }
+
+        let total = 0;
+        for (const r of requested) {
+            const credit = openCredits.find(c => c.id === Number(r.creditId));
+            const allocation = Number(r.amount);
+            if (!credit) {
+                return { plan, unallocated: amount, error: `Credit ${r.creditId} is not an open credit of this client` };
+            }
+            if (isNaN(allocation) || allocation <= 0) {
+                return { plan, unallocated: amount, error: `Allocation for credit ${r.creditId} must be positive` };
+            }
+            if (allocation - creditBalance(credit) > 0.005) {
+                return { plan, unallocated: amount, error: `Allocation of ${allocation} exceeds the balance of credit ${credit.id} (${creditBalance(credit)})` };
+            }
+            total += allocation;
+            plan.push({ creditId: credit.id, amount: allocation });
+        }
+        if (total - amount > 0.005) {
+            return { plan, unallocated: amount, error: `Allocations (${total}) exceed the payment amount (${amount})` };
+        }
+        return { plan, unallocated: Math.round((amount - total) * 100) / 100 };
+    }
+
+    let left = amount;
+    for (const credit of openCredits) {
+        if (left <= 0.005) break;
+        const allocation = Math.min(creditBalance(credit), left);
+        if (allocation <= 0) continue;
+        plan.push({ creditId: credit.id, amount: Math.round(allocation * 100) / 100 });
+        left -= allocation;
+    }
+    return { plan, unallocated: Math.round(Math.max(left, 0) * 100) / 100 };
+}
+
+/**
+ * Apply (sign 1) or undo (sign -1) allocated amounts on credits, moving them between unpaid, partially_paid and paid.
+ */
+export async function applyClientAllocations(
+    db: Db,
+    allocations: { creditId: number; amount: number }[],
+    paymentMethod: string | null,
+    sign: 1 | -1 = 1
+) {
+    for (const allocation of allocations) {
+        const credit = await db.clientCredit.findUnique({ where: { id: allocation.creditId } });
+        if (!credit) continue;
+        const paid = Math.max(Number(credit.paidAmount) + sign * allocation.amount, 0);
+        const status = creditStatusFor(Number(credit.totalAmount), paid);
+        await db.clientCredit.update({
+            where: { id: credit.id },
+            data: {
+                paidAmount: paid,
+                status,
+                paidDate: status === 'paid' ? new Date() : null,
+                paymentMethod: status === 'paid' ? (paymentMethod ?? credit.paymentMethod) : credit.paymentMethod
+            }
+        });
+    }
+}
+
+/**
+ * For credits marked paid before payments were recorded: each gets a settling payment on its paid date,
+ * allocated in full, so the ledger and paidAmount agree with the old status. Credits that already have
+ * allocations are left alone, so running it again does nothing; the server runs it at startup.
+ */
+export async function backfillLegacyCreditPayments(prisma: PrismaClient) {
+    const credits = await prisma.clientCredit.findMany({
+        where: { status: 'paid', allocations: { none: {} } },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+    const clientIds = new Set<number>();
+    await prisma.$transaction(async (tx) => {
+        for (const credit of credits) {
+            const payment = await tx.clientPayment.create({
+                data: {
+                    clientId: credit.clientId,
+                    amount: credit.totalAmount,
+                    // Old credits recorded UPI, or who collected the cash (Worker, Owner)
+                    paymentMethod: credit.paymentMethod === 'UPI' ? 'UPI' : 'CASH',
+                    reference: `LEGACY-CR-${credit.id}`,
+                    note: `Settlement recorded before payments were tracked${credit.paymentMethod ? ` (${credit.paymentMethod})` : ''}`,
+                    date: credit.paidDate ?? credit.date
+                }
+            });
+            await tx.clientPaymentAllocation.create({ data: { paymentId: payment.id, creditId: credit.id, amount: credit.totalAmount } });
+            await tx.clientCredit.update({ where: { id: credit.id }, data: { paidAmount: credit.totalAmount } });
+            clientIds.add(credit.clientId);
+        }
+        for (const clientId of clientIds) {
+            await refreshClientBalance(tx, clientId);
+        }
+    });
+    return { credits: credits.length, clients: clientIds.size };
+}
+
+// Amount of each payment not yet allocated to a credit
+export async function getUnallocatedPayments(db: Db, clientId: number) {
+    const payments = await db.clientPayment.findMany({
+        where: { clientId },
+        include: { allocations: true },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+    return payments
+        .map(p => ({
+            payment: p,
+            unallocated: Math.round((Number(p.amount) - p.allocations.reduce((sum, a) => sum + Number(a.amount), 0)) * 100) / 100
+        }))
+        .filter(p => p.unallocated > 0.005);
+}
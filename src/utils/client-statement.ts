@@ -0,0 +1,224 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getClientBalance } from './client-ledger';
+import { col, PdfLine, renderTextPdf } from './pdf';
+import { STATION_NAME, round2 } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface ClientStatement {
+    client: { id: number; name: string; ownerName: string; phone: string; address: string | null };
+    start: Date;
+    end: Date;
+    openingBalance: number;
+    credits: { id: number; date: Date; fuelType: string; litres: number; rate: number; amount: number; note: string }[];
+    payments: { id: number; date: Date; method: string; reference: string; amount: number; note: string }[];
+    // Interest and fees; reversals appear as negative amounts on the reversal date
+    charges: { id: number; date: Date; reference: string; description: string; amount: number }[];
+    totalCredits: number;
+    totalPayments: number;
+    totalCharges: number;
+    closingBalance: number;
+    generatedAt: Date;
+}
+
+/**
+ * Statement of account for a client over a date range. Returns null when the client does not exist.
+ */
+export async function buildClientStatement(db: Db, clientId: number, start: Date, end: Date): Promise<ClientStatement | null> {
+    const client = await db.client.findUnique({ where: { id: clientId } });
+    if (!client) return null;
+
+    const [openingBalance, credits, payments, charges, reversals] = await Promise.all([
+        getClientBalance(db, clientId, start),
+        db.clientCredit.findMany({
+            where: { clientId, date: { gte: start, lte: end } },
+            include: { fuelType: { select: { name: true } }, vehicle: { select: { registrationNo: true } }, slipBook: { select: { series: true } } },
+            orderBy: [{ date: 'asc' }, { id: 'asc' }]
+        }),
+        db.clientPayment.findMany({
+            where: { clientId, date: { gte: start, lte: end } },
+            orderBy: [{ date: 'asc' }, { id: 'asc' }]
+        }),
+        db.clientCharge.findMany({ where: { clientId, date: { gte: start, lte: end } } }),
+        db.clientCharge.findMany({ where: { clientId, status: 'reversed', reversedAt: { gte: start, lte: end } } })
+    ]);
+
+    const chargeRows = [
+        ...charges.map(c => ({ id: c.id, date: c.date, reference: `CHG-${c.id}`, description: c.description, amount: Number(c.amount) })),
+        ...reversals.map(c => ({ id: c.id, date: c.reversedAt!, reference: `CHG-${c.id}`, description: `Reversal: ${c.description}`, amount: -Number(c.amount) }))
+    ].sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id);
+
+    const totalCredits = round2(credits.reduce((sum, c) => sum + Number(c.totalAmount), 0));
+    const totalPayments = round2(payments.reduce((sum, p) => sum + Number(p.amount), 0));
+    const totalCharges = round2(chargeRows.reduce((sum, c) => sum + c.amount, 0));
+
+    return {
+        client: { id: client.id, name: client.name, ownerName: client.ownerName, phone: client.phone, address: client.address },
+        start,
+        end,
+        openingBalance: round2(openingBalance),
+        credits: credits.map(c => ({
+            id: c.id,
+            date: c.date,
+            fuelType: c.fuelType.name,
+            litres: Number(c.litres),
+            rate: Number(c.pricePerLitre),
+            amount: Number(c.totalAmount),
+            note: [c.slipBook ? `Slip ${c.slipBook.series}-${c.slipNo}` : null, c.vehicle?.registrationNo, c.note].filter(Boolean).join(' - ')
+        })),
+        payments: payments.map(p => ({
+            id: p.id,
+            date: p.date,
+            method: p.paymentMethod,
+            reference: p.reference || `PAY-${p.id}`,
+            amount: Number(p.amount),
+            note: p.note || ''
+        })),
+        charges: chargeRows,
+        totalCredits,
+        totalPayments,
+        totalCharges,
+        closingBalance: round2(openingBalance + totalCredits + totalCharges - totalPayments),
+        generatedAt: new Date()
+    };
+}
+
+function formatStatementDate(date: Date): string {
+    return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+const money = (n: number) => n.toFixed(2);
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function statementFileName(statement: ClientStatement, extension: 'pdf' | 'html'): string {
+    const slug = statement.client.name.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || `client-${statement.client.id}`;
+    const from = statement.start.toISOString().slice(0, 10);
+    const to = statement.end.toISOString().slice(0, 10);
+    return `statement-${statement.client.id}-${slug}-${from}-to-${to}.${extension}`;
+}
+
+export function renderStatementHtml(statement: ClientStatement): string {
+    const { client } = statement;
+    const creditRows = statement.credits.map(c => `
+            <tr><td>${formatStatementDate(c.date)}</td><td>CR-${c.id}</td><td>${escapeHtml(c.fuelType)}</td>`
+        + `<td class="num">${c.litres.toFixed(2)}</td><td class="num">${money(c.rate)}</td>`
+        + `<td class="num">${money(c.amount)}</td><td>${escapeHtml(c.note)}</td></tr>`).join('');
+    const paymentRows = statement.payments.map(p => `
+            <tr><td>${formatStatementDate(p.date)}</td><td>${escapeHtml(p.reference)}</td><td>${escapeHtml(p.method)}</td>`
+        + `<td class="num">${money(p.amount)}</td><td>${escapeHtml(p.note)}</td></tr>`).join('');
+    const chargeRows = statement.charges.map(c => `
+            <tr><td>${formatStatementDate(c.date)}</td><td>${c.reference}</td><td>${escapeHtml(c.description)}</td>`
+        + `<td class="num">${money(c.amount)}</td></tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Statement - ${escapeHtml(client.name)}</title>
+    <style>
+        body { font-family: Arial, sans-serif; font-size: 12px; margin: 24px; }
+        h1 { font-size: 18px; margin: 0; }
+        h2 { font-size: 14px; margin: 20px 0 6px; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+        th { background: #eee; }
+        .num { text-align: right; }
+        .summary td { border: none; padding: 2px 6px; }
+        @media print { body { margin: 0; } }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(STATION_NAME)}</h1>
+    <p>Statement of account from ${formatStatementDate(statement.start)} to ${formatStatementDate(statement.end)}</p>
+    <p><strong>${escapeHtml(client.name)}</strong> (${escapeHtml(client.ownerName)})<br>
+    ${client.address ? `${escapeHtml(client.address)}<br>` : ''}Phone: ${escapeHtml(client.phone)}</p>
+
+    <table class="summary">
+        <tr><td>Opening balance</td><td class="num">${money(statement.openingBalance)}</td></tr>
+        <tr><td>Credit sales</td><td class="num">${money(statement.totalCredits)}</td></tr>
+        ${statement.charges.length ? `<tr><td>Interest and charges</td><td class="num">${money(statement.totalCharges)}</td></tr>` : ''}
+        <tr><td>Payments received</td><td class="num">${money(statement.totalPayments)}</td></tr>
+        <tr><td><strong>Closing balance</strong></td><td class="num"><strong>${money(statement.closingBalance)}</strong></td></tr>
+    </table>
+
+    <h2>Credit sales</h2>
+    <table>
+        <tr><th>Date</th><th>Ref</th><th>Fuel</th><th class="num">Litres</th><th class="num">Rate</th><th class="num">Amount</th><th>Vehicle / note</th></tr>${creditRows || '\n            <tr><td colspan="7">No credit sales in this period</td></tr>'}
+        <tr><th colspan="5">Total</th><th class="num">${money(statement.totalCredits)}</th><th></th></tr>
+    </table>
+
+    <h2>Payments</h2>
+    <table>
+        <tr><th>Date</th><th>Reference</th><th>Method</th><th class="num">Amount</th><th>Note</th></tr>${paymentRows || '\n            <tr><td colspan="5">No payments in this period</td></tr>'}
+        <tr><th colspan="3">Total</th><th class="num">${money(statement.totalPayments)}</th><th></th></tr>
+    </table>
+${statement.charges.length ? `
+    <h2>Interest and charges</h2>
+    <table>
+        <tr><th>Date</th><th>Ref</th><th>Description</th><th class="num">Amount</th></tr>${chargeRows}
+        <tr><th colspan="3">Total</th><th class="num">${money(statement.totalCharges)}</th></tr>
+    </table>
+` : ''}
+    <p>Generated ${statement.generatedAt.toLocaleString()}</p>
+</body>
+</html>
+`;
+}
+
+export function renderStatementPdf(statement: ClientStatement): Buffer {
+    const { client } = statement;
+    const rule = '-'.repeat(96);
+    const lines: (string | PdfLine)[] = [
+        { text: STATION_NAME, bold: true, size: 14 },
+        `Statement of account from ${formatStatementDate(statement.start)} to ${formatStatementDate(statement.end)}`,
+        '',
+        { text: `${client.name} (${client.ownerName})`, bold: true },
+        ...(client.address ? [client.address] : []),
+        `Phone: ${client.phone}`,
+        '',
+        `${col('Opening balance', 30)}${col(money(statement.openingBalance), 16, 'right')}`,
+        `${col('Credit sales', 30)}${col(money(statement.totalCredits), 16, 'right')}`,
+        ...(statement.charges.length ? [`${col('Interest and charges', 30)}${col(money(statement.totalCharges), 16, 'right')}`] : []),
+        `${col('Payments received', 30)}${col(money(statement.totalPayments), 16, 'right')}`,
+        { text: `${col('Closing balance', 30)}${col(money(statement.closingBalance), 16, 'right')}`, bold: true },
+        '',
+        { text: 'Credit sales', bold: true },
+        rule,
+        { text: `${col('Date', 11)}${col('Ref', 9)}${col('Fuel', 12)}${col('Litres', 10, 'right')}${col('Rate', 9, 'right')}${col('Amount', 12, 'right')}  Vehicle / note`, bold: true },
+        rule,
+        ...statement.credits.map(c =>
+            `${col(formatStatementDate(c.date), 11)}${col(`CR-${c.id}`, 9)}${col(c.fuelType, 12)}${col(c.litres.toFixed(2), 10, 'right')}`
+            + `${col(money(c.rate), 9, 'right')}${col(money(c.amount), 12, 'right')}  ${col(c.note, 31)}`),
+        ...(statement.credits.length === 0 ? ['No credit sales in this period'] : []),
+        rule,
+        { text: `${col('Total', 51)}${col(money(statement.totalCredits), 12, 'right')}`, bold: true },
+        '',
+        { text: 'Payments', bold: true },
+        rule,
+        { text: `${col('Date', 11)}${col('Reference', 20)}${col('Method', 15)}${col('Amount', 12, 'right')}  Note`, bold: true },
+        rule,
+        ...statement.payments.map(p =>
+            `${col(formatStatementDate(p.date), 11)}${col(p.reference, 20)}${col(p.method, 15)}${col(money(p.amount), 12, 'right')}  ${col(p.note, 36)}`),
+        ...(statement.payments.length === 0 ? ['No payments in this period'] : []),
+        rule,
+        { text: `${col('Total', 46)}${col(money(statement.totalPayments), 12, 'right')}`, bold: true },
+        ...(statement.charges.length ? [
+            '',
+            { text: 'Interest and charges', bold: true },
+            rule,
+            { text: `${col('Date', 11)}${col('Ref', 10)}${col('Description', 63)}${col('Amount', 12, 'right')}`, bold: true },
+            rule,
+            ...statement.charges.map(c =>
+                `${col(formatStatementDate(c.date), 11)}${col(c.reference, 10)}${col(c.description, 63)}${col(money(c.amount), 12, 'right')}`),
+            rule,
+            { text: `${col('Total', 84)}${col(money(statement.totalCharges), 12, 'right')}`, bold: true }
+        ] : []),
+        '',
+        `Generated ${statement.generatedAt.toLocaleString()}`
+    ];
+
+    return renderTextPdf(lines, { title: `Statement - ${client.name}` });
+}
@@ -0,0 +1,19 @@
+// Station name printed on statements, invoices and reports
+export const STATION_NAME = process.env.STATION_NAME || 'Fuel Station';
+
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Local calendar date as YYYY-MM-DD
+export function formatDate(d: Date) {
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// First and last millisecond of the local day containing `dateStr`; both are Invalid Date on bad input
+export function dayRange(dateStr: string) {
+    const d = new Date(dateStr);
+    const start = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    const end = new Date(start);
+    end.setDate(start.getDate() + 1);
+    end.setMilliseconds(end.getMilliseconds() - 1);
+    return { start, end };
+}
@@ -0,0 +1,248 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getClientBalance, refreshClientBalance } from './client-ledger';
+import { checkVehicleForCredit } from './vehicles';
+import { logSlipRejection, resolveSlip } from './slip-books';
+import { getPricePerLitreAt, tradingInstant } from './pricing';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const CREDIT_LIMIT_POLICIES = ['block', 'warn', 'approval'] as const;
+export type CreditLimitPolicy = typeof CREDIT_LIMIT_POLICIES[number];
+
+export interface CreditLimitCheck {
+    policy: CreditLimitPolicy;
+    withinLimit: boolean;
+    balance: number;
+    creditLimit: number | null;
+    projectedBalance: number;
+    message?: string;
+}
+
+// Limit from a request body: blank or null means no limit, otherwise an amount of 0 or more (0 allows no credit)
+export function parseCreditLimit(value: unknown): { limit: number | null } | { error: string } {
+    if (value === null || value === '') return { limit: null };
+    const limit = Number(value);
+    if (isNaN(limit) || limit < 0) return { error: `creditLimit must be an amount of 0 or more, or blank for no limit, got: ${value}` };
+    return { limit };
+}
+
+/**
+ * Check a new credit of `amount` against the client's limit and policy.
+ * A client without a limit is always within it; as in the original sales check, a limit of 0 allows no credit at all.
+ */
+export async function checkCreditLimit(db: Db, clientId: number, amount: number): Promise<CreditLimitCheck | null> {
+    const client = await db.client.findUnique({ where: { id: clientId } });
+    if (!client) return null;
+
+    const policy = (CREDIT_LIMIT_POLICIES as readonly string[]).includes(client.creditLimitPolicy)
+        ? client.creditLimitPolicy as CreditLimitPolicy
+        : 'block';
+    const creditLimit = client.creditLimit === null ? null : Number(client.creditLimit);
+    const balance = await getClientBalance(db, clientId);
+    const projectedBalance = balance + amount;
+    const withinLimit = creditLimit === null || projectedBalance <= creditLimit;
+
+    return {
+        policy,
+        withinLimit,
+        balance,
+        creditLimit,
+        projectedBalance,
+        message: withinLimit
+            ? undefined
+            : `${client.name} would owe ${projectedBalance.toFixed(2)}, over the credit limit of ${creditLimit.toFixed(2)}`
+    };
+}
+
+/**
+ * Clients used to be created with a limit of 0 when none was given, which now allows no credit. Once per
+ * database, those zeros become "no limit" so existing clients keep drawing credit; the audit row marks it done.
+ */
+export async function backfillUnsetCreditLimits(prisma: PrismaClient) {
+    return prisma.$transaction(async (tx) => {
+        const done = await tx.auditLog.findFirst({ where: { action: 'CREDIT_LIMIT_BACKFILL' } });
+        if (done) return { clients: 0 };
+
+        const cleared = await tx.client.updateMany({ where: { creditLimit: 0 }, data: { creditLimit: null } });
+        await tx.auditLog.create({
+            data: {
+                action: 'CREDIT_LIMIT_BACKFILL',
+                entityType: 'Client',
+                entityId: 0,
+                oldValues: JSON.stringify({ creditLimit: 0 }),
+                newValues: JSON.stringify({ creditLimit: null, clients: cleared.count }),
+                reason: 'A limit of 0 was the default for clients created without one'
+            }
+        });
+        return { clients: cleared.count };
+    });
+}
+
+/**
+ * Audit trail for over-limit credits: blocks, warnings, approval requests and decisions.
+ */
+export async function logCreditLimitEvent(db: Db, event: {
+    action: 'CREDIT_LIMIT_BLOCKED' | 'CREDIT_LIMIT_WARNING' | 'CREDIT_APPROVAL_REQUESTED' | 'CREDIT_APPROVAL_APPROVED' | 'CREDIT_APPROVAL_REJECTED';
+    entityType: 'Client' | 'ClientCredit' | 'CreditApproval';
+    entityId: number;
+    check?: CreditLimitCheck;
+    values?: Record<string, any>;
+    reason?: string;
+    userId?: number;
+}) {
+    await db.auditLog.create({
+        data: {
+            action: event.action,
+            entityType: event.entityType,
+            entityId: event.entityId,
+            newValues: JSON.stringify({ ...event.values, ...(event.check ?? {}) }),
+            reason: event.reason,
+            userId: event.userId
+        }
+    });
+}
+
+export interface CreditRequest {
+    clientId: number;
+    fuelTypeId: number;
+    litres: number;
+    pricePerLitre: number;
+    totalAmount: number;
+    date: Date;
+    note?: string | null;
+    status?: string;
+    paymentMethod?: string | null;
+    vehicleId?: number | null;
+    slipNo?: number | null;
+    slipSeries?: string | null;
+    slipBookId?: number | null; // Resolved from slipNo
+}
+
+/**
+ * Create a ClientCredit subject to the slip, the vehicle's rules and the client's credit limit policy.
+ * A bad slip or a vehicle that may not draw the credit rejects it before any limit check.
+ * Within limit or `warn`: the credit is created (warnings are audited). `block`: nothing is created.
+ * `approval`: a pending CreditApproval is queued instead of the credit.
+ * The limit is checked in the same transaction that creates the credit, with the client row locked.
+ */
+export async function requestClientCredit(prisma: PrismaClient, request: CreditRequest, userId?: number): Promise<
+    | { outcome: 'created'; credit: Prisma.ClientCreditGetPayload<{ include: { client: true; fuelType: true; vehicle: true } }>; check: CreditLimitCheck; warning?: string }
+    | { outcome: 'blocked'; check: CreditLimitCheck }
+    | { outcome: 'pending'; approval: Prisma.CreditApprovalGetPayload<{}>; check: CreditLimitCheck }
+    | { outcome: 'client_not_found' }
+    | { outcome: 'invalid_vehicle'; error: string }
+    | { outcome: 'invalid_slip'; error: string }
+> {
+    // Without a rate, the credit is priced at the price in force on its date
+    if (!(request.pricePerLitre > 0)) {
+        const pricePerLitre = await getPricePerLitreAt(prisma, request.fuelTypeId, tradingInstant(request.date));
+        request = { ...request, pricePerLitre };
+        if (!(request.totalAmount > 0)) request.totalAmount = Math.round(request.litres * pricePerLitre * 100) / 100;
+    }
+    if (request.slipNo !== undefined && request.slipNo !== null) {
+        const slip = await resolveSlip(prisma, { clientId: request.clientId, slipNo: request.slipNo, series: request.slipSeries });
+        if ('error' in slip) {
+            await logSlipRejection(prisma, { clientId: request.clientId, slipNo: request.slipNo, series: request.slipSeries, error: slip.error, userId });
+            return { outcome: 'invalid_slip', error: slip.error };
+        }
+        request = { ...request, slipBookId: slip.slipBookId };
+    }
+    if (request.vehicleId) {
+        const error = await checkVehicleForCredit(prisma, { ...request, vehicleId: request.vehicleId });
+        if (error) return { outcome: 'invalid_vehicle', error };
+    }
+
+    const values = { fuelTypeId: request.fuelTypeId, litres: request.litres, totalAmount: request.totalAmount };
+
+    return prisma.$transaction(async (tx) => {
+        // Lock the client, so a second credit for the same client is checked against this one's balance
+        const locked = await lockClient(tx, request.clientId);
+        if (!locked) return { outcome: 'client_not_found' as const };
+
+        // A credit settled on the spot adds nothing to what the client owes
+        const check = await checkCreditLimit(tx, request.clientId, request.status === 'paid' ? 0 : request.totalAmount);
+
+        if (!check.withinLimit && check.policy === 'block') {
+            await logCreditLimitEvent(tx, { action: 'CREDIT_LIMIT_BLOCKED', entityType: 'Client', entityId: request.clientId, check, values, userId });
+            return { outcome: 'blocked' as const, check };
+        }
+
+        if (!check.withinLimit && check.policy === 'approval') {
+            const approval = await tx.creditApproval.create({
+                data: {
+                    clientId: request.clientId,
+                    fuelTypeId: request.fuelTypeId,
+                    litres: request.litres,
+                    pricePerLitre: request.pricePerLitre,
+                    totalAmount: request.totalAmount,
+                    note: request.note,
+                    vehicleId: request.vehicleId,
+                    slipBookId: request.slipBookId,
+                    slipNo: request.slipBookId ? request.slipNo : null,
+                    balanceAtRequest: check.balance,
+                    creditLimit: check.creditLimit,
+                    requestedById: userId,
+                    date: request.date
+                }
+            });
+            await logCreditLimitEvent(tx, { action: 'CREDIT_APPROVAL_REQUESTED', entityType: 'CreditApproval', entityId: approval.id, check, values, userId });
+            return { outcome: 'pending' as const, approval, check };
+        }
+
+        const credit = await createLedgerCredit(tx, request);
+        if (!check.withinLimit) {
+            await logCreditLimitEvent(tx, { action: 'CREDIT_LIMIT_WARNING', entityType: 'ClientCredit', entityId: credit.id, check, values, userId });
+        }
+        return { outcome: 'created' as const, credit, check, warning: check.withinLimit ? undefined : check.message };
+    });
+}
+
+/**
+ * Take the client's row lock for the rest of the transaction, so limit checks for the same client run one
+ * after the other. False when the client does not exist.
+ */
+export async function lockClient(tx: Prisma.TransactionClient, clientId: number): Promise<boolean> {
+    const locked = await tx.client.updateMany({ where: { id: clientId }, data: { updatedAt: new Date() } });
+    return locked.count === 1;
+}
+
+/**
+ * Insert a credit and post it to the client ledger. Callers are responsible for the limit check.
+ */
+export async function createLedgerCredit(tx: Prisma.TransactionClient, request: CreditRequest) {
+    const credit = await tx.clientCredit.create({
+        data: {
+            clientId: request.clientId,
+            fuelTypeId: request.fuelTypeId,
+            litres: request.litres,
+            pricePerLitre: request.pricePerLitre,
+            totalAmount: request.totalAmount,
+            status: request.status || 'unpaid',
+            paymentMethod: request.paymentMethod,
+            note: request.note ?? '',
+            vehicleId: request.vehicleId,
+            slipBookId: request.slipBookId,
+            slipNo: request.slipBookId ? request.slipNo : null,
+            date: request.date
+        },
+        include: { client: true, fuelType: true, vehicle: true }
+    });
+
+    // A credit recorded as already paid is settled in the ledger straight away
+    if (credit.status === 'paid') {
+        await tx.clientPayment.create({
+            data: {
+                clientId: credit.clientId,
+                amount: credit.totalAmount,
+                paymentMethod: request.paymentMethod || 'CASH',
+                reference: `CR-${credit.id}`,
+                date: credit.date,
+                allocations: { create: [{ creditId: credit.id, amount: credit.totalAmount }] }
+            }
+        });
+        await tx.clientCredit.update({ where: { id: credit.id }, data: { paidAmount: credit.totalAmount, paidDate: credit.date } });
+    }
+
+    await refreshClientBalance(tx, credit.clientId);
+    return credit;
+}
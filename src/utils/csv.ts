@@ -0,0 +1,10 @@
+// Quote a CSV field when it contains a separator, quote or line break
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+    return [headers, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
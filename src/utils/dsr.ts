@@ -0,0 +1,280 @@
+import { PrismaClient } from '@prisma/client';
+import { getBookStockAt, getMeterSalesByTank, getReceiptsByTank } from './tank-stock';
+import { col, PdfLine, renderTextPdf } from './pdf';
+import { toCsv } from './csv';
+import { getTestingLitresByTank, soldLitres } from './pump-testing';
+import { STATION_NAME, formatDate, round2 } from './common';
+
+export interface DsrTankRow {
+    tankId: number;
+    tank: string;
+    fuelType: string;
+    openingStock: number;
+    openingSource: 'dip' | 'book'; // Previous closing dip, or book stock when the tank was not dipped
+    receipts: number;
+    meterSales: number;
+    testingLitres: number; // Dispensed for pump testing and returned to the tank
+    netSales: number;
+    closingBookStock: number;
+    dipStock: number | null;
+    variance: number | null; // Dip less book; positive = gain
+}
+
+export interface DsrNozzleRow {
+    pump: string;
+    nozzle: string | null; // null when the pump was read as a whole
+    tank: string;
+    fuelType: string;
+    openingTotalizer: number;
+    closingTotalizer: number;
+    litres: number;
+    testingLitres: number; // Recorded per pump, so on the pump's first row
+    rate: number;
+    amount: number;
+}
+
+export interface DailySalesReport {
+    date: string;
+    tanks: DsrTankRow[];
+    nozzles: DsrNozzleRow[];
+    fuelTypes: { fuelType: string; litres: number; amount: number }[];
+    generatedAt: Date;
+}
+
+/**
+ * The dealer's Daily Sales Report for one day: stock movement per tank and totalizers per nozzle.
+ */
+export async function buildDailySalesReport(prisma: PrismaClient, day: Date): Promise<DailySalesReport> {
+    const start = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    end.setMilliseconds(end.getMilliseconds() - 1);
+
+    const tanks = await prisma.tank.findMany({ where: { isActive: true }, include: { fuelType: true }, orderBy: { id: 'asc' } });
+    const [salesByTank, testingByTank, receiptsByTank, bookOpening, nozzleReadings, pumpReadings] = await Promise.all([
+        getMeterSalesByTank(prisma, start, end),
+        getTestingLitresByTank(prisma, start, end),
+        getReceiptsByTank(prisma, start, end),
+        getBookStockAt(prisma, tanks, start),
+        prisma.nozzleReading.findMany({
+            where: { date: { gte: start, lte: end } },
+            include: { nozzle: { include: { pump: true, tank: { include: { fuelType: true } } } } },
+            orderBy: [{ nozzleId: 'asc' }, { date: 'asc' }]
+        }),
+        prisma.dailyReading.findMany({
+            where: { date: { gte: start, lte: end } },
+            include: { pump: { include: { fuelType: true, tank: true } } },
+            orderBy: [{ pumpId: 'asc' }, { date: 'asc' }]
+        })
+    ]);
+
+    const tankRows: DsrTankRow[] = [];
+    for (const tank of tanks) {
+        const [openingDip, closingDip] = await Promise.all([
+            prisma.tankDip.findFirst({ where: { tankId: tank.id, date: { lt: start } }, orderBy: { date: 'desc' } }),
+            prisma.tankDip.findFirst({ where: { tankId: tank.id, date: { gte: start, lte: end } }, orderBy: { date: 'desc' } })
+        ]);
+        const openingStock = openingDip ? Number(openingDip.litres) : bookOpening[tank.id];
+        const receipts = receiptsByTank[tank.id] || 0;
+        // Meter sales by tank are already net of testing, which went back into the tank
+        const testingLitres = testingByTank[tank.id] || 0;
+        const netSales = salesByTank[tank.id] || 0;
+        const meterSales = netSales + testingLitres;
+        const closingBookStock = openingStock + receipts - netSales;
+        const dipStock = closingDip ? Number(closingDip.litres) : null;
+
+        tankRows.push({
+            tankId: tank.id,
+            tank: tank.name,
+            fuelType: tank.fuelType.name,
+            openingStock: round2(openingStock),
+            openingSource: openingDip ? 'dip' : 'book',
+            receipts: round2(receipts),
+            meterSales: round2(meterSales),
+            testingLitres: round2(testingLitres),
+            netSales: round2(netSales),
+            closingBookStock: round2(closingBookStock),
+            dipStock,
+            variance: dipStock !== null ? round2(dipStock - closingBookStock) : null
+        });
+    }
+
+    const testingByPump = new Map(pumpReadings.map(r => [`${r.pumpId}_${r.date.toISOString()}`, Number(r.testingLitres)]));
+    const nozzleRows: DsrNozzleRow[] = nozzleReadings.map(r => {
+        const key = `${r.nozzle.pumpId}_${r.date.toISOString()}`;
+        const testingLitres = testingByPump.get(key) || 0;
+        testingByPump.delete(key);
+        const litres = Number(r.closingTotalizer) - Number(r.openingTotalizer);
+        return {
+            pump: r.nozzle.pump.name,
+            nozzle: r.nozzle.name,
+            tank: r.nozzle.tank.name,
+            fuelType: r.nozzle.tank.fuelType.name,
+            openingTotalizer: Number(r.openingTotalizer),
+            closingTotalizer: Number(r.closingTotalizer),
+            litres: round2(litres),
+            testingLitres: round2(testingLitres),
+            rate: Number(r.pricePerLitre),
+            amount: round2((litres - testingLitres) * Number(r.pricePerLitre))
+        };
+    });
+    // Pumps read as a whole, where no nozzle readings were taken for that reading
+    const readNozzles = new Set(nozzleReadings.map(r => `${r.nozzle.pumpId}_${r.date.toISOString()}`));
+    for (const r of pumpReadings) {
+        if (readNozzles.has(`${r.pumpId}_${r.date.toISOString()}`)) continue;
+        const litres = Number(r.closingLitres) - Number(r.openingLitres);
+        nozzleRows.push({
+            pump: r.pump.name,
+            nozzle: null,
+            tank: r.pump.tank?.name ?? '',
+            fuelType: r.pump.fuelType.name,
+            openingTotalizer: Number(r.openingLitres),
+            closingTotalizer: Number(r.closingLitres),
+            litres: round2(litres),
+            testingLitres: round2(Number(r.testingLitres)),
+            rate: Number(r.pricePerLitre),
+            amount: round2(soldLitres(r) * Number(r.pricePerLitre))
+        });
+    }
+
+    const fuelTypes: Record<string, { fuelType: string; litres: number; amount: number }> = {};
+    for (const n of nozzleRows) {
+        if (!fuelTypes[n.fuelType]) fuelTypes[n.fuelType] = { fuelType: n.fuelType, litres: 0, amount: 0 };
+        fuelTypes[n.fuelType].litres = round2(fuelTypes[n.fuelType].litres + n.litres - n.testingLitres);
+        fuelTypes[n.fuelType].amount = round2(fuelTypes[n.fuelType].amount + n.amount);
+    }
+
+    return {
+        date: formatDate(start),
+        tanks: tankRows,
+        nozzles: nozzleRows,
+        fuelTypes: Object.values(fuelTypes),
+        generatedAt: new Date()
+    };
+}
+
+/**
+ * Month roll-up: each day's DSR, and per tank the month's opening and closing stock with totals in between.
+ */
+export async function buildMonthlyDsr(prisma: PrismaClient, year: number, month: number) {
+    const last = new Date(year, month + 1, 0).getDate();
+    const today = new Date();
+    const days: DailySalesReport[] = [];
+    for (let d = 1; d <= last; d++) {
+        const day = new Date(year, month, d);
+        if (day > today) break;
+        days.push(await buildDailySalesReport(prisma, day));
+    }
+
+    const tanks: Record<number, any> = {};
+    for (const report of days) {
+        for (const row of report.tanks) {
+            if (!tanks[row.tankId]) {
+                tanks[row.tankId] = {
+                    tankId: row.tankId,
+                    tank: row.tank,
+                    fuelType: row.fuelType,
+                    openingStock: row.openingStock,
+                    receipts: 0,
+                    meterSales: 0,
+                    testingLitres: 0,
+                    netSales: 0,
+                    closingBookStock: row.closingBookStock,
+                    lastDipStock: null,
+                    variance: 0
+                };
+            }
+            const t = tanks[row.tankId];
+            t.receipts = round2(t.receipts + row.receipts);
+            t.meterSales = round2(t.meterSales + row.meterSales);
+            t.testingLitres = round2(t.testingLitres + row.testingLitres);
+            t.netSales = round2(t.netSales + row.netSales);
+            t.closingBookStock = row.closingBookStock;
+            if (row.dipStock !== null) t.lastDipStock = row.dipStock;
+            if (row.variance !== null) t.variance = round2(t.variance + row.variance);
+        }
+    }
+
+    return {
+        month: `${year}-${String(month + 1).padStart(2, '0')}`,
+        tanks: Object.values(tanks),
+        days: days.map(d => ({ date: d.date, tanks: d.tanks, fuelTypes: d.fuelTypes }))
+    };
+}
+
+export type MonthlyDsr = Awaited<ReturnType<typeof buildMonthlyDsr>>;
+
+const litresText = (n: number | null) => n === null ? '-' : n.toFixed(2);
+
+export function renderDsrPdf(report: DailySalesReport): Buffer {
+    const rule = '-'.repeat(96);
+    const lines: (string | PdfLine)[] = [
+        { text: STATION_NAME, bold: true, size: 14 },
+        { text: `Daily Sales Report - ${report.date}`, bold: true },
+        '',
+        { text: 'Tank stock (litres)', bold: true },
+        rule,
+        { text: `${col('Tank', 12)}${col('Fuel', 10)}${col('Opening', 10, 'right')}${col('Receipts', 10, 'right')}${col('Sales', 10, 'right')}`
+            + `${col('Testing', 9, 'right')}${col('Book', 11, 'right')}${col('Dip', 11, 'right')}${col('Variance', 10, 'right')}`, bold: true },
+        rule,
+        ...report.tanks.map(t =>
+            `${col(t.tank, 12)}${col(t.fuelType, 10)}${col(litresText(t.openingStock) + (t.openingSource === 'book' ? '*' : ''), 10, 'right')}`
+            + `${col(litresText(t.receipts), 10, 'right')}${col(litresText(t.meterSales), 10, 'right')}${col(litresText(t.testingLitres), 9, 'right')}`
+            + `${col(litresText(t.closingBookStock), 11, 'right')}${col(litresText(t.dipStock), 11, 'right')}${col(litresText(t.variance), 10, 'right')}`),
+        rule,
+        '* No dip the day before; opening is book stock',
+        '',
+        { text: 'Nozzle totalizers', bold: true },
+        rule,
+        { text: `${col('Pump', 10)}${col('Nozzle', 10)}${col('Tank', 10)}${col('Opening', 13, 'right')}${col('Closing', 13, 'right')}`
+            + `${col('Litres', 10, 'right')}${col('Testing', 9, 'right')}${col('Rate', 8, 'right')}${col('Amount', 13, 'right')}`, bold: true },
+        rule,
+        ...report.nozzles.map(n =>
+            `${col(n.pump, 10)}${col(n.nozzle ?? '(pump)', 10)}${col(n.tank, 10)}${col(n.openingTotalizer.toFixed(2), 13, 'right')}`
+            + `${col(n.closingTotalizer.toFixed(2), 13, 'right')}${col(n.litres.toFixed(2), 10, 'right')}${col(n.testingLitres.toFixed(2), 9, 'right')}`
+            + `${col(n.rate.toFixed(2), 8, 'right')}${col(n.amount.toFixed(2), 13, 'right')}`),
+        ...(report.nozzles.length === 0 ? ['No meter readings for this day'] : []),
+        rule,
+        '',
+        { text: 'Sales by product', bold: true },
+        ...report.fuelTypes.map(f => `${col(f.fuelType, 20)}${col(f.litres.toFixed(2), 12, 'right')} L${col(f.amount.toFixed(2), 16, 'right')}`),
+        '',
+        `Generated ${report.generatedAt.toLocaleString()}`
+    ];
+    return renderTextPdf(lines, { title: `DSR ${report.date}` });
+}
+
+// Tank section, a blank line, then the nozzle section
+export function renderDsrCsv(report: DailySalesReport): string {
+    const tanks = toCsv(
+        ['Date', 'Tank', 'Fuel type', 'Opening stock', 'Opening source', 'Receipts', 'Meter sales', 'Testing', 'Net sales', 'Closing book stock', 'Dip stock', 'Variance'],
+        report.tanks.map(t => [
+            report.date, t.tank, t.fuelType, t.openingStock.toFixed(2), t.openingSource, t.receipts.toFixed(2), t.meterSales.toFixed(2),
+            t.testingLitres.toFixed(2), t.netSales.toFixed(2), t.closingBookStock.toFixed(2), t.dipStock ?? '', t.variance ?? ''
+        ])
+    );
+    const nozzles = toCsv(
+        ['Date', 'Pump', 'Nozzle', 'Tank', 'Fuel type', 'Opening totalizer', 'Closing totalizer', 'Litres', 'Testing', 'Rate', 'Amount'],
+        report.nozzles.map(n => [
+            report.date, n.pump, n.nozzle ?? '', n.tank, n.fuelType, n.openingTotalizer.toFixed(2), n.closingTotalizer.toFixed(2),
+            n.litres.toFixed(2), n.testingLitres.toFixed(2), n.rate.toFixed(2), n.amount.toFixed(2)
+        ])
+    );
+    return `${tanks}\n\n${nozzles}`;
+}
+
+export function renderMonthlyDsrCsv(monthly: MonthlyDsr): string {
+    return toCsv(
+        ['Date', 'Tank', 'Fuel type', 'Opening stock', 'Receipts', 'Meter sales', 'Testing', 'Net sales', 'Closing book stock', 'Dip stock', 'Variance'],
+        [
+            ...monthly.days.flatMap(d => d.tanks.map(t => [
+                d.date, t.tank, t.fuelType, t.openingStock.toFixed(2), t.receipts.toFixed(2), t.meterSales.toFixed(2), t.testingLitres.toFixed(2),
+                t.netSales.toFixed(2), t.closingBookStock.toFixed(2), t.dipStock ?? '', t.variance ?? ''
+            ])),
+            ...monthly.tanks.map(t => [
+                `${monthly.month} total`, t.tank, t.fuelType, t.openingStock.toFixed(2), t.receipts.toFixed(2), t.meterSales.toFixed(2), t.testingLitres.toFixed(2),
+                t.netSales.toFixed(2), t.closingBookStock.toFixed(2), t.lastDipStock ?? '', t.variance.toFixed(2)
+            ])
+        ]
+    );
+}
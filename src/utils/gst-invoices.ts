@@ -0,0 +1,266 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { col, PdfLine, renderTextPdf } from './pdf';
+import { STATION_NAME, round2 } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Seller details printed on invoices and sent in the e-invoice
+export const STATION_GSTIN = (process.env.STATION_GSTIN || '').toUpperCase();
+export const STATION_ADDRESS = process.env.STATION_ADDRESS || '';
+export const STATION_CITY = process.env.STATION_CITY || '';
+export const STATION_PINCODE = process.env.STATION_PINCODE || '';
+export const GST_INVOICE_PREFIX = process.env.GST_INVOICE_PREFIX || 'INV';
+
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+export type GstInvoiceWithDetails = Prisma.GstInvoiceGetPayload<{ include: { client: true; lines: true } }>;
+
+// Upper-cased GSTIN, null when blank; undefined when the value is not a valid GSTIN
+export function normaliseGstin(value: unknown): string | null | undefined {
+    if (value === null || value === undefined || String(value).trim() === '') return null;
+    const gstin = String(value).replace(/\s+/g, '').toUpperCase();
+    return GSTIN_PATTERN.test(gstin) ? gstin : undefined;
+}
+
+// The first two digits of a GSTIN are the state code
+export function stateCodeOf(gstin: string): string {
+    return gstin.slice(0, 2);
+}
+
+// Indian financial year (April to March) a date falls in, e.g. 2026-27
+export function financialYear(date: Date): string {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+export function gstInvoiceNumber(fy: string, sequence: number): string {
+    return `${GST_INVOICE_PREFIX}/${fy.slice(2)}/${String(sequence).padStart(5, '0')}`;
+}
+
+/**
+ * Split a tax-inclusive amount into taxable value and GST. Intra-state supplies split the tax
+ * equally into CGST and SGST; inter-state supplies carry it all as IGST.
+ */
+export function splitGst(inclusiveAmount: number, ratePercent: number, supplyType: 'intra' | 'inter') {
+    const taxableValue = round2(inclusiveAmount * 100 / (100 + ratePercent));
+    const tax = round2(inclusiveAmount - taxableValue);
+    const cgst = supplyType === 'intra' ? round2(tax / 2) : 0;
+    const sgst = supplyType === 'intra' ? round2(tax - cgst) : 0;
+    return { taxableValue, cgst, sgst, igst: supplyType === 'inter' ? tax : 0, total: round2(taxableValue + tax) };
+}
+
+/**
+ * Issue a tax invoice for a client's credit sales: `creditIds`, or every uninvoiced credit dated in `range`.
+ * The number is taken from the financial year's sequence inside the same transaction, so a failed
+ * invoice never uses up a number.
+ */
+export async function issueGstInvoice(prisma: PrismaClient, request: {
+    clientId: number;
+    creditIds?: number[];
+    range?: { start: Date; end: Date };
+    date?: Date;
+    userId?: number;
+}): Promise<{ invoice: GstInvoiceWithDetails } | { error: string }> {
+    if (!STATION_GSTIN) return { error: 'Set STATION_GSTIN before issuing GST invoices' };
+
+    const client = await prisma.client.findUnique({ where: { id: request.clientId } });
+    if (!client) return { error: 'Client not found' };
+
+    const credits = await prisma.clientCredit.findMany({
+        where: {
+            clientId: client.id,
+            ...(request.creditIds ? { id: { in: request.creditIds } } : {}),
+            ...(request.range ? { date: { gte: request.range.start, lte: request.range.end } } : {})
+        },
+        include: { fuelType: true, vehicle: { select: { registrationNo: true } } },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+    if (request.creditIds) {
+        const found = new Set(credits.map(c => c.id));
+        const missing = request.creditIds.filter(id => !found.has(id));
+        if (missing.length > 0) return { error: `Credits not found for this client: ${missing.map(id => `CR-${id}`).join(', ')}` };
+        const invoiced = credits.filter(c => c.gstInvoiceId !== null);
+        if (invoiced.length > 0) return { error: `Already invoiced: ${invoiced.map(c => `CR-${c.id}`).join(', ')}` };
+    }
+    const toInvoice = credits.filter(c => c.gstInvoiceId === null);
+    if (toInvoice.length === 0) return { error: 'No uninvoiced credit sales to invoice' };
+
+    const supplyType = client.gstin && stateCodeOf(client.gstin) !== stateCodeOf(STATION_GSTIN) ? 'inter' : 'intra';
+    const lines = toInvoice.map(c => {
+        const rate = Number(c.fuelType.gstRatePercent);
+        const litres = Number(c.litres);
+        const split = splitGst(Number(c.totalAmount), rate, supplyType);
+        const vehicle = c.vehicle ? ` (${c.vehicle.registrationNo})` : '';
+        return {
+            description: `${c.fuelType.name} CR-${c.id} ${c.date.toISOString().slice(0, 10)}${vehicle}`,
+            hsnCode: c.fuelType.hsnCode,
+            litres,
+            unitPrice: litres > 0 ? round3(split.taxableValue / litres) : 0,
+            gstRatePercent: rate,
+            ...split,
+            clientCreditId: c.id,
+            fuelTypeId: c.fuelTypeId
+        };
+    });
+    const sum = (key: 'taxableValue' | 'cgst' | 'sgst' | 'igst' | 'total') => round2(lines.reduce((s, l) => s + l[key], 0));
+
+    const date = request.date ?? new Date();
+    const fy = financialYear(date);
+
+    const invoice = await prisma.$transaction(async (tx) => {
+        const { lastNumber } = await tx.gstInvoiceSequence.upsert({
+            where: { financialYear: fy },
+            create: { financialYear: fy, lastNumber: 1 },
+            update: { lastNumber: { increment: 1 } }
+        });
+
+        const created = await tx.gstInvoice.create({
+            data: {
+                invoiceNo: gstInvoiceNumber(fy, lastNumber),
+                financialYear: fy,
+                sequence: lastNumber,
+                supplyType,
+                buyerGstin: client.gstin,
+                placeOfSupply: client.gstin ? stateCodeOf(client.gstin) : stateCodeOf(STATION_GSTIN),
+                taxableValue: sum('taxableValue'),
+                cgst: sum('cgst'),
+                sgst: sum('sgst'),
+                igst: sum('igst'),
+                totalAmount: sum('total'),
+                clientId: client.id,
+                createdById: request.userId,
+                date,
+                lines: { create: lines }
+            },
+            include: { client: true, lines: { orderBy: { id: 'asc' } } }
+        });
+
+        // Guards against the same credit being invoiced by two requests at once
+        const claimed = await tx.clientCredit.updateMany({
+            where: { id: { in: toInvoice.map(c => c.id) }, gstInvoiceId: null },
+            data: { gstInvoiceId: created.id }
+        });
+        if (claimed.count !== toInvoice.length) throw new Error('Some of these credits were invoiced meanwhile; try again');
+
+        await tx.auditLog.create({
+            data: {
+                action: 'GST_INVOICE_ISSUE',
+                entityType: 'GstInvoice',
+                entityId: created.id,
+                newValues: JSON.stringify({ invoiceNo: created.invoiceNo, creditIds: toInvoice.map(c => c.id), totalAmount: sum('total') }),
+                userId: request.userId
+            }
+        });
+        return created;
+    });
+
+    return { invoice };
+}
+
+export function getGstInvoice(db: Db, id: number) {
+    return db.gstInvoice.findUnique({
+        where: { id },
+        include: { client: true, lines: { orderBy: { id: 'asc' } } }
+    });
+}
+
+function formatInvoiceDate(date: Date): string {
+    return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+const money = (n: Prisma.Decimal | number) => Number(n).toFixed(2);
+
+/**
+ * The invoice in the government e-invoice schema (version 1.1), ready for the IRP.
+ * Only B2B invoices, i.e. clients with a GSTIN, can be reported.
+ */
+export function buildEInvoiceJson(invoice: GstInvoiceWithDetails) {
+    const { client } = invoice;
+    return {
+        Version: '1.1',
+        TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+        DocDtls: { Typ: 'INV', No: invoice.invoiceNo, Dt: formatInvoiceDate(invoice.date) },
+        SellerDtls: {
+            Gstin: STATION_GSTIN,
+            LglNm: STATION_NAME,
+            Addr1: STATION_ADDRESS,
+            Loc: STATION_CITY,
+            Pin: Number(STATION_PINCODE) || undefined,
+            Stcd: stateCodeOf(STATION_GSTIN)
+        },
+        BuyerDtls: {
+            Gstin: invoice.buyerGstin,
+            LglNm: client.name,
+            Pos: invoice.placeOfSupply,
+            Addr1: client.address || '',
+            Loc: '',
+            Stcd: invoice.placeOfSupply
+        },
+        ItemList: invoice.lines.map((line, i) => ({
+            SlNo: String(i + 1),
+            PrdDesc: line.description,
+            IsServc: 'N',
+            HsnCd: line.hsnCode,
+            Qty: Number(line.litres),
+            Unit: 'LTR',
+            UnitPrice: Number(line.unitPrice),
+            TotAmt: Number(line.taxableValue),
+            Discount: 0,
+            AssAmt: Number(line.taxableValue),
+            GstRt: Number(line.gstRatePercent),
+            IgstAmt: Number(line.igst),
+            CgstAmt: Number(line.cgst),
+            SgstAmt: Number(line.sgst),
+            TotItemVal: Number(line.total)
+        })),
+        ValDtls: {
+            AssVal: Number(invoice.taxableValue),
+            CgstVal: Number(invoice.cgst),
+            SgstVal: Number(invoice.sgst),
+            IgstVal: Number(invoice.igst),
+            TotInvVal: Number(invoice.totalAmount)
+        }
+    };
+}
+
+export function renderGstInvoicePdf(invoice: GstInvoiceWithDetails): Buffer {
+    const { client } = invoice;
+    const rule = '-'.repeat(96);
+    const intra = invoice.supplyType === 'intra';
+    const lines: (string | PdfLine)[] = [
+        { text: STATION_NAME, bold: true, size: 14 },
+        ...(STATION_ADDRESS ? [[STATION_ADDRESS, STATION_CITY, STATION_PINCODE].filter(Boolean).join(', ')] : []),
+        `GSTIN: ${STATION_GSTIN}`,
+        '',
+        { text: invoice.status === 'cancelled' ? 'TAX INVOICE (CANCELLED)' : 'TAX INVOICE', bold: true, size: 12 },
+        `${col('Invoice no', 16)}${invoice.invoiceNo}`,
+        `${col('Date', 16)}${formatInvoiceDate(invoice.date)}`,
+        `${col('Place of supply', 16)}${invoice.placeOfSupply}`,
+        ...(invoice.irn ? [`${col('IRN', 16)}${invoice.irn}`] : []),
+        '',
+        { text: 'Bill to', bold: true },
+        client.name,
+        ...(client.address ? [client.address] : []),
+        `GSTIN: ${invoice.buyerGstin || 'Unregistered'}`,
+        '',
+        rule,
+        { text: `${col('#', 3)}${col('Description', 34)}${col('HSN', 9)}${col('Litres', 10, 'right')}${col('Rate', 9, 'right')}${col('Taxable', 12, 'right')}${col('GST%', 6, 'right')}${col('Total', 13, 'right')}`, bold: true },
+        rule,
+        ...invoice.lines.map((l, i) =>
+            `${col(i + 1, 3)}${col(l.description, 34)}${col(l.hsnCode || '', 9)}${col(Number(l.litres).toFixed(2), 10, 'right')}`
+            + `${col(Number(l.unitPrice).toFixed(3), 9, 'right')}${col(money(l.taxableValue), 12, 'right')}${col(Number(l.gstRatePercent), 6, 'right')}${col(money(l.total), 13, 'right')}`),
+        rule,
+        `${col('Taxable value', 30)}${col(money(invoice.taxableValue), 16, 'right')}`,
+        ...(intra
+            ? [`${col('CGST', 30)}${col(money(invoice.cgst), 16, 'right')}`, `${col('SGST', 30)}${col(money(invoice.sgst), 16, 'right')}`]
+            : [`${col('IGST', 30)}${col(money(invoice.igst), 16, 'right')}`]),
+        { text: `${col('Invoice total', 30)}${col(money(invoice.totalAmount), 16, 'right')}`, bold: true },
+        ...(invoice.status === 'cancelled' && invoice.cancelReason ? ['', `Cancelled: ${invoice.cancelReason}`] : []),
+        '',
+        'Prices are inclusive of GST.'
+    ];
+
+    return renderTextPdf(lines, { title: `Invoice ${invoice.invoiceNo}` });
+}
@@ -0,0 +1,394 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { splitGst, STATION_GSTIN, stateCodeOf } from './gst-invoices';
+import { toCsv } from './csv';
+import { round2 } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// GST state codes, used for the place of supply in the offline tool's CSV layout
+const STATE_NAMES: Record<string, string> = {
+    '01': 'Jammu & Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh', '05': 'Uttarakhand',
+    '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh', '10': 'Bihar', '11': 'Sikkim',
+    '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya',
+    '18': 'Assam', '19': 'West Bengal', '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh',
+    '24': 'Gujarat', '26': 'Dadra & Nagar Haveli & Daman & Diu', '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa',
+    '31': 'Lakshdweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry', '35': 'Andaman & Nicobar Islands',
+    '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh', '97': 'Other Territory'
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface TaxAmounts {
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total: number;
+}
+
+// One taxable line: an invoice line, an uninvoiced credit sale or a counter sale
+export interface OutwardSupply extends TaxAmounts {
+    source: 'invoice' | 'credit' | 'sale';
+    reference: string;
+    date: Date;
+    fuelType: string;
+    hsnCode: string | null;
+    litres: number;
+    ratePercent: number;
+    b2b: boolean;
+    gstin: string | null;
+    placeOfSupply: string;
+}
+
+export interface InwardSupply extends TaxAmounts {
+    purchaseId: number;
+    invoiceNo: string | null;
+    date: Date;
+    supplier: string;
+    supplierGstin: string | null;
+    fuelType: string;
+    ratePercent: number;
+    itcEligible: boolean;
+}
+
+export interface TaxFlag {
+    type: 'missing_station_gstin' | 'missing_gstin' | 'missing_hsn' | 'uninvoiced_b2b_credit' | 'missing_supplier_gstin';
+    reference: string;
+    message: string;
+}
+
+// Tax period for a YYYY-MM month; `fp` is the MMYYYY period code used by the returns
+export function taxPeriod(month: string): { start: Date; end: Date; fp: string } | null {
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+    const year = Number(match[1]);
+    const monthIndex = Number(match[2]) - 1;
+    return {
+        start: new Date(year, monthIndex, 1),
+        end: new Date(year, monthIndex + 1, 0, 23, 59, 59, 999),
+        fp: `${match[2]}${match[1]}`
+    };
+}
+
+function sumAmounts<T extends TaxAmounts>(rows: T[]): TaxAmounts {
+    return rows.reduce((t, r) => ({
+        taxableValue: round2(t.taxableValue + r.taxableValue),
+        cgst: round2(t.cgst + r.cgst),
+        sgst: round2(t.sgst + r.sgst),
+        igst: round2(t.igst + r.igst),
+        total: round2(t.total + r.total)
+    }), { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, total: 0 });
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const row of rows) {
+        const k = key(row);
+        groups.set(k, [...(groups.get(k) ?? []), row]);
+    }
+    return groups;
+}
+
+/**
+ * Outward and inward supplies for a tax period, grouped the way GSTR-1 and GSTR-3B need them.
+ * Credits on an issued invoice are reported through the invoice (by invoice date); credits not yet
+ * invoiced and counter sales are B2C by their own date. Prices include GST, so tax is taken out of totals.
+ */
+export async function buildTaxSummary(db: Db, start: Date, end: Date) {
+    const stationState = STATION_GSTIN ? stateCodeOf(STATION_GSTIN) : '';
+    const flags: TaxFlag[] = [];
+    if (!STATION_GSTIN) {
+        flags.push({ type: 'missing_station_gstin', reference: 'STATION_GSTIN', message: 'Station GSTIN is not set; returns cannot be filed' });
+    }
+
+    const [invoices, credits, sales, purchases] = await Promise.all([
+        db.gstInvoice.findMany({
+            where: { status: 'issued', date: { gte: start, lte: end } },
+            include: { client: { select: { name: true } }, lines: { orderBy: { id: 'asc' } } },
+            orderBy: [{ financialYear: 'asc' }, { sequence: 'asc' }]
+        }),
+        db.clientCredit.findMany({
+            where: { date: { gte: start, lte: end }, OR: [{ gstInvoiceId: null }, { gstInvoice: { status: 'cancelled' } }] },
+            include: { fuelType: true, client: { select: { name: true, gstin: true } } },
+            orderBy: { date: 'asc' }
+        }),
+        // Credit sales are covered by their ClientCredit
+        db.sale.findMany({
+            where: { createdAt: { gte: start, lte: end }, paymentMethod: { not: 'CREDIT' } },
+            include: { fuelType: true },
+            orderBy: { createdAt: 'asc' }
+        }),
+        db.purchase.findMany({
+            where: { OR: [{ invoiceDate: { gte: start, lte: end } }, { invoiceDate: null, date: { gte: start, lte: end } }] },
+            include: { tank: { include: { fuelType: true } }, supplierAccount: { select: { name: true, gstin: true } } },
+            orderBy: { date: 'asc' }
+        })
+    ]);
+    const fuelTypeNames = new Map((await db.fuelType.findMany()).map(f => [f.id, f.name]));
+
+    const outward: OutwardSupply[] = [];
+    for (const invoice of invoices) {
+        if (!invoice.buyerGstin) {
+            flags.push({ type: 'missing_gstin', reference: invoice.invoiceNo, message: `${invoice.client.name} had no GSTIN when invoiced; reported as B2C` });
+        }
+        for (const line of invoice.lines) {
+            if (!line.hsnCode) {
+                flags.push({ type: 'missing_hsn', reference: invoice.invoiceNo, message: `Line "${line.description}" has no HSN code` });
+            }
+            outward.push({
+                source: 'invoice',
+                reference: invoice.invoiceNo,
+                date: invoice.date,
+                fuelType: fuelTypeNames.get(line.fuelTypeId) || '',
+                hsnCode: line.hsnCode,
+                litres: Number(line.litres),
+                ratePercent: Number(line.gstRatePercent),
+                b2b: !!invoice.buyerGstin,
+                gstin: invoice.buyerGstin,
+                placeOfSupply: invoice.placeOfSupply,
+                taxableValue: Number(line.taxableValue),
+                cgst: Number(line.cgst),
+                sgst: Number(line.sgst),
+                igst: Number(line.igst),
+                total: Number(line.total)
+            });
+        }
+    }
+
+    const uninvoiced = [
+        ...credits.map(c => ({ source: 'credit' as const, reference: `CR-${c.id}`, date: c.date, fuelType: c.fuelType, litres: Number(c.litres), amount: Number(c.totalAmount) })),
+        ...sales.map(s => ({ source: 'sale' as const, reference: `SALE-${s.id}`, date: s.createdAt, fuelType: s.fuelType, litres: Number(s.litres), amount: Number(s.totalAmount) }))
+    ];
+    for (const c of credits.filter(c => c.client.gstin)) {
+        flags.push({ type: 'uninvoiced_b2b_credit', reference: `CR-${c.id}`, message: `Credit to registered client ${c.client.name} has no tax invoice; reported as B2C` });
+    }
+    for (const row of uninvoiced) {
+        const rate = Number(row.fuelType.gstRatePercent);
+        outward.push({
+            source: row.source,
+            reference: row.reference,
+            date: row.date,
+            fuelType: row.fuelType.name,
+            hsnCode: row.fuelType.hsnCode,
+            litres: row.litres,
+            ratePercent: rate,
+            b2b: false,
+            gstin: null,
+            placeOfSupply: stationState,
+            ...splitGst(row.amount, rate, 'intra')
+        });
+    }
+    for (const name of new Set(outward.filter(o => o.source !== 'invoice' && !o.hsnCode).map(o => o.fuelType))) {
+        flags.push({ type: 'missing_hsn', reference: name, message: `Fuel type ${name} has no HSN code` });
+    }
+
+    const inward: InwardSupply[] = purchases.map(p => {
+        const supplierGstin = p.supplierAccount?.gstin ? p.supplierAccount.gstin.toUpperCase() : null;
+        const rate = Number(p.tank.fuelType.gstRatePercent);
+        const supplyType = supplierGstin && stationState && stateCodeOf(supplierGstin) !== stationState ? 'inter' : 'intra';
+        if (!supplierGstin && rate > 0) {
+            flags.push({
+                type: 'missing_supplier_gstin',
+                reference: p.invoiceNo || `PUR-${p.id}`,
+                message: `Purchase from ${p.supplierAccount?.name || p.supplier || 'unknown supplier'} has no supplier GSTIN; input tax not claimed`
+            });
+        }
+        return {
+            purchaseId: p.id,
+            invoiceNo: p.invoiceNo,
+            date: p.invoiceDate ?? p.date,
+            supplier: p.supplierAccount?.name || p.supplier || '',
+            supplierGstin,
+            fuelType: p.tank.fuelType.name,
+            ratePercent: rate,
+            itcEligible: !!supplierGstin && rate > 0,
+            ...splitGst(Number(p.invoiceAmount ?? p.totalCost), rate, supplyType)
+        };
+    });
+
+    const byRate = Array.from(groupBy(outward, o => `${o.b2b ? 'b2b' : 'b2c'}_${o.ratePercent}`).values())
+        .map(rows => ({ type: rows[0].b2b ? 'B2B' : 'B2C', ratePercent: rows[0].ratePercent, litres: round2(rows.reduce((s, r) => s + r.litres, 0)), ...sumAmounts(rows) }))
+        .sort((a, b) => a.type.localeCompare(b.type) || a.ratePercent - b.ratePercent);
+    const hsn = Array.from(groupBy(outward, o => `${o.hsnCode ?? ''}_${o.ratePercent}`).values())
+        .map(rows => ({
+            hsnCode: rows[0].hsnCode,
+            description: Array.from(new Set(rows.map(r => r.fuelType))).join(', '),
+            ratePercent: rows[0].ratePercent,
+            litres: round2(rows.reduce((s, r) => s + r.litres, 0)),
+            ...sumAmounts(rows)
+        }))
+        .sort((a, b) => (a.hsnCode ?? '').localeCompare(b.hsnCode ?? '') || a.ratePercent - b.ratePercent);
+    const itcByRate = Array.from(groupBy(inward.filter(i => i.itcEligible), i => String(i.ratePercent)).values())
+        .map(rows => ({ ratePercent: rows[0].ratePercent, ...sumAmounts(rows) }))
+        .sort((a, b) => a.ratePercent - b.ratePercent);
+
+    return {
+        gstin: STATION_GSTIN || null,
+        start,
+        end,
+        outward: {
+            byRate,
+            b2bInvoices: invoices.filter(i => i.buyerGstin).map(i => ({
+                invoiceNo: i.invoiceNo,
+                date: i.date,
+                gstin: i.buyerGstin,
+                client: i.client.name,
+                placeOfSupply: i.placeOfSupply,
+                totalAmount: Number(i.totalAmount),
+                items: Array.from(groupBy(outward.filter(o => o.reference === i.invoiceNo), o => String(o.ratePercent)).values())
+                    .map(rows => ({ ratePercent: rows[0].ratePercent, ...sumAmounts(rows) }))
+            })),
+            hsn,
+            totals: sumAmounts(outward),
+            supplies: outward
+        },
+        inward: {
+            itcByRate,
+            itcTotals: sumAmounts(inward.filter(i => i.itcEligible)),
+            purchases: inward
+        },
+        flags
+    };
+}
+
+export type TaxSummary = Awaited<ReturnType<typeof buildTaxSummary>>;
+
+function formatReturnDate(date: Date): string {
+    return `${String(date.getDate()).padStart(2, '0')}-${String(date.getMonth() + 1).padStart(2, '0')}-${date.getFullYear()}`;
+}
+
+// The offline tool's CSV templates spell the month out, e.g. 05-Oct-2026
+function formatCsvDate(date: Date): string {
+    return `${String(date.getDate()).padStart(2, '0')}-${MONTHS[date.getMonth()]}-${date.getFullYear()}`;
+}
+
+function placeOfSupplyLabel(code: string): string {
+    return STATE_NAMES[code] ? `${code}-${STATE_NAMES[code]}` : code;
+}
+
+// GSTR-1 in the JSON layout the offline tool imports: B2B invoices, B2C (small) by rate and the HSN summary
+export function buildGstr1Json(summary: TaxSummary, fp: string) {
+    const b2cs = summary.outward.byRate.filter(r => r.type === 'B2C');
+    return {
+        gstin: summary.gstin,
+        fp,
+        b2b: Array.from(groupBy(summary.outward.b2bInvoices, i => i.gstin!).entries()).map(([ctin, invoices]) => ({
+            ctin,
+            inv: invoices.map(i => ({
+                inum: i.invoiceNo,
+                idt: formatReturnDate(i.date),
+                val: i.totalAmount,
+                pos: i.placeOfSupply,
+                rchrg: 'N',
+                inv_typ: 'R',
+                itms: i.items.map((item, n) => ({
+                    num: n + 1,
+                    itm_det: { txval: item.taxableValue, rt: item.ratePercent, iamt: item.igst, camt: item.cgst, samt: item.sgst, csamt: 0 }
+                }))
+            }))
+        })),
+        b2cs: b2cs.map(r => ({
+            sply_ty: r.igst > 0 ? 'INTER' : 'INTRA',
+            pos: summary.gstin ? stateCodeOf(summary.gstin) : '',
+            typ: 'OE',
+            txval: r.taxableValue,
+            rt: r.ratePercent,
+            iamt: r.igst,
+            camt: r.cgst,
+            samt: r.sgst,
+            csamt: 0
+        })),
+        hsn: {
+            data: summary.outward.hsn.map((h, n) => ({
+                num: n + 1,
+                hsn_sc: h.hsnCode ?? '',
+                desc: h.description,
+                uqc: 'LTR',
+                qty: h.litres,
+                rt: h.ratePercent,
+                txval: h.taxableValue,
+                iamt: h.igst,
+                camt: h.cgst,
+                samt: h.sgst,
+                csamt: 0
+            }))
+        }
+    };
+}
+
+// GSTR-1 as the offline tool's per-section CSV files
+export function buildGstr1CsvFiles(summary: TaxSummary): { name: string; data: string }[] {
+    const stationPos = summary.gstin ? placeOfSupplyLabel(stateCodeOf(summary.gstin)) : '';
+    return [
+        {
+            name: 'b2b.csv',
+            data: toCsv(
+                ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+                summary.outward.b2bInvoices.flatMap(i => i.items.map(item => [
+                    i.gstin, i.client, i.invoiceNo, formatCsvDate(i.date), i.totalAmount.toFixed(2), placeOfSupplyLabel(i.placeOfSupply),
+                    'N', '', 'Regular B2B', '', item.ratePercent, item.taxableValue.toFixed(2), '0.00'
+                ]))
+            )
+        },
+        {
+            name: 'b2cs.csv',
+            data: toCsv(
+                ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+                summary.outward.byRate.filter(r => r.type === 'B2C').map(r => ['OE', stationPos, '', r.ratePercent, r.taxableValue.toFixed(2), '0.00', ''])
+            )
+        },
+        {
+            name: 'hsn.csv',
+            data: toCsv(
+                ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+                summary.outward.hsn.map(h => [
+                    h.hsnCode ?? '', h.description, 'LTR-LITRES', h.litres.toFixed(2), h.total.toFixed(2), h.ratePercent,
+                    h.taxableValue.toFixed(2), h.igst.toFixed(2), h.cgst.toFixed(2), h.sgst.toFixed(2), '0.00'
+                ])
+            )
+        }
+    ];
+}
+
+/**
+ * GSTR-3B tables 3.1 and 4. Fuel taxed at 0% (petrol and diesel sit outside GST) goes to non-GST outward supplies.
+ */
+export function buildGstr3bJson(summary: TaxSummary, fp: string) {
+    const taxed = sumAmounts(summary.outward.supplies.filter(s => s.ratePercent > 0));
+    const nonGst = sumAmounts(summary.outward.supplies.filter(s => s.ratePercent === 0));
+    const itc = summary.inward.itcTotals;
+    const itcRow = { iamt: itc.igst, camt: itc.cgst, samt: itc.sgst, csamt: 0 };
+    const zero = { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+    return {
+        gstin: summary.gstin,
+        ret_period: fp,
+        sup_details: {
+            osup_det: { txval: taxed.taxableValue, iamt: taxed.igst, camt: taxed.cgst, samt: taxed.sgst, csamt: 0 },
+            osup_zero: { txval: 0, iamt: 0, csamt: 0 },
+            osup_nil_exmp: { txval: 0 },
+            isup_rev: zero,
+            osup_nongst: { txval: nonGst.taxableValue }
+        },
+        itc_elg: {
+            itc_avl: [{ ty: 'OTH', ...itcRow }],
+            itc_rev: [],
+            itc_net: itcRow,
+            itc_inelg: []
+        }
+    };
+}
+
+export function buildGstr3bCsv(summary: TaxSummary, fp: string): string {
+    const json = buildGstr3bJson(summary, fp);
+    const out = json.sup_details.osup_det;
+    const itc = json.itc_elg.itc_net;
+    return toCsv(
+        ['Section', 'Description', 'Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess'],
+        [
+            ['3.1(a)', 'Outward taxable supplies', out.txval.toFixed(2), out.iamt.toFixed(2), out.camt.toFixed(2), out.samt.toFixed(2), '0.00'],
+            ['3.1(e)', 'Non-GST outward supplies', json.sup_details.osup_nongst.txval.toFixed(2), '', '', '', ''],
+            ['4(A)(5)', 'All other ITC', '', itc.iamt.toFixed(2), itc.camt.toFixed(2), itc.samt.toFixed(2), '0.00'],
+            ['4(C)', 'Net ITC available', '', itc.iamt.toFixed(2), itc.camt.toFixed(2), itc.samt.toFixed(2), '0.00']
+        ]
+    );
+}
@@ -0,0 +1,162 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { formatDate } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type CostingMethod = 'fifo' | 'average';
+export const COSTING_METHODS: CostingMethod[] = ['fifo', 'average'];
+
+// Method used by reports unless a request asks for the other one
+export const COSTING_METHOD: CostingMethod = process.env.COSTING_METHOD === 'average' ? 'average' : 'fifo';
+
+export interface SaleCostSource {
+    sourceType: 'reading' | 'nozzle_reading';
+    sourceId: number;
+    date: Date;
+}
+
+/**
+ * Open a cost layer for litres received into a tank (an unloaded purchase, or opening stock when purchaseId is null).
+ */
+export async function addCostLayer(db: Db, layer: {
+    tankId: number;
+    purchaseId?: number | null;
+    litres: number;
+    unitCost: number;
+    receivedAt: Date;
+}) {
+    return db.inventoryLayer.create({
+        data: {
+            tankId: layer.tankId,
+            purchaseId: layer.purchaseId ?? null,
+            litres: layer.litres,
+            remainingLitres: layer.litres,
+            unitCost: layer.unitCost,
+            receivedAt: layer.receivedAt
+        }
+    });
+}
+
+/**
+ * Record the cost of litres leaving a tank for a reading.
+ * Positive litres consume layers oldest-first; once layers run out the tank's average cost is used.
+ * Negative litres (a reading corrected downwards) give back what that reading consumed, newest layer first.
+ * Returns the FIFO cost of the change.
+ */
+export async function recordSaleCost(db: Db, tankId: number, litres: number, source: SaleCostSource): Promise<number> {
+    if (litres === 0) return 0;
+
+    const tank = await db.tank.findUnique({ where: { id: tankId } });
+    if (!tank) throw new Error(`Tank ${tankId} not found`);
+    const avgUnitCost = Number(tank.avgUnitCost);
+
+    const base = {
+        tankId,
+        fuelTypeId: tank.fuelTypeId,
+        sourceType: source.sourceType,
+        sourceId: source.sourceId,
+        date: source.date
+    };
+
+    if (litres < 0) {
+        return reverseSaleCost(db, -litres, base);
+    }
+
+    let left = litres;
+    let cost = 0;
+    const layers = await db.inventoryLayer.findMany({
+        where: { tankId, remainingLitres: { gt: 0 } },
+        orderBy: [{ receivedAt: 'asc' }, { id: 'asc' }]
+    });
+
+    for (const layer of layers) {
+        if (left <= 0) break;
+        const take = Math.min(Number(layer.remainingLitres), left);
+        await db.inventoryLayer.update({
+            where: { id: layer.id },
+            data: { remainingLitres: { decrement: take } }
+        });
+        await db.costOfSale.create({
+            data: { ...base, layerId: layer.id, litres: take, unitCost: layer.unitCost, avgUnitCost }
+        });
+        cost += take * Number(layer.unitCost);
+        left -= take;
+    }
+
+    if (left > 0) {
+        // Stock that predates cost layers
+        await db.costOfSale.create({
+            data: { ...base, layerId: null, litres: left, unitCost: avgUnitCost, avgUnitCost }
+        });
+        cost += left * avgUnitCost;
+    }
+
+    return cost;
+}
+
+async function reverseSaleCost(db: Db, litres: number, base: {
+    tankId: number;
+    fuelTypeId: number;
+    sourceType: string;
+    sourceId: number;
+    date: Date;
+}): Promise<number> {
+    const rows = await db.costOfSale.findMany({
+        where: { sourceType: base.sourceType, sourceId: base.sourceId, tankId: base.tankId },
+        orderBy: { id: 'desc' }
+    });
+
+    // Net litres and cost still attributed to each layer, most recently consumed first
+    const netByLayer = new Map<number | null, { litres: number; cost: number; avgCost: number }>();
+    for (const row of rows) {
+        const net = netByLayer.get(row.layerId) ?? { litres: 0, cost: 0, avgCost: 0 };
+        net.litres += Number(row.litres);
+        net.cost += Number(row.litres) * Number(row.unitCost);
+        net.avgCost += Number(row.litres) * Number(row.avgUnitCost);
+        netByLayer.set(row.layerId, net);
+    }
+
+    let left = litres;
+    let cost = 0;
+    for (const [layerId, net] of netByLayer) {
+        if (left <= 0) break;
+        if (net.litres <= 0) continue;
+
+        const giveBack = Math.min(net.litres, left);
+        const unitCost = net.cost / net.litres;
+        if (layerId !== null) {
+            await db.inventoryLayer.update({
+                where: { id: layerId },
+                data: { remainingLitres: { increment: giveBack } }
+            });
+        }
+        await db.costOfSale.create({
+            data: { ...base, layerId, litres: -giveBack, unitCost, avgUnitCost: net.avgCost / net.litres }
+        });
+        cost -= giveBack * unitCost;
+        left -= giveBack;
+    }
+
+    return cost;
+}
+
+/**
+ * Realised litres and cost per day and fuel type between two instants, under the chosen costing method.
+ * Keys are `YYYY-MM-DD_fuelTypeId`.
+ */
+export async function getCostOfSales(prisma: PrismaClient, start: Date, end: Date, method: CostingMethod = COSTING_METHOD) {
+    const rows = await prisma.costOfSale.findMany({
+        where: { date: { gte: start, lte: end } }
+    });
+
+    const totals: Record<string, { date: string; fuelTypeId: number; litres: number; cost: number }> = {};
+    for (const row of rows) {
+        const date = formatDate(row.date);
+        const key = `${date}_${row.fuelTypeId}`;
+        const unitCost = method === 'average' ? Number(row.avgUnitCost) : Number(row.unitCost);
+        if (!totals[key]) totals[key] = { date, fuelTypeId: row.fuelTypeId, litres: 0, cost: 0 };
+        totals[key].litres += Number(row.litres);
+        totals[key].cost += Number(row.litres) * unitCost;
+    }
+    return totals;
+}
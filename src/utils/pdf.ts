@@ -0,0 +1,91 @@
+/**
+ * Minimal PDF writer for plain-text documents (statements, invoices, reports).
+ * Lines are set in Courier on A4 pages so columns padded with spaces stay aligned.
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+export interface PdfLine {
+    text: string;
+    bold?: boolean;
+    size?: number;
+}
+
+// Courier only covers Latin-1; anything else (e.g. the rupee sign) is spelled out or replaced
+function pdfText(text: string): string {
+    return text
+        .replace(/₹/g, 'Rs.')
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+        .replace(/\\/g, '\\\\')
+        .replace(/\(/g, '\\(')
+        .replace(/\)/g, '\\)');
+}
+
+/**
+ * Render lines of text to a PDF, starting a new page when one fills up or at a `\f` line.
+ */
+export function renderTextPdf(lines: (string | PdfLine)[], options: { title?: string; fontSize?: number } = {}): Buffer {
+    const defaultSize = options.fontSize ?? 9;
+    const pages: string[][] = [[]];
+    let y = PAGE_HEIGHT - MARGIN;
+
+    for (const raw of lines) {
+        const line: PdfLine = typeof raw === 'string' ? { text: raw } : raw;
+        if (line.text === '\f') {
+            pages.push([]);
+            y = PAGE_HEIGHT - MARGIN;
+            continue;
+        }
+        const size = line.size ?? defaultSize;
+        const leading = Math.round(size * 1.35);
+        if (y - leading < MARGIN) {
+            pages.push([]);
+            y = PAGE_HEIGHT - MARGIN;
+        }
+        y -= leading;
+        pages[pages.length - 1].push(`BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y} Td (${pdfText(line.text)}) Tj ET`);
+    }
+
+    // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and content stream per page
+    const objects: string[] = [];
+    const pageIds = pages.map((_, i) => 6 + i * 2);
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${pdfText(options.title ?? '')}) /Producer (Fuel Station Management) >>`;
+
+    pages.forEach((ops, i) => {
+        const pageNo = i + 1;
+        const footer = `BT /F1 8 Tf ${PAGE_WIDTH - MARGIN - 60} ${MARGIN / 2} Td (Page ${pageNo} of ${pages.length}) Tj ET`;
+        const content = [...ops, footer].join('\n');
+        objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+            + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+        objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(body, 'latin1');
+        body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+        body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+}
+
+// Left- or right-aligned fixed-width column for text layouts
+export function col(value: string | number, width: number, align: 'left' | 'right' = 'left'): string {
+    const text = String(value);
+    if (text.length > width) return text.slice(0, width);
+    return align === 'right' ? text.padStart(width) : text.padEnd(width);
+}
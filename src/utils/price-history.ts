@@ -0,0 +1,98 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { round2 } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+interface TimelineEntry {
+    id: number;
+    perLitre: number;
+    from: Date;
+    to: Date | null;
+    reason: string | null;
+    changedBy: string | null;
+}
+
+export interface PriceInterval {
+    from: Date;
+    to: Date | null;
+    sellingPrice: number | null;
+    purchasePrice: number | null;
+    margin: number | null;
+    marginPercent: number | null; // Of the selling price
+    changed: ('selling' | 'purchase')[];
+    changedBy: string | null;
+    reason: string | null;
+}
+
+function entryAt(timeline: TimelineEntry[], at: Date): TimelineEntry | undefined {
+    return timeline.find(e => e.from <= at && (!e.to || e.to > at));
+}
+
+/**
+ * Selling and purchase price timelines for a fuel type, and the merged intervals between any two
+ * changes with the per-litre margin in each. Purchase prices run from their createdAt until the next one.
+ */
+export async function getPriceHistory(db: Db, fuelTypeId: number, range: { start?: Date; end?: Date } = {}) {
+    const [prices, purchasePrices] = await Promise.all([
+        db.price.findMany({
+            where: { fuelTypeId },
+            include: { changedBy: { select: { username: true } } },
+            orderBy: [{ effectiveFrom: 'asc' }, { id: 'asc' }]
+        }),
+        db.purchasePrice.findMany({
+            where: { fuelTypeId },
+            include: { changedBy: { select: { username: true } } },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+        })
+    ]);
+
+    const selling: TimelineEntry[] = prices.map(p => ({
+        id: p.id,
+        perLitre: Number(p.perLitre),
+        from: p.effectiveFrom,
+        to: p.effectiveTo,
+        reason: p.reason,
+        changedBy: p.changedBy?.username ?? null
+    }));
+    const purchase: TimelineEntry[] = purchasePrices.map((p, i) => ({
+        id: p.id,
+        perLitre: Number(p.perLitre),
+        from: p.createdAt,
+        to: purchasePrices[i + 1]?.createdAt ?? null,
+        reason: p.reason,
+        changedBy: p.changedBy?.username ?? null
+    }));
+
+    const boundaries = Array.from(new Set([...selling, ...purchase].map(e => e.from.getTime()))).sort((a, b) => a - b);
+    const intervals: PriceInterval[] = boundaries.map((time, i) => {
+        const from = new Date(time);
+        const sell = entryAt(selling, from);
+        const buy = entryAt(purchase, from);
+        const changes = [
+            ...(sell && sell.from.getTime() === time ? [{ kind: 'selling' as const, entry: sell }] : []),
+            ...(buy && buy.from.getTime() === time ? [{ kind: 'purchase' as const, entry: buy }] : [])
+        ];
+        const margin = sell && buy ? round2(sell.perLitre - buy.perLitre) : null;
+        return {
+            from,
+            to: boundaries[i + 1] !== undefined ? new Date(boundaries[i + 1]) : null,
+            sellingPrice: sell?.perLitre ?? null,
+            purchasePrice: buy?.perLitre ?? null,
+            margin,
+            marginPercent: margin !== null && sell!.perLitre > 0 ? round2((margin / sell!.perLitre) * 100) : null,
+            changed: changes.map(c => c.kind),
+            changedBy: Array.from(new Set(changes.map(c => c.entry.changedBy).filter(Boolean))).join(', ') || null,
+            reason: changes.map(c => c.entry.reason).filter(Boolean).join('; ') || null
+        };
+    });
+
+    // Keep intervals overlapping the requested range
+    const inRange = (from: Date, to: Date | null) =>
+        (!range.end || from <= range.end) && (!range.start || !to || to > range.start);
+
+    return {
+        selling: selling.filter(e => inRange(e.from, e.to)),
+        purchase: purchase.filter(e => inRange(e.from, e.to)),
+        intervals: intervals.filter(i => inRange(i.from, i.to))
+    };
+}
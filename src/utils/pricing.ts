@@ -0,0 +1,174 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { backendLogger } from './logger';
+import { revalueForSellingPrice } from './stock-revaluation';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Hour of day at which oil company price revisions take effect
+export const PRICE_CHANGE_HOUR = Number(process.env.PRICE_CHANGE_HOUR ?? 6);
+
+/**
+ * When a price given for a date takes effect: a bare date (YYYY-MM-DD) means that day at PRICE_CHANGE_HOUR,
+ * anything with a time is taken as is.
+ */
+export function priceEffectiveFrom(value?: string | Date | null): Date {
+    if (!value) return new Date();
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        const [y, m, d] = value.split('-').map(Number);
+        return new Date(y, m - 1, d, PRICE_CHANGE_HOUR);
+    }
+    return new Date(value);
+}
+
+/**
+ * The instant whose price applies to a day's trading (readings are stored per day): that day after the revision hour.
+ */
+export function tradingInstant(day: Date): Date {
+    const instant = new Date(day);
+    if (instant.getHours() === 0 && instant.getMinutes() === 0 && instant.getSeconds() === 0) {
+        instant.setHours(PRICE_CHANGE_HOUR);
+    }
+    return instant;
+}
+
+// The Price row in force for a fuel type at an instant: effectiveFrom <= at < effectiveTo
+export async function getPriceAt(db: Db, fuelTypeId: number, at: Date = new Date()) {
+    return db.price.findFirst({
+        where: {
+            fuelTypeId,
+            effectiveFrom: { lte: at },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }]
+        },
+        orderBy: { effectiveFrom: 'desc' }
+    });
+}
+
+// Per-litre price in force, or 0 when no price has been set for the fuel type yet
+export async function getPricePerLitreAt(db: Db, fuelTypeId: number, at: Date = new Date()): Promise<number> {
+    const price = await getPriceAt(db, fuelTypeId, at);
+    return Number(price?.perLitre ?? 0);
+}
+
+// Prices in force for every fuel type at an instant, keyed by fuel type id
+export async function getPricesAt(db: Db, at: Date = new Date()) {
+    const fuelTypes = await db.fuelType.findMany({ orderBy: { id: 'asc' } });
+    const prices = await Promise.all(fuelTypes.map(ft => getPriceAt(db, ft.id, at)));
+    return new Map(fuelTypes.map((ft, i) => [ft.id, { fuelType: ft, price: prices[i] }]));
+}
+
+/**
+ * Put a price on the fuel type's timeline from `effectiveFrom`. The price in force at that moment ends there,
+ * and the new price runs until the next scheduled price (if any). Past, present and future dates are all allowed.
+ * Tank stock is revalued when the price is the one in force now; scheduled prices are revalued when they take effect,
+ * and a backdated price that a later one has already replaced never moved the selling price of today's stock.
+ */
+export async function schedulePrice(
+    tx: Prisma.TransactionClient,
+    fuelTypeId: number,
+    perLitre: number,
+    effectiveFrom: Date,
+    change: { reason?: string | null; userId?: number } = {}
+) {
+    const clash = await tx.price.findFirst({ where: { fuelTypeId, effectiveFrom } });
+    if (clash) throw new Error(`Price clash: a price for fuel type ${fuelTypeId} already takes effect at ${effectiveFrom.toISOString()}`);
+
+    const current = await getPriceAt(tx, fuelTypeId, effectiveFrom);
+    const next = await tx.price.findFirst({
+        where: { fuelTypeId, effectiveFrom: { gt: effectiveFrom } },
+        orderBy: { effectiveFrom: 'asc' }
+    });
+
+    if (current) {
+        await tx.price.update({ where: { id: current.id }, data: { effectiveTo: effectiveFrom } });
+    }
+
+    const now = new Date();
+    const price = await tx.price.create({
+        data: {
+            fuelTypeId,
+            perLitre,
+            effectiveFrom,
+            effectiveTo: next?.effectiveFrom ?? null,
+            isActive: effectiveFrom <= now && (!next || next.effectiveFrom > now),
+            reason: change.reason,
+            changedById: change.userId,
+            createdAt: now
+        }
+    });
+    if (price.isActive) await revalueForSellingPrice(tx, price);
+    return price;
+}
+
+/**
+ * Withdraw a price that has not taken effect yet; the price before it runs on to the one after it.
+ */
+export async function unschedulePrice(tx: Prisma.TransactionClient, priceId: number) {
+    const price = await tx.price.findUnique({ where: { id: priceId } });
+    if (!price) throw new Error('Price not found');
+    if (price.effectiveFrom <= new Date()) throw new Error('Price clash: only prices that have not taken effect can be withdrawn');
+
+    const previous = await tx.price.findFirst({
+        where: { fuelTypeId: price.fuelTypeId, effectiveFrom: { lt: price.effectiveFrom } },
+        orderBy: { effectiveFrom: 'desc' }
+    });
+    if (previous) {
+        await tx.price.update({ where: { id: previous.id }, data: { effectiveTo: price.effectiveTo } });
+    }
+    await tx.price.delete({ where: { id: priceId } });
+    return price;
+}
+
+/**
+ * Keep the legacy isActive flag on the price currently in force for each fuel type, so lists and
+ * older screens that still read it switch over when a scheduled price takes effect.
+ */
+export async function syncActivePrices(db: Db, at: Date = new Date()) {
+    let changed = 0;
+    for (const { fuelType, price } of (await getPricesAt(db, at)).values()) {
+        const stale = await db.price.updateMany({
+            where: { fuelTypeId: fuelType.id, isActive: true, ...(price ? { id: { not: price.id } } : {}) },
+            data: { isActive: false }
+        });
+        changed += stale.count;
+        if (price && !price.isActive) {
+            await db.price.update({ where: { id: price.id }, data: { isActive: true } });
+            // A scheduled price coming into force
+            if (price.effectiveFrom > price.createdAt) await revalueForSellingPrice(db, price);
+            changed += 1;
+        }
+    }
+    return changed;
+}
+
+export function schedulePriceActivation(prisma: PrismaClient) {
+    const run = () => {
+        syncActivePrices(prisma)
+            .then(changed => {
+                if (changed > 0) backendLogger.info('Scheduled fuel prices took effect', { changed });
+            })
+            .catch(error => backendLogger.error('Price activation failed', { error: error.message }));
+    };
+    run();
+    setInterval(run, 60 * 1000).unref();
+}
+
+/**
+ * One-off for prices recorded before effective dating: each row takes effect at its createdAt and
+ * ends where the next row for the same fuel type starts.
+ */
+export async function backfillPriceEffectiveDates(prisma: PrismaClient) {
+    const prices = await prisma.price.findMany({ orderBy: [{ fuelTypeId: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }] });
+    let updated = 0;
+    await prisma.$transaction(async (tx) => {
+        for (let i = 0; i < prices.length; i++) {
+            const next = prices[i + 1]?.fuelTypeId === prices[i].fuelTypeId ? prices[i + 1] : null;
+            await tx.price.update({
+                where: { id: prices[i].id },
+                data: { effectiveFrom: prices[i].createdAt, effectiveTo: next ? next.createdAt : null }
+            });
+            updated += 1;
+        }
+    });
+    await syncActivePrices(prisma);
+    return updated;
+}
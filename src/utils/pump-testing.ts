@@ -0,0 +1,74 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { resolveTankForPump } from './tank-mapping';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Days before a W&M certificate expires from which the pump is flagged
+export const CALIBRATION_DUE_SOON_DAYS = 30;
+
+/**
+ * Litres sold on a pump reading: the meter movement less the litres dispensed for testing, which go back
+ * into the tank. Opening and closing meters stay untouched so the next reading carries on from them.
+ */
+export function soldLitres(reading: { openingLitres: unknown; closingLitres: unknown; testingLitres?: unknown }): number {
+    return Number(reading.closingLitres) - Number(reading.openingLitres) - Number(reading.testingLitres ?? 0);
+}
+
+// Testing litres given with a reading: blank means none, and it can never exceed the meter movement
+export function parseTestingLitres(value: unknown, openingLitres: number, closingLitres: number): { litres: number } | { error: string } {
+    if (value === undefined || value === null || value === '') return { litres: 0 };
+    const litres = Number(value);
+    if (isNaN(litres) || litres < 0) return { error: `Testing litres must be a non-negative number, got: ${value}` };
+    if (litres > closingLitres - openingLitres) {
+        return { error: `Testing litres (${litres}) cannot exceed the meter movement (${closingLitres - openingLitres})` };
+    }
+    return { litres };
+}
+
+/**
+ * Testing litres per tank between two instants, attributed through each pump's tank mapping.
+ */
+export async function getTestingLitresByTank(prisma: PrismaClient, start: Date, end: Date): Promise<Record<number, number>> {
+    const readings = await prisma.dailyReading.findMany({
+        where: { date: { gte: start, lte: end }, testingLitres: { gt: 0 } },
+        include: { pump: true }
+    });
+
+    const totals: Record<number, number> = {};
+    for (const r of readings) {
+        const tank = await resolveTankForPump(prisma, r.pump);
+        if (tank) totals[tank.id] = (totals[tank.id] || 0) + Number(r.testingLitres);
+    }
+    return totals;
+}
+
+export function calibrationStatus(validUntil: Date, asOf: Date = new Date()): 'valid' | 'due_soon' | 'overdue' {
+    if (validUntil < asOf) return 'overdue';
+    const dueSoon = new Date(asOf);
+    dueSoon.setDate(dueSoon.getDate() + CALIBRATION_DUE_SOON_DAYS);
+    return validUntil <= dueSoon ? 'due_soon' : 'valid';
+}
+
+/**
+ * Latest W&M certificate for every active pump and whether it is still valid; pumps never verified are 'missing'.
+ */
+export async function getCalibrationDueList(db: Db, asOf: Date = new Date()) {
+    const pumps = await db.pump.findMany({
+        where: { isActive: true },
+        include: { calibrations: { orderBy: { calibratedAt: 'desc' }, take: 1 } },
+        orderBy: { id: 'asc' }
+    });
+
+    return pumps.map(pump => {
+        const latest = pump.calibrations[0];
+        return {
+            pumpId: pump.id,
+            pump: pump.name,
+            certificateNo: latest?.certificateNo ?? null,
+            calibratedAt: latest?.calibratedAt ?? null,
+            validUntil: latest?.validUntil ?? null,
+            daysLeft: latest ? Math.floor((latest.validUntil.getTime() - asOf.getTime()) / (24 * 60 * 60 * 1000)) : null,
+            status: latest ? calibrationStatus(latest.validUntil, asOf) : 'missing'
+        };
+    });
+}
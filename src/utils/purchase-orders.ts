@@ -0,0 +1,84 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const PURCHASE_ORDER_STATUSES = ['ordered', 'dispatched', 'received', 'unloaded', 'invoiced', 'paid'] as const;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+// Challan shortfall below this many litres is treated as measurement noise, not a claim
+export const SHORT_RECEIPT_TOLERANCE_LITRES = process.env.SHORT_RECEIPT_TOLERANCE_LITRES
+    ? Number(process.env.SHORT_RECEIPT_TOLERANCE_LITRES)
+    : 10;
+
+/**
+ * Next PO number for the year of `date`, e.g. PO-2025-0007. The year's sequence row is bumped with an
+ * increment, so concurrent POs get different numbers; call it inside the transaction that creates the PO.
+ * A year without a sequence row yet starts after the highest number already issued in it.
+ */
+export async function nextPoNumber(db: Db, date: Date): Promise<string> {
+    const year = date.getFullYear();
+    const prefix = `PO-${year}-`;
+    const existing = await db.purchaseOrderSequence.findUnique({ where: { year } });
+    let issued = 0;
+    if (!existing) {
+        const orders = await db.purchaseOrder.findMany({ where: { poNumber: { startsWith: prefix } }, select: { poNumber: true } });
+        issued = orders.reduce((max, o) => Math.max(max, parseInt(o.poNumber.slice(prefix.length), 10) || 0), 0);
+    }
+
+    const { lastNumber } = await db.purchaseOrderSequence.upsert({
+        where: { year },
+        create: { year, lastNumber: issued + 1 },
+        update: { lastNumber: { increment: 1 } }
+    });
+    return `${prefix}${String(lastNumber).padStart(4, '0')}`;
+}
+
+/**
+ * Litres delivered against a PO so far. Billed litres follow the challan, received litres what reached the tank.
+ */
+export function deliveryProgress(po: {
+    orderedLitres: Prisma.Decimal | number;
+    purchases: { litres: Prisma.Decimal | number; challanLitres: Prisma.Decimal | number | null }[];
+}) {
+    const receivedLitres = po.purchases.reduce((sum, p) => sum + Number(p.litres), 0);
+    const billedLitres = po.purchases.reduce((sum, p) => sum + Number(p.challanLitres ?? p.litres), 0);
+    return {
+        orderedLitres: Number(po.orderedLitres),
+        billedLitres,
+        receivedLitres,
+        shortLitres: Math.max(billedLitres - receivedLitres, 0),
+        pendingLitres: Math.max(Number(po.orderedLitres) - billedLitres, 0)
+    };
+}
+
+/**
+ * Move a PO forward once its deliveries allow it: fully delivered -> received, every delivery unloaded -> unloaded.
+ * `finalDelivery` closes a PO that the supplier will not deliver in full.
+ */
+export async function syncPurchaseOrderStatus(db: Db, purchaseOrderId: number, finalDelivery = false) {
+    const po = await db.purchaseOrder.findUnique({
+        where: { id: purchaseOrderId },
+        include: { purchases: true }
+    });
+    if (!po || !['ordered', 'dispatched', 'received'].includes(po.status)) return po;
+
+    const data: Prisma.PurchaseOrderUpdateInput = {};
+    let status = po.status;
+
+    if (status !== 'received' && po.purchases.length > 0) {
+        const { pendingLitres } = deliveryProgress(po);
+        if (pendingLitres <= 0 || finalDelivery) {
+            status = 'received';
+            data.receivedAt = new Date();
+            data.dispatchedAt = po.dispatchedAt ?? new Date();
+        }
+    }
+
+    if (status === 'received' && po.purchases.every(p => p.status === 'unloaded')) {
+        status = 'unloaded';
+        data.unloadedAt = po.purchases.reduce<Date>((latest, p) => (p.unloadedAt && p.unloadedAt > latest ? p.unloadedAt : latest), po.purchases[0].unloadedAt ?? new Date());
+    }
+
+    if (status === po.status) return po;
+    return db.purchaseOrder.update({ where: { id: po.id }, data: { ...data, status } });
+}
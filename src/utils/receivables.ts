@@ -0,0 +1,135 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AGEING_BUCKETS, AgeingBucket, ageingBucket, daysBetween, emptyBuckets } from './ageing';
+import { creditBalance, creditStatusFor } from './client-ledger';
+import { round2 } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// A credit sale falls due the client's payment terms after the sale date
+export function creditDueDate(date: Date, paymentTermsDays: number): Date {
+    const dueDate = new Date(date);
+    dueDate.setDate(dueDate.getDate() + paymentTermsDays);
+    return dueDate;
+}
+
+/**
+ * Due date, outstanding balance and overdue flag for a credit, given its client's payment terms.
+ */
+export function creditDueStatus(
+    credit: { date: Date; status: string; totalAmount: Prisma.Decimal | number; paidAmount: Prisma.Decimal | number },
+    paymentTermsDays: number,
+    asOf: Date = new Date()
+) {
+    const dueDate = creditDueDate(credit.date, paymentTermsDays);
+    const balance = creditBalance(credit);
+    const overdue = credit.status !== 'paid' && balance > 0 && dueDate < asOf;
+    return { dueDate, balance, overdue, daysOverdue: overdue ? daysBetween(dueDate, asOf) : 0 };
+}
+
+export interface ReceivableRow {
+    creditId: number;
+    date: Date;
+    dueDate: Date;
+    fuelType: string;
+    litres: number;
+    amount: number;
+    balance: number;
+    ageDays: number;
+    bucket: AgeingBucket;
+    overdue: boolean;
+    daysOverdue: number;
+    note: string;
+}
+
+export interface ClientAgeing {
+    clientId: number;
+    clientName: string;
+    paymentTermsDays: number;
+    buckets: Record<AgeingBucket, number>;
+    total: number;
+    overdue: number;
+    credits: ReceivableRow[];
+}
+
+/**
+ * Unpaid client credits as of a date, bucketed by age since the sale, per client and in total.
+ * For a past date a credit counts with only the payments allocated to it by then, so credits settled
+ * since still show what was outstanding at the time.
+ */
+export async function buildReceivablesAgeing(db: Db, options: { asOf?: Date; fuelTypeId?: number; clientId?: number; overdueOnly?: boolean } = {}) {
+    const now = new Date();
+    const asOf = options.asOf ?? now;
+    const historical = asOf < now;
+    const where: Prisma.ClientCreditWhereInput = { date: { lte: asOf } };
+    if (!historical) where.status = { not: 'paid' };
+    if (options.fuelTypeId) where.fuelTypeId = options.fuelTypeId;
+    if (options.clientId) where.clientId = options.clientId;
+
+    const rows = await db.clientCredit.findMany({
+        where,
+        include: {
+            client: { select: { id: true, name: true, paymentTermsDays: true } },
+            fuelType: { select: { name: true } },
+            allocations: historical ? { where: { payment: { date: { lte: asOf } } }, select: { amount: true } } : false
+        },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+    const credits = rows.map(credit => {
+        if (!historical) return credit;
+        const paidAmount = round2(credit.allocations.reduce((sum, a) => sum + Number(a.amount), 0));
+        return { ...credit, paidAmount, status: creditStatusFor(Number(credit.totalAmount), paidAmount) };
+    });
+
+    const byClient: Record<number, ClientAgeing> = {};
+    const totals = emptyBuckets();
+    let overdueTotal = 0;
+
+    for (const credit of credits) {
+        const { dueDate, balance, overdue, daysOverdue } = creditDueStatus(credit, credit.client.paymentTermsDays, asOf);
+        if (balance <= 0) continue;
+        if (options.overdueOnly && !overdue) continue;
+
+        const ageDays = daysBetween(credit.date, asOf);
+        const bucket = ageingBucket(ageDays);
+
+        if (!byClient[credit.clientId]) {
+            byClient[credit.clientId] = {
+                clientId: credit.clientId,
+                clientName: credit.client.name,
+                paymentTermsDays: credit.client.paymentTermsDays,
+                buckets: emptyBuckets(),
+                total: 0,
+                overdue: 0,
+                credits: []
+            };
+        }
+        const row = byClient[credit.clientId];
+        row.buckets[bucket] = round2(row.buckets[bucket] + balance);
+        row.total = round2(row.total + balance);
+        if (overdue) row.overdue = round2(row.overdue + balance);
+        row.credits.push({
+            creditId: credit.id,
+            date: credit.date,
+            dueDate,
+            fuelType: credit.fuelType.name,
+            litres: Number(credit.litres),
+            amount: Number(credit.totalAmount),
+            balance,
+            ageDays,
+            bucket,
+            overdue,
+            daysOverdue,
+            note: credit.note || ''
+        });
+
+        totals[bucket] = round2(totals[bucket] + balance);
+        if (overdue) overdueTotal = round2(overdueTotal + balance);
+    }
+
+    return {
+        asOf,
+        buckets: AGEING_BUCKETS.map(b => ({ key: b.key, label: b.label })),
+        clients: Object.values(byClient).sort((a, b) => b.total - a.total),
+        totals: { ...totals, total: round2(Object.values(totals).reduce((sum, v) => sum + v, 0)), overdue: overdueTotal }
+    };
+}
@@ -0,0 +1,130 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const SLIP_BOOK_STATUSES = ['active', 'closed'];
+
+export function slipLabel(series: string, slipNo: number): string {
+    return `${series}-${slipNo}`;
+}
+
+/**
+ * Find the client's slip book for a slip number and make sure the slip is still unused.
+ * `series` is needed only when the client holds books from different series covering the same number.
+ * `approvalId` is the pending approval being decided, which holds the slip itself.
+ */
+export async function resolveSlip(db: Db, request: { clientId: number; slipNo: number; series?: string | null; approvalId?: number }): Promise<{ slipBookId: number } | { error: string }> {
+    const { clientId, slipNo } = request;
+    if (!Number.isInteger(slipNo) || slipNo <= 0) return { error: 'Slip number must be a positive whole number' };
+
+    const covering = await db.slipBook.findMany({
+        where: {
+            startNo: { lte: slipNo },
+            endNo: { gte: slipNo },
+            ...(request.series ? { series: String(request.series).toUpperCase() } : {})
+        }
+    });
+    const books = covering.filter(b => b.clientId === clientId);
+    if (books.length === 0) {
+        return covering.length > 0
+            ? { error: `Slip ${slipNo} belongs to a book issued to another client` }
+            : { error: `Slip ${slipNo} is outside every slip book issued to this client` };
+    }
+    if (books.length > 1) {
+        return { error: `Slip ${slipNo} matches books in series ${books.map(b => b.series).join(', ')}; give the series` };
+    }
+
+    const book = books[0];
+    const label = slipLabel(book.series, slipNo);
+    if (book.status !== 'active') return { error: `Slip book ${book.series} ${book.startNo}-${book.endNo} is closed` };
+
+    const [cancelled, used, pending] = await Promise.all([
+        db.slipCancellation.findUnique({ where: { slipBookId_slipNo: { slipBookId: book.id, slipNo } } }),
+        db.clientCredit.findUnique({ where: { slipBookId_slipNo: { slipBookId: book.id, slipNo } } }),
+        db.creditApproval.findFirst({
+            where: { slipBookId: book.id, slipNo, status: 'pending', ...(request.approvalId ? { id: { not: request.approvalId } } : {}) }
+        })
+    ]);
+    if (cancelled) return { error: `Slip ${label} was cancelled: ${cancelled.reason}` };
+    if (used) return { error: `Slip ${label} was already used for credit CR-${used.id} on ${used.date.toISOString().slice(0, 10)}` };
+    if (pending) return { error: `Slip ${label} is already on credit approval #${pending.id}` };
+
+    return { slipBookId: book.id };
+}
+
+// Rejected slips are kept in the audit log so repeated attempts with used slips show up in the usage report
+export async function logSlipRejection(db: Db, event: { clientId: number; slipNo: number; series?: string | null; error: string; userId?: number }) {
+    await db.auditLog.create({
+        data: {
+            action: 'SLIP_REJECTED',
+            entityType: 'Client',
+            entityId: event.clientId,
+            newValues: JSON.stringify({ slipNo: event.slipNo, series: event.series ?? null }),
+            reason: event.error,
+            userId: event.userId
+        }
+    });
+}
+
+/**
+ * Per client and book: which slips were used (and for which credit), cancelled, or are still unused,
+ * plus slip numbers rejected at the counter.
+ */
+export async function getSlipUsage(db: Db, filters: { clientId?: number } = {}) {
+    const books = await db.slipBook.findMany({
+        where: filters.clientId ? { clientId: filters.clientId } : {},
+        include: {
+            client: { select: { id: true, name: true } },
+            credits: { select: { id: true, slipNo: true, date: true, totalAmount: true, litres: true }, orderBy: { slipNo: 'asc' } },
+            cancellations: { orderBy: { slipNo: 'asc' } }
+        },
+        orderBy: [{ clientId: 'asc' }, { series: 'asc' }, { startNo: 'asc' }]
+    });
+
+    const rejections = await db.auditLog.findMany({
+        where: { action: 'SLIP_REJECTED', ...(filters.clientId ? { entityId: filters.clientId } : {}) },
+        orderBy: { timestamp: 'desc' }
+    });
+
+    const clients: Record<number, any> = {};
+    for (const book of books) {
+        if (!clients[book.clientId]) {
+            clients[book.clientId] = {
+                clientId: book.clientId,
+                clientName: book.client.name,
+                totals: { issued: 0, used: 0, cancelled: 0, unused: 0 },
+                books: [],
+                rejectedSlips: rejections
+                    .filter(r => r.entityId === book.clientId)
+                    .map(r => ({ ...JSON.parse(r.newValues || '{}'), reason: r.reason, at: r.timestamp, userId: r.userId }))
+            };
+        }
+
+        const usedNos = new Set(book.credits.map(c => c.slipNo));
+        const cancelledNos = new Set(book.cancellations.map(c => c.slipNo));
+        const unused: number[] = [];
+        for (let n = book.startNo; n <= book.endNo; n++) {
+            if (!usedNos.has(n) && !cancelledNos.has(n)) unused.push(n);
+        }
+        const issued = book.endNo - book.startNo + 1;
+
+        const row = clients[book.clientId];
+        row.totals.issued += issued;
+        row.totals.used += book.credits.length;
+        row.totals.cancelled += book.cancellations.length;
+        row.totals.unused += unused.length;
+        row.books.push({
+            slipBookId: book.id,
+            series: book.series,
+            startNo: book.startNo,
+            endNo: book.endNo,
+            status: book.status,
+            issued,
+            used: book.credits.map(c => ({ slipNo: c.slipNo, creditId: c.id, date: c.date, litres: Number(c.litres), amount: Number(c.totalAmount) })),
+            cancelled: book.cancellations.map(c => ({ slipNo: c.slipNo, reason: c.reason, date: c.date })),
+            unused
+        });
+    }
+
+    return Object.values(clients);
+}
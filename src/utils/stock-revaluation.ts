@@ -0,0 +1,147 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { round2 } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type RevaluationTrigger = 'selling_price' | 'purchase_price';
+
+/**
+ * Snapshot every active tank of the fuel type and book the gain or loss on its stock from a price revision.
+ * Nothing is recorded for the first price of a fuel type or when the price did not actually move.
+ */
+async function recordStockRevaluation(db: Db, revision: {
+    trigger: RevaluationTrigger;
+    fuelTypeId: number;
+    oldPrice: number | null;
+    newPrice: number;
+    at: Date;
+    priceId?: number;
+    purchasePriceId?: number;
+}) {
+    if (revision.oldPrice === null || revision.oldPrice === revision.newPrice) return [];
+
+    const tanks = await db.tank.findMany({ where: { fuelTypeId: revision.fuelTypeId, isActive: true } });
+    const rows = [];
+    for (const tank of tanks) {
+        const litres = Number(tank.currentLevel);
+        rows.push(await db.stockRevaluation.create({
+            data: {
+                trigger: revision.trigger,
+                oldPrice: revision.oldPrice,
+                newPrice: revision.newPrice,
+                litres,
+                avgUnitCost: tank.avgUnitCost,
+                gainLoss: round2(litres * (revision.newPrice - revision.oldPrice)),
+                tankId: tank.id,
+                fuelTypeId: revision.fuelTypeId,
+                priceId: revision.priceId,
+                purchasePriceId: revision.purchasePriceId,
+                date: revision.at
+            }
+        }));
+    }
+    return rows;
+}
+
+/**
+ * Revalue stock for a selling price that has just come into force. The stock snapshot is taken now,
+ * so a backdated price is valued on today's tank levels.
+ */
+export async function revalueForSellingPrice(db: Db, price: { id: number; fuelTypeId: number; perLitre: Prisma.Decimal | number; effectiveFrom: Date }) {
+    const already = await db.stockRevaluation.findFirst({ where: { priceId: price.id } });
+    if (already) return [];
+
+    const previous = await db.price.findFirst({
+        where: { fuelTypeId: price.fuelTypeId, effectiveFrom: { lt: price.effectiveFrom } },
+        orderBy: { effectiveFrom: 'desc' }
+    });
+    return recordStockRevaluation(db, {
+        trigger: 'selling_price',
+        fuelTypeId: price.fuelTypeId,
+        oldPrice: previous ? Number(previous.perLitre) : null,
+        newPrice: Number(price.perLitre),
+        at: price.effectiveFrom,
+        priceId: price.id
+    });
+}
+
+export async function revalueForPurchasePrice(db: Db, purchasePrice: { id: number; fuelTypeId: number; perLitre: Prisma.Decimal | number; createdAt: Date }) {
+    const previous = await db.purchasePrice.findFirst({
+        where: { fuelTypeId: purchasePrice.fuelTypeId, id: { not: purchasePrice.id }, createdAt: { lte: purchasePrice.createdAt } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+    return recordStockRevaluation(db, {
+        trigger: 'purchase_price',
+        fuelTypeId: purchasePrice.fuelTypeId,
+        oldPrice: previous ? Number(previous.perLitre) : null,
+        newPrice: Number(purchasePrice.perLitre),
+        at: purchasePrice.createdAt,
+        purchasePriceId: purchasePrice.id
+    });
+}
+
+/**
+ * Revaluations between two instants, one entry per revision with its tank snapshots, and totals per month
+ * split by whether the selling or the purchase price moved.
+ */
+export async function buildStockRevaluationReport(db: Db, filters: { start: Date; end: Date; fuelTypeId?: number }) {
+    const [rows, fuelTypes] = await Promise.all([
+        db.stockRevaluation.findMany({
+            where: {
+                date: { gte: filters.start, lte: filters.end },
+                ...(filters.fuelTypeId ? { fuelTypeId: filters.fuelTypeId } : {})
+            },
+            include: { tank: { select: { id: true, name: true } } },
+            orderBy: [{ date: 'asc' }, { id: 'asc' }]
+        }),
+        db.fuelType.findMany()
+    ]);
+    const fuelTypeNames = new Map(fuelTypes.map(f => [f.id, f.name]));
+
+    const revisions: Record<string, any> = {};
+    const months: Record<string, { month: string; sellingPriceGainLoss: number; purchasePriceGainLoss: number; total: number }> = {};
+    for (const row of rows) {
+        const key = row.priceId ? `selling_${row.priceId}` : `purchase_${row.purchasePriceId}`;
+        if (!revisions[key]) {
+            revisions[key] = {
+                trigger: row.trigger,
+                priceId: row.priceId,
+                purchasePriceId: row.purchasePriceId,
+                fuelTypeId: row.fuelTypeId,
+                fuelType: fuelTypeNames.get(row.fuelTypeId) || '',
+                date: row.date,
+                oldPrice: Number(row.oldPrice),
+                newPrice: Number(row.newPrice),
+                litres: 0,
+                gainLoss: 0,
+                tanks: []
+            };
+        }
+        const gainLoss = Number(row.gainLoss);
+        const litres = Number(row.litres);
+        const revision = revisions[key];
+        revision.litres += litres;
+        revision.gainLoss = round2(revision.gainLoss + gainLoss);
+        revision.tanks.push({
+            tankId: row.tank.id,
+            tank: row.tank.name,
+            litres,
+            avgUnitCost: Number(row.avgUnitCost),
+            bookValue: round2(litres * Number(row.avgUnitCost)),
+            gainLoss
+        });
+
+        const month = `${row.date.getFullYear()}-${String(row.date.getMonth() + 1).padStart(2, '0')}`;
+        if (!months[month]) months[month] = { month, sellingPriceGainLoss: 0, purchasePriceGainLoss: 0, total: 0 };
+        if (row.trigger === 'selling_price') months[month].sellingPriceGainLoss = round2(months[month].sellingPriceGainLoss + gainLoss);
+        else months[month].purchasePriceGainLoss = round2(months[month].purchasePriceGainLoss + gainLoss);
+        months[month].total = round2(months[month].total + gainLoss);
+    }
+
+    const monthly = Object.values(months).sort((a, b) => a.month.localeCompare(b.month));
+    return {
+        revisions: Object.values(revisions),
+        monthly,
+        total: round2(monthly.reduce((sum, m) => sum + m.total, 0))
+    };
+}
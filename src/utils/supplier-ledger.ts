@@ -0,0 +1,117 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const SUPPLIER_PAYMENT_MODES = ['cash', 'cheque', 'neft', 'rtgs', 'upi', 'bank_transfer'];
+
+type InvoiceLike = {
+    invoiceAmount: Prisma.Decimal | number | null;
+    totalCost: Prisma.Decimal | number;
+    paidAmount: Prisma.Decimal | number;
+};
+
+export function invoiceAmount(purchase: InvoiceLike): number {
+    return Number(purchase.invoiceAmount ?? purchase.totalCost);
+}
+
+export function invoiceBalance(purchase: InvoiceLike): number {
+    return Math.round((invoiceAmount(purchase) - Number(purchase.paidAmount)) * 100) / 100;
+}
+
+export function paymentStatusFor(amount: number, paid: number): 'unpaid' | 'partially_paid' | 'paid' {
+    if (paid <= 0.005) return 'unpaid';
+    return amount - paid <= 0.005 ? 'paid' : 'partially_paid';
+}
+
+/**
+ * A supplier's purchase invoices that still have something to pay, oldest first.
+ * Only purchases the supplier has billed (invoiceDate set) are payable.
+ */
+export async function getOpenPurchaseInvoices(db: Db, supplierId: number) {
+    return db.purchase.findMany({
+        where: { supplierId, invoiceDate: { not: null }, paymentStatus: { not: 'paid' } },
+        orderBy: [{ invoiceDate: 'asc' }, { id: 'asc' }]
+    });
+}
+
+/**
+ * Work out how a payment is spread over purchase invoices.
+ * Explicit allocations are checked against the supplier and each invoice balance; without them the
+ * payment settles the oldest invoices first. Whatever is left stays on the payment as an advance.
+ */
+export async function planSupplierAllocations(
+    db: Db,
+    supplierId: number,
+    amount: number,
+    requested?: { purchaseId: number; amount: number }[]
+): Promise<{ plan: { purchaseId: number; amount: number }[]; unallocated: number; error?: string }> {
+    const openInvoices = await getOpenPurchaseInvoices(db, supplierId);
+    const plan: { purchaseId: number; amount: number }[] = [];
+
+    if (requested && requested.length > 0) {
+        const ids = requested.map(r => Number(r.purchaseId));
+        const repeated = ids.find((id, i) => ids.indexOf(id) !== i);
+        if (repeated !== undefined) {
+            return { plan, unallocated: amount, error: `Purchase ${repeated} is listed more than once` };
+        }
+
+        let total = 0;
+        for (const r of requested) {
+            const invoice = openInvoices.find(p => p.id === Number(r.purchaseId));
+            const allocation = Number(r.amount);
+            if (!invoice) {
+                return { plan, unallocated: amount, error: `Purchase ${r.purchaseId} is not an open invoice of this supplier` };
+            }
+            if (isNaN(allocation) || allocation <= 0) {
+                return { plan, unallocated: amount, error: `Allocation for purchase ${r.purchaseId} must be positive` };
+            }
+            if (allocation - invoiceBalance(invoice) > 0.005) {
+                return { plan, unallocated: amount, error: `Allocation of ${allocation} exceeds the balance of purchase ${invoice.id} (${invoiceBalance(invoice)})` };
+            }
+            total += allocation;
+            plan.push({ purchaseId: invoice.id, amount: allocation });
+        }
+        if (total - amount > 0.005) {
+            return { plan, unallocated: amount, error: `Allocations (${total}) exceed the payment amount (${amount})` };
+        }
+        return { plan, unallocated: Math.round((amount - total) * 100) / 100 };
+    }
+
+    let left = amount;
+    for (const invoice of openInvoices) {
+        if (left <= 0.005) break;
+        const allocation = Math.min(invoiceBalance(invoice), left);
+        if (allocation <= 0) continue;
+        plan.push({ purchaseId: invoice.id, amount: Math.round(allocation * 100) / 100 });
+        left -= allocation;
+    }
+    return { plan, unallocated: Math.round(Math.max(left, 0) * 100) / 100 };
+}
+
+/**
+ * Apply (sign 1) or undo (sign -1) allocated amounts on the purchases and keep their POs in step.
+ */
+export async function applyAllocations(db: Db, allocations: { purchaseId: number; amount: number }[], sign: 1 | -1 = 1) {
+    const purchaseOrderIds = new Set<number>();
+    for (const allocation of allocations) {
+        const purchase = await db.purchase.findUnique({ where: { id: allocation.purchaseId } });
+        if (!purchase) continue;
+        const paid = Math.max(Number(purchase.paidAmount) + sign * allocation.amount, 0);
+        await db.purchase.update({
+            where: { id: purchase.id },
+            data: { paidAmount: paid, paymentStatus: paymentStatusFor(invoiceAmount(purchase), paid) }
+        });
+        if (purchase.purchaseOrderId) purchaseOrderIds.add(purchase.purchaseOrderId);
+    }
+
+    for (const purchaseOrderId of purchaseOrderIds) {
+        const po = await db.purchaseOrder.findUnique({ where: { id: purchaseOrderId }, include: { purchases: true } });
+        if (!po) continue;
+        const allPaid = po.purchases.every(p => p.paymentStatus === 'paid');
+        if (po.status === 'invoiced' && allPaid) {
+            await db.purchaseOrder.update({ where: { id: po.id }, data: { status: 'paid', paidAt: new Date() } });
+        } else if (po.status === 'paid' && !allPaid) {
+            await db.purchaseOrder.update({ where: { id: po.id }, data: { status: 'invoiced', paidAt: null } });
+        }
+    }
+}
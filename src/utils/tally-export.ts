@@ -0,0 +1,252 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { soldLitres } from './pump-testing';
+import { round2 } from './common';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Company the vouchers are imported into; Tally uses the open company when empty
+export const TALLY_COMPANY = process.env.TALLY_COMPANY || '';
+
+const PAYMENT_METHODS = ['UPI', 'CARD', 'NET_BANKING', 'BANK_TRANSFER', 'CHEQUE'];
+
+export interface TallyVoucher {
+    number: string; // Derived from the source rows, so re-exports repeat it
+    type: 'Sales' | 'Journal' | 'Receipt' | 'Purchase';
+    date: Date;
+    party: string | null;
+    narration: string;
+    // Positive amounts are debits, negative amounts credits; they sum to zero
+    entries: { ledger: string; amount: number }[];
+}
+
+function ymd(date: Date): string {
+    return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Every ledger key the export uses with its default name, the saved override (if any) and the name in use.
+ */
+export async function listLedgerMappings(db: Db) {
+    const [saved, fuelTypes, clients, suppliers] = await Promise.all([
+        db.ledgerMapping.findMany(),
+        db.fuelType.findMany({ orderBy: { id: 'asc' } }),
+        db.client.findMany({ orderBy: { name: 'asc' }, select: { id: true, name: true } }),
+        db.supplier.findMany({ orderBy: { name: 'asc' }, select: { id: true, name: true } })
+    ]);
+    const overrides = new Map(saved.map(m => [m.key, m.ledgerName]));
+    const bank = overrides.get('bank') ?? 'Bank Account';
+
+    const defaults: [string, string][] = [
+        ['cash', 'Cash'],
+        ['bank', 'Bank Account'],
+        ['counter_sales', 'Counter Sales'],
+        ['sundry_creditors', 'Sundry Creditors'],
+        // Non-cash payment methods post to the bank ledger unless mapped separately
+        ...PAYMENT_METHODS.map(m => [`method:${m}`, bank] as [string, string]),
+        ...fuelTypes.map(f => [`sales:${f.id}`, `${f.name} Sales`] as [string, string]),
+        ...fuelTypes.map(f => [`purchase:${f.id}`, `${f.name} Purchases`] as [string, string]),
+        ...clients.map(c => [`client:${c.id}`, c.name] as [string, string]),
+        ...suppliers.map(s => [`supplier:${s.id}`, s.name] as [string, string])
+    ];
+    const ledgers = defaults.map(([key, defaultName]) => ({
+        key,
+        defaultName,
+        ledgerName: overrides.get(key) ?? null,
+        effectiveName: overrides.get(key) ?? defaultName
+    }));
+    return { ledgers, names: new Map(ledgers.map(l => [l.key, l.effectiveName])) };
+}
+
+/**
+ * Vouchers for a date range. Meter sales are booked per day and fuel type against a counter sales
+ * control ledger; cash, online receipts and credit sales then clear that ledger, so each litre is sold once.
+ */
+export async function buildTallyVouchers(db: Db, start: Date, end: Date): Promise<TallyVoucher[]> {
+    const { names } = await listLedgerMappings(db);
+    const ledger = (key: string, fallback: string) => names.get(key) || fallback;
+    const methodLedger = (method: string) => method === 'CASH' ? ledger('cash', 'Cash') : ledger(`method:${method}`, ledger('bank', 'Bank Account'));
+    const counterSales = ledger('counter_sales', 'Counter Sales');
+
+    const [readings, credits, cashReceipts, onlinePayments, clientPayments, purchases] = await Promise.all([
+        db.dailyReading.findMany({
+            where: { date: { gte: start, lte: end } },
+            include: { pump: { include: { fuelType: true } } },
+            orderBy: { date: 'asc' }
+        }),
+        db.clientCredit.findMany({
+            where: { date: { gte: start, lte: end } },
+            include: { client: { select: { name: true } }, fuelType: { select: { name: true } } },
+            orderBy: [{ date: 'asc' }, { id: 'asc' }]
+        }),
+        db.cashReceipt.findMany({ where: { date: { gte: start, lte: end } }, include: { pump: true }, orderBy: [{ date: 'asc' }, { id: 'asc' }] }),
+        db.onlinePayment.findMany({ where: { date: { gte: start, lte: end } }, orderBy: [{ date: 'asc' }, { id: 'asc' }] }),
+        db.clientPayment.findMany({
+            where: { date: { gte: start, lte: end } },
+            include: { client: { select: { name: true } } },
+            orderBy: [{ date: 'asc' }, { id: 'asc' }]
+        }),
+        db.purchase.findMany({
+            where: { OR: [{ invoiceDate: { gte: start, lte: end } }, { invoiceDate: null, date: { gte: start, lte: end } }] },
+            include: { tank: { include: { fuelType: true } }, supplierAccount: { select: { name: true } } },
+            orderBy: [{ date: 'asc' }, { id: 'asc' }]
+        })
+    ]);
+
+    const vouchers: TallyVoucher[] = [];
+
+    const daySales = new Map<string, { date: Date; fuelTypeId: number; fuelType: string; litres: number; amount: number }>();
+    for (const r of readings) {
+        const sold = soldLitres(r);
+        if (sold <= 0) continue;
+        const key = `${ymd(r.date)}_${r.pump.fuelTypeId}`;
+        const row = daySales.get(key) ?? { date: new Date(r.date.getFullYear(), r.date.getMonth(), r.date.getDate()), fuelTypeId: r.pump.fuelTypeId, fuelType: r.pump.fuelType.name, litres: 0, amount: 0 };
+        row.litres += sold;
+        row.amount += sold * Number(r.pricePerLitre);
+        daySales.set(key, row);
+    }
+    for (const row of daySales.values()) {
+        const amount = round2(row.amount);
+        if (amount === 0) continue;
+        vouchers.push({
+            number: `SAL/${ymd(row.date)}/${row.fuelTypeId}`,
+            type: 'Sales',
+            date: row.date,
+            party: counterSales,
+            narration: `${row.fuelType} meter sales ${row.litres.toFixed(2)} L`,
+            entries: [
+                { ledger: counterSales, amount },
+                { ledger: ledger(`sales:${row.fuelTypeId}`, `${row.fuelType} Sales`), amount: -amount }
+            ]
+        });
+    }
+
+    for (const c of credits) {
+        const amount = round2(Number(c.totalAmount));
+        const party = ledger(`client:${c.clientId}`, c.client.name);
+        vouchers.push({
+            number: `CRS/${c.id}`,
+            type: 'Journal',
+            date: c.date,
+            party,
+            narration: `Credit sale CR-${c.id}: ${Number(c.litres).toFixed(2)} L ${c.fuelType.name}${c.note ? ` - ${c.note}` : ''}`,
+            entries: [{ ledger: party, amount }, { ledger: counterSales, amount: -amount }]
+        });
+    }
+
+    for (const r of cashReceipts) {
+        const amount = round2(Number(r.amount));
+        vouchers.push({
+            number: `RCT/C/${r.id}`,
+            type: 'Receipt',
+            date: r.date,
+            party: counterSales,
+            narration: `Cash collected at ${r.pump.name}${r.collectedBy ? ` by ${r.collectedBy}` : ''}`,
+            entries: [{ ledger: ledger('cash', 'Cash'), amount }, { ledger: counterSales, amount: -amount }]
+        });
+    }
+
+    for (const p of onlinePayments) {
+        const amount = round2(Number(p.amount));
+        vouchers.push({
+            number: `RCT/O/${p.id}`,
+            type: 'Receipt',
+            date: p.date,
+            party: counterSales,
+            narration: `${p.method} collection${p.reference ? ` ref ${p.reference}` : ''}${p.description ? ` - ${p.description}` : ''}`,
+            entries: [{ ledger: methodLedger(p.method), amount }, { ledger: counterSales, amount: -amount }]
+        });
+    }
+
+    for (const p of clientPayments) {
+        const amount = round2(Number(p.amount));
+        const party = ledger(`client:${p.clientId}`, p.client.name);
+        vouchers.push({
+            number: `RCT/P/${p.id}`,
+            type: 'Receipt',
+            date: p.date,
+            party,
+            narration: `Payment from ${p.client.name} by ${p.paymentMethod}${p.reference ? ` ref ${p.reference}` : ''}`,
+            entries: [{ ledger: methodLedger(p.paymentMethod), amount }, { ledger: party, amount: -amount }]
+        });
+    }
+
+    for (const p of purchases) {
+        const amount = round2(Number(p.invoiceAmount ?? p.totalCost));
+        const party = p.supplierId
+            ? ledger(`supplier:${p.supplierId}`, p.supplierAccount?.name || '')
+            : p.supplier || ledger('sundry_creditors', 'Sundry Creditors');
+        const fuelType = p.tank.fuelType;
+        vouchers.push({
+            number: `PUR/${p.id}`,
+            type: 'Purchase',
+            date: p.invoiceDate ?? p.date,
+            party,
+            narration: `${Number(p.litres).toFixed(2)} L ${fuelType.name} into ${p.tank.name}${p.invoiceNo ? `, supplier invoice ${p.invoiceNo}` : ''}`,
+            entries: [
+                { ledger: ledger(`purchase:${fuelType.id}`, `${fuelType.name} Purchases`), amount },
+                { ledger: party, amount: -amount }
+            ]
+        });
+    }
+
+    return vouchers.sort((a, b) => a.date.getTime() - b.date.getTime() || a.number.localeCompare(b.number));
+}
+
+function xml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Tally "Import Data" envelope. Each voucher carries a REMOTEID built from its number; Tally matches on it,
+ * so importing a period twice updates the vouchers instead of duplicating them.
+ */
+export function renderTallyXml(vouchers: TallyVoucher[], company: string = TALLY_COMPANY): string {
+    const body = vouchers.map(v => {
+        const entries = v.entries.map(e => [
+            '      <ALLLEDGERENTRIES.LIST>',
+            `       <LEDGERNAME>${xml(e.ledger)}</LEDGERNAME>`,
+            `       <ISDEEMEDPOSITIVE>${e.amount > 0 ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>`,
+            // Tally signs debits negative
+            `       <AMOUNT>${(-e.amount).toFixed(2)}</AMOUNT>`,
+            '      </ALLLEDGERENTRIES.LIST>'
+        ].join('\n')).join('\n');
+        return [
+            `     <VOUCHER REMOTEID="fuelstation-${xml(v.number)}" VCHTYPE="${v.type}" ACTION="Create">`,
+            `      <DATE>${ymd(v.date)}</DATE>`,
+            `      <VOUCHERTYPENAME>${v.type}</VOUCHERTYPENAME>`,
+            `      <VOUCHERNUMBER>${xml(v.number)}</VOUCHERNUMBER>`,
+            ...(v.party ? [`      <PARTYLEDGERNAME>${xml(v.party)}</PARTYLEDGERNAME>`] : []),
+            `      <NARRATION>${xml(v.narration)}</NARRATION>`,
+            entries,
+            '     </VOUCHER>'
+        ].join('\n');
+    }).join('\n');
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<ENVELOPE>',
+        ' <HEADER>',
+        '  <TALLYREQUEST>Import Data</TALLYREQUEST>',
+        ' </HEADER>',
+        ' <BODY>',
+        '  <IMPORTDATA>',
+        '   <REQUESTDESC>',
+        '    <REPORTNAME>Vouchers</REPORTNAME>',
+        ...(company ? ['    <STATICVARIABLES>', `     <SVCURRENTCOMPANY>${xml(company)}</SVCURRENTCOMPANY>`, '    </STATICVARIABLES>'] : []),
+        '   </REQUESTDESC>',
+        '   <REQUESTDATA>',
+        '    <TALLYMESSAGE xmlns:UDF="TallyUDF">',
+        body,
+        '    </TALLYMESSAGE>',
+        '   </REQUESTDATA>',
+        '  </IMPORTDATA>',
+        ' </BODY>',
+        '</ENVELOPE>',
+        ''
+    ].join('\n');
+}
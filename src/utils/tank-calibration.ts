@@ -0,0 +1,120 @@
+import { PrismaClient } from '@prisma/client';
+
+export interface CalibrationPoint {
+    dipMm: number;
+    litres: number;
+}
+
+/**
+ * Parse a calibration chart CSV with `dip_mm,litres` rows.
+ * A non-numeric first line is treated as a header; blank lines are ignored.
+ */
+export function parseCalibrationCsv(csv: string): { points: CalibrationPoint[]; errors: string[] } {
+    const points: CalibrationPoint[] = [];
+    const errors: string[] = [];
+
+    const lines = csv.split(/\r?\n/);
+    lines.forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+
+        const [dipRaw, litresRaw] = trimmed.split(/[,;\t]/).map(v => v.trim());
+        const dipMm = Number(dipRaw);
+        const litres = Number(litresRaw);
+
+        if (isNaN(dipMm) || isNaN(litres) || litresRaw === undefined) {
+            if (index === 0) return; // header
+            errors.push(`Line ${index + 1}: expected "dip_mm,litres", got "${trimmed}"`);
+            return;
+        }
+        if (dipMm < 0 || litres < 0) {
+            errors.push(`Line ${index + 1}: dip and litres must be non-negative`);
+            return;
+        }
+        points.push({ dipMm, litres });
+    });
+
+    points.sort((a, b) => a.dipMm - b.dipMm);
+    for (let i = 1; i < points.length; i++) {
+        if (points[i].dipMm === points[i - 1].dipMm) {
+            errors.push(`Duplicate dip value ${points[i].dipMm}mm`);
+        } else if (points[i].litres < points[i - 1].litres) {
+            errors.push(`Volume decreases between ${points[i - 1].dipMm}mm and ${points[i].dipMm}mm`);
+        }
+    }
+
+    return { points, errors };
+}
+
+/**
+ * Linear interpolation between the two chart rows around the dip.
+ * Dips below the first row interpolate from an empty tank; dips above the last row are rejected.
+ */
+export function interpolateLitres(points: CalibrationPoint[], dipMm: number): number {
+    if (points.length === 0) {
+        throw new Error('Calibration chart is empty');
+    }
+    if (dipMm < 0) {
+        throw new Error('Dip cannot be negative');
+    }
+
+    const last = points[points.length - 1];
+    if (dipMm > last.dipMm) {
+        throw new Error(`Dip ${dipMm}mm is above the calibration chart (max ${last.dipMm}mm)`);
+    }
+
+    let lower: CalibrationPoint = { dipMm: 0, litres: 0 };
+    for (const point of points) {
+        if (point.dipMm === dipMm) return point.litres;
+        if (point.dipMm > dipMm) {
+            const ratio = (dipMm - lower.dipMm) / (point.dipMm - lower.dipMm);
+            return lower.litres + ratio * (point.litres - lower.litres);
+        }
+        lower = point;
+    }
+    return last.litres;
+}
+
+export async function getCalibrationPoints(prisma: PrismaClient, tankId: number): Promise<CalibrationPoint[]> {
+    const rows = await prisma.tankCalibrationRow.findMany({
+        where: { tankId },
+        orderBy: { dipMm: 'asc' }
+    });
+    return rows.map(r => ({ dipMm: Number(r.dipMm), litres: Number(r.litres) }));
+}
+
+/**
+ * Physical volume from the tank's latest dip, converted through its calibration chart.
+ * Returns null when the tank has never been dipped.
+ */
+export async function getCalibratedVolume(prisma: PrismaClient, tankId: number): Promise<{
+    calibratedVolume: number;
+    dipCm: number;
+    dipDate: Date;
+    fromChart: boolean;
+} | null> {
+    const lastDip = await prisma.tankDip.findFirst({
+        where: { tankId },
+        orderBy: { date: 'desc' }
+    });
+    if (!lastDip) return null;
+
+    const points = await getCalibrationPoints(prisma, tankId);
+    let calibratedVolume = Number(lastDip.litres);
+    let fromChart = false;
+    if (points.length > 0) {
+        try {
+            calibratedVolume = interpolateLitres(points, Number(lastDip.dipCm) * 10);
+            fromChart = true;
+        } catch {
+            // Dip outside the chart: keep the litres recorded with the dip
+        }
+    }
+
+    return {
+        calibratedVolume: Math.round(calibratedVolume * 100) / 100,
+        dipCm: Number(lastDip.dipCm),
+        dipDate: lastDip.date,
+        fromChart
+    };
+}
@@ -0,0 +1,38 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Resolve the tank a pump draws from: its explicit mapping if set and active,
+ * otherwise the first active tank of the pump's fuel type.
+ */
+export async function resolveTankForPump(db: Db, pump: { fuelTypeId: number; tankId: number | null }) {
+    if (pump.tankId) {
+        const mapped = await db.tank.findUnique({ where: { id: pump.tankId } });
+        if (mapped && mapped.isActive) {
+            return mapped;
+        }
+    }
+
+    return db.tank.findFirst({
+        where: { fuelTypeId: pump.fuelTypeId, isActive: true },
+        orderBy: { id: 'asc' }
+    });
+}
+
+/**
+ * Check that a tank can feed a pump: it must exist, be active and hold the pump's fuel.
+ */
+export async function validateTankMapping(db: Db, tankId: number, fuelTypeId: number): Promise<string | null> {
+    const tank = await db.tank.findUnique({ where: { id: tankId }, include: { fuelType: true } });
+    if (!tank) {
+        return `Tank with ID ${tankId} not found`;
+    }
+    if (!tank.isActive) {
+        return `Tank ${tank.name} is not active`;
+    }
+    if (tank.fuelTypeId !== fuelTypeId) {
+        return `Tank ${tank.name} holds ${tank.fuelType.name}, which does not match the pump's fuel type`;
+    }
+    return null;
+}
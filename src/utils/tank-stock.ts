@@ -0,0 +1,104 @@
+import { PrismaClient } from '@prisma/client';
+import { resolveTankForPump } from './tank-mapping';
+import { soldLitres } from './pump-testing';
+
+export const DEFAULT_VARIANCE_TOLERANCE_PERCENT = 0.5; // % of meter sales
+
+/**
+ * Convert a dip (product height in cm) to litres for a horizontal cylindrical tank.
+ * Uses the circular segment area, with the tank length implied by its capacity.
+ */
+export function cylinderDipToLitres(dipCm: number, diameterCm: number, capacityLit: number): number {
+    if (dipCm <= 0) return 0;
+    if (dipCm >= diameterCm) return capacityLit;
+
+    const r = diameterCm / 2;
+    const theta = 2 * Math.acos((r - dipCm) / r);
+    const filledFraction = (theta - Math.sin(theta)) / (2 * Math.PI);
+    return capacityLit * filledFraction;
+}
+
+/**
+ * Litres dispensed per tank between two instants, from meter readings.
+ * Nozzle readings are attributed to each nozzle's tank; pumps without nozzle readings
+ * fall back to the pump-level reading and the pump's tank mapping. Testing litres go back into
+ * the tank, so they are taken off again here.
+ */
+export async function getMeterSalesByTank(prisma: PrismaClient, start: Date, end: Date): Promise<Record<number, number>> {
+    const totals: Record<number, number> = {};
+
+    const nozzleReadings = await prisma.nozzleReading.findMany({
+        where: { date: { gte: start, lte: end } },
+        include: { nozzle: true }
+    });
+    const pumpsWithNozzleReadings = new Set<string>();
+    for (const r of nozzleReadings) {
+        const sold = Number(r.closingTotalizer) - Number(r.openingTotalizer);
+        totals[r.nozzle.tankId] = (totals[r.nozzle.tankId] || 0) + sold;
+        pumpsWithNozzleReadings.add(`${r.nozzle.pumpId}_${r.date.toISOString()}`);
+    }
+
+    const readings = await prisma.dailyReading.findMany({
+        where: { date: { gte: start, lte: end } },
+        include: { pump: true }
+    });
+    const tankCache = new Map<number, number | null>();
+    for (const r of readings) {
+        // Already counted through its nozzles, bar the testing litres recorded on the pump reading
+        const viaNozzles = pumpsWithNozzleReadings.has(`${r.pumpId}_${r.date.toISOString()}`);
+        const sold = viaNozzles ? -Number(r.testingLitres) : soldLitres(r);
+        if (viaNozzles ? sold === 0 : sold <= 0) continue;
+
+        if (!tankCache.has(r.pumpId)) {
+            const tank = await resolveTankForPump(prisma, r.pump);
+            tankCache.set(r.pumpId, tank ? tank.id : null);
+        }
+        const tankId = tankCache.get(r.pumpId);
+        if (tankId) {
+            totals[tankId] = (totals[tankId] || 0) + sold;
+        }
+    }
+
+    return totals;
+}
+
+/**
+ * Litres unloaded into each tank between two instants.
+ * Older purchases have no unload timestamp, so their purchase date is used instead.
+ * With `volumeCorrected`, receipts checked at decantation count at their 15°C volume.
+ */
+export async function getReceiptsByTank(prisma: PrismaClient, start: Date, end: Date, volumeCorrected = false): Promise<Record<number, number>> {
+    const purchases = await prisma.purchase.findMany({
+        where: {
+            status: 'unloaded',
+            OR: [
+                { unloadedAt: { gte: start, lte: end } },
+                { unloadedAt: null, date: { gte: start, lte: end } }
+            ]
+        }
+    });
+
+    const totals: Record<number, number> = {};
+    for (const p of purchases) {
+        const litres = volumeCorrected && p.volume15 !== null ? p.volume15 : p.litres;
+        totals[p.tankId] = (totals[p.tankId] || 0) + Number(litres);
+    }
+    return totals;
+}
+
+/**
+ * Book stock per tank at an instant, worked back from the current book level:
+ * current level less what has been received since, plus what has been dispensed since.
+ */
+export async function getBookStockAt(prisma: PrismaClient, tanks: { id: number; currentLevel: unknown }[], at: Date): Promise<Record<number, number>> {
+    const now = new Date();
+    const [salesSince, receiptsSince] = at >= now
+        ? [{}, {}] as Record<number, number>[]
+        : await Promise.all([getMeterSalesByTank(prisma, at, now), getReceiptsByTank(prisma, at, now)]);
+
+    const stock: Record<number, number> = {};
+    for (const tank of tanks) {
+        stock[tank.id] = Number(tank.currentLevel) - (receiptsSince[tank.id] || 0) + (salesSince[tank.id] || 0);
+    }
+    return stock;
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { getCalibratedVolume } from './tank-calibration';
 
 export interface TankValidationResult {
     isValid: boolean;
@@ -194,6 +195,8 @@ export class TankValidator {
             capacity: number;
             availableSpace: number;
             percentage: number;
+            calibratedVolume: number | null;
+            lastDipAt: Date | null;
             canSell: boolean;
             canUnload: boolean;
         };
@@ -212,6 +215,7 @@ export class TankValidator {
             const capacity = Number(tank.capacityLit);
             const availableSpace = capacity - currentLevel;
             const percentage = (currentLevel / capacity) * 100;
+            const calibrated = await getCalibratedVolume(this.prisma, tankId);
 
             return {
                 tank,
@@ -220,6 +224,8 @@ export class TankValidator {
                     capacity,
                     availableSpace,
                     percentage,
+                    calibratedVolume: calibrated ? calibrated.calibratedVolume : null,
+                    lastDipAt: calibrated ? calibrated.dipDate : null,
                     canSell: currentLevel > 0,
                     canUnload: availableSpace > 0
                 }
@@ -0,0 +1,136 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const VEHICLE_TYPES = ['truck', 'tanker', 'bus', 'car', 'tractor', 'other'];
+
+// Registration numbers are stored upper case without spaces or dashes so "MH 12-AB 1234" matches "MH12AB1234"
+export function normaliseRegistration(registrationNo: string): string {
+    return String(registrationNo).toUpperCase().replace(/[\s-]+/g, '');
+}
+
+function monthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Check that a credit may be drawn for a vehicle: it belongs to the client, is active,
+ * may take the fuel type and stays within its monthly litre cap. Returns an error message, or null when allowed.
+ */
+export async function checkVehicleForCredit(db: Db, request: { clientId: number; vehicleId: number; fuelTypeId: number; litres: number; date: Date }): Promise<string | null> {
+    const vehicle = await db.vehicle.findUnique({
+        where: { id: request.vehicleId },
+        include: { allowedFuelTypes: { select: { id: true, name: true } } }
+    });
+    if (!vehicle || vehicle.clientId !== request.clientId) return `Vehicle ${request.vehicleId} is not registered to this client`;
+    if (!vehicle.isActive) return `Vehicle ${vehicle.registrationNo} is inactive`;
+
+    if (vehicle.allowedFuelTypes.length > 0 && !vehicle.allowedFuelTypes.some(f => f.id === request.fuelTypeId)) {
+        return `Vehicle ${vehicle.registrationNo} may only draw ${vehicle.allowedFuelTypes.map(f => f.name).join(', ')}`;
+    }
+
+    if (vehicle.monthlyLitreCap !== null) {
+        const start = new Date(request.date.getFullYear(), request.date.getMonth(), 1);
+        const end = new Date(request.date.getFullYear(), request.date.getMonth() + 1, 1);
+        const used = await db.clientCredit.aggregate({
+            _sum: { litres: true },
+            where: { vehicleId: vehicle.id, date: { gte: start, lt: end } }
+        });
+        const usedLitres = Number(used._sum.litres ?? 0);
+        const cap = Number(vehicle.monthlyLitreCap);
+        if (usedLitres + request.litres > cap) {
+            return `Vehicle ${vehicle.registrationNo} would draw ${usedLitres + request.litres}L in ${monthKey(start)}, over its monthly cap of ${cap}L`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Litres and amount drawn per vehicle over a period, with a per-month breakdown against each vehicle's cap.
+ * Credits drawn with no vehicle, or with a fuel type the vehicle may not take, are called out.
+ */
+export async function getVehicleUsage(db: Db, start: Date, end: Date, filters: { clientId?: number; vehicleId?: number } = {}) {
+    const where: Prisma.ClientCreditWhereInput = { date: { gte: start, lte: end } };
+    if (filters.clientId) where.clientId = filters.clientId;
+    if (filters.vehicleId) where.vehicleId = filters.vehicleId;
+
+    const credits = await db.clientCredit.findMany({
+        where,
+        include: {
+            client: { select: { id: true, name: true } },
+            fuelType: { select: { id: true, name: true } },
+            vehicle: { include: { allowedFuelTypes: { select: { id: true } } } }
+        },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+
+    const vehicles: Record<number, any> = {};
+    const unassigned: Record<number, { clientId: number; clientName: string; litres: number; amount: number; credits: number }> = {};
+
+    for (const credit of credits) {
+        const litres = Number(credit.litres);
+        const amount = Number(credit.totalAmount);
+
+        if (!credit.vehicle) {
+            if (!unassigned[credit.clientId]) {
+                unassigned[credit.clientId] = { clientId: credit.clientId, clientName: credit.client.name, litres: 0, amount: 0, credits: 0 };
+            }
+            unassigned[credit.clientId].litres += litres;
+            unassigned[credit.clientId].amount += amount;
+            unassigned[credit.clientId].credits += 1;
+            continue;
+        }
+
+        const vehicle = credit.vehicle;
+        if (!vehicles[vehicle.id]) {
+            vehicles[vehicle.id] = {
+                vehicleId: vehicle.id,
+                registrationNo: vehicle.registrationNo,
+                vehicleType: vehicle.vehicleType,
+                clientId: credit.clientId,
+                clientName: credit.client.name,
+                monthlyLitreCap: vehicle.monthlyLitreCap !== null ? Number(vehicle.monthlyLitreCap) : null,
+                litres: 0,
+                amount: 0,
+                credits: 0,
+                byFuelType: {} as Record<string, { litres: number; amount: number }>,
+                months: {} as Record<string, { litres: number; amount: number; overCap: boolean }>,
+                disallowedFuelCredits: [] as number[]
+            };
+        }
+        const row = vehicles[vehicle.id];
+        row.litres += litres;
+        row.amount += amount;
+        row.credits += 1;
+
+        const fuel = row.byFuelType[credit.fuelType.name] ?? (row.byFuelType[credit.fuelType.name] = { litres: 0, amount: 0 });
+        fuel.litres += litres;
+        fuel.amount += amount;
+
+        const month = row.months[monthKey(credit.date)] ?? (row.months[monthKey(credit.date)] = { litres: 0, amount: 0, overCap: false });
+        month.litres += litres;
+        month.amount += amount;
+        month.overCap = row.monthlyLitreCap !== null && month.litres > row.monthlyLitreCap;
+
+        if (vehicle.allowedFuelTypes.length > 0 && !vehicle.allowedFuelTypes.some(f => f.id === credit.fuelTypeId)) {
+            row.disallowedFuelCredits.push(credit.id);
+        }
+    }
+
+    const rows = Object.values(vehicles).map(v => ({
+        ...v,
+        flagged: v.disallowedFuelCredits.length > 0 || Object.values(v.months).some((m: any) => m.overCap)
+    }));
+
+    return {
+        start,
+        end,
+        vehicles: rows.sort((a, b) => b.litres - a.litres),
+        unassigned: Object.values(unassigned),
+        totals: {
+            litres: credits.reduce((sum, c) => sum + Number(c.litres), 0),
+            amount: credits.reduce((sum, c) => sum + Number(c.totalAmount), 0)
+        }
+    };
+}
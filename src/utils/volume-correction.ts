@@ -0,0 +1,126 @@
+/**
+ * Petroleum volume and density correction to the 15°C reference temperature,
+ * following ASTM D1250 / API MPMS 11.1 Tables 53B and 54B (generalized products).
+ */
+
+export const REFERENCE_TEMPERATURE_C = 15;
+export const DENSITY_TOLERANCE_KG_M3 = process.env.DENSITY_TOLERANCE_KG_M3 ? Number(process.env.DENSITY_TOLERANCE_KG_M3) : 3;
+
+// Thermal expansion coefficient at 15°C for a density at 15°C (kg/m³), Table 54B product ranges
+function thermalExpansionCoefficient(density15: number): number {
+    if (density15 < 770.5) {
+        // Gasolines
+        return 346.4228 / (density15 * density15) + 0.4388 / density15;
+    }
+    if (density15 < 787.5) {
+        // Transition zone between gasolines and jet fuels
+        return -0.00336312 + 2680.3206 / (density15 * density15);
+    }
+    if (density15 < 839) {
+        // Jet fuels and kerosenes
+        return 594.5418 / (density15 * density15);
+    }
+    // Diesel and fuel oils
+    return 186.9696 / (density15 * density15) + 0.4862 / density15;
+}
+
+/**
+ * Volume correction factor (Table 54B): multiply an observed volume at `temperatureC` by this to get litres at 15°C.
+ */
+export function volumeCorrectionFactor(density15: number, temperatureC: number): number {
+    const alpha = thermalExpansionCoefficient(density15);
+    const deltaT = temperatureC - REFERENCE_TEMPERATURE_C;
+    return Math.exp(-alpha * deltaT * (1 + 0.8 * alpha * deltaT));
+}
+
+/**
+ * Density at 15°C from an observed density at temperature (Table 53B), solved iteratively.
+ */
+export function densityAt15(observedDensity: number, temperatureC: number): number {
+    let density15 = observedDensity;
+    for (let i = 0; i < 20; i++) {
+        const next = observedDensity / volumeCorrectionFactor(density15, temperatureC);
+        if (Math.abs(next - density15) < 0.001) {
+            return next;
+        }
+        density15 = next;
+    }
+    return density15;
+}
+
+export interface QualityReadings {
+    invoiceDensity?: number | null; // kg/m³ at 15°C, as printed on the invoice
+    observedTemperature?: number | null; // °C at decantation
+    observedDensity?: number | null; // kg/m³ read on the hydrometer at observedTemperature
+}
+
+export interface QualityResult {
+    density15: number | null;
+    vcf: number | null;
+    volume15: number | null;
+    densityVariance: number | null;
+    densityStatus: 'ok' | 'out_of_band' | 'not_checked';
+}
+
+/**
+ * Correct observed figures to 15°C and compare the corrected density with the invoice density.
+ */
+export function evaluateQuality(litres: number, readings: QualityReadings): QualityResult {
+    const { invoiceDensity, observedTemperature, observedDensity } = readings;
+
+    if (observedDensity == null || observedTemperature == null) {
+        return { density15: null, vcf: null, volume15: null, densityVariance: null, densityStatus: 'not_checked' };
+    }
+
+    const density15 = densityAt15(observedDensity, observedTemperature);
+    const vcf = volumeCorrectionFactor(density15, observedTemperature);
+    const volume15 = litres * vcf;
+
+    let densityVariance: number | null = null;
+    let densityStatus: QualityResult['densityStatus'] = 'not_checked';
+    if (invoiceDensity != null) {
+        densityVariance = density15 - invoiceDensity;
+        densityStatus = Math.abs(densityVariance) <= DENSITY_TOLERANCE_KG_M3 ? 'ok' : 'out_of_band';
+    }
+
+    return {
+        density15: round(density15, 1),
+        vcf: round(vcf, 5),
+        volume15: round(volume15, 2),
+        densityVariance: densityVariance !== null ? round(densityVariance, 1) : null,
+        densityStatus
+    };
+}
+
+/**
+ * Pull optional quality readings out of a request body, rejecting non-numeric values.
+ */
+export function parseQualityReadings(body: any): { readings: QualityReadings; error?: string } {
+    const readings: QualityReadings = {};
+    for (const field of ['invoiceDensity', 'observedTemperature', 'observedDensity'] as const) {
+        const raw = body?.[field];
+        if (raw === undefined || raw === null || raw === '') continue;
+        const value = Number(raw);
+        if (isNaN(value)) {
+            return { readings, error: `${field} must be a number, got: ${raw}` };
+        }
+        readings[field] = value;
+    }
+
+    if (readings.invoiceDensity !== undefined && (readings.invoiceDensity < 600 || readings.invoiceDensity > 1100)) {
+        return { readings, error: `invoiceDensity must be in kg/m³ (600-1100), got: ${readings.invoiceDensity}` };
+    }
+    if (readings.observedDensity !== undefined && (readings.observedDensity < 600 || readings.observedDensity > 1100)) {
+        return { readings, error: `observedDensity must be in kg/m³ (600-1100), got: ${readings.observedDensity}` };
+    }
+    if (readings.observedTemperature !== undefined && (readings.observedTemperature < -20 || readings.observedTemperature > 60)) {
+        return { readings, error: `observedTemperature must be in °C (-20 to 60), got: ${readings.observedTemperature}` };
+    }
+
+    return { readings };
+}
+
+function round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+}
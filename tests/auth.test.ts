@@ -0,0 +1,121 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import { createAuthMiddleware, findPermissionRule, hashToken, normalisePath } from '../src/utils/auth';
+
+const sessions: Record<string, { role: string }> = {
+    'owner-token': { role: 'owner' },
+    'manager-token': { role: 'manager' },
+    'attendant-token': { role: 'attendant' }
+};
+
+// Only session.findUnique is used by the middleware
+const prisma: any = {
+    session: {
+        findUnique: async ({ where }: { where: { tokenHash: string } }) => {
+            const token = Object.keys(sessions).find(t => hashToken(t) === where.tokenHash);
+            if (!token) return null;
+            const role = sessions[token].role;
+            return {
+                id: 1,
+                userId: 1,
+                revokedAt: null,
+                expiresAt: new Date(Date.now() + 60_000),
+                user: { id: 1, username: role, name: role, role, isActive: true }
+            };
+        }
+    }
+};
+
+describe('normalisePath', () => {
+    it('lowercases and drops trailing slashes', () => {
+        assert.equal(normalisePath('/API/Clients/5/'), '/api/clients/5');
+        assert.equal(normalisePath('/api/logs//'), '/api/logs');
+        assert.equal(normalisePath('/'), '/');
+    });
+});
+
+describe('findPermissionRule', () => {
+    const roles = (method: string, path: string) => findPermissionRule(method, path)?.roles;
+
+    it('keeps user management and destructive maintenance to the owner', () => {
+        assert.deepEqual(roles('GET', '/api/users'), ['owner']);
+        assert.deepEqual(roles('POST', '/api/seed/all'), ['owner']);
+        assert.deepEqual(roles('POST', '/api/init-db'), ['owner']);
+        assert.deepEqual(roles('DELETE', '/api/logs'), ['owner']);
+        assert.deepEqual(roles('DELETE', '/api/clients/5'), ['owner']);
+        assert.deepEqual(roles('POST', '/api/tank-capacity/update-capacity'), ['owner']);
+    });
+
+    it('lets attendants enter forecourt data', () => {
+        for (const path of ['/api/readings', '/api/readings/bulk', '/api/credits', '/api/shifts/3/close', '/api/tank-dips']) {
+            assert.ok(roles('POST', path).includes('attendant'), path);
+        }
+    });
+
+    it('lets everyone read but keeps logs and db-check to management', () => {
+        assert.ok(roles('GET', '/api/tanks').includes('attendant'));
+        assert.deepEqual(roles('GET', '/api/logs'), ['owner', 'manager']);
+        assert.deepEqual(roles('GET', '/api/db-check'), ['owner', 'manager']);
+    });
+
+    it('falls through to management for any other write', () => {
+        assert.deepEqual(roles('POST', '/api/prices'), ['owner', 'manager']);
+        assert.deepEqual(roles('DELETE', '/api/clients/5/payments'), ['owner', 'manager']);
+    });
+});
+
+describe('createAuthMiddleware', () => {
+    let server: ReturnType<express.Express['listen']>;
+    let baseUrl: string;
+
+    before(async () => {
+        const app = express();
+        app.use(createAuthMiddleware(prisma));
+        app.use((_req, res) => res.json({ ok: true }));
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    const call = async (method: string, path: string, token?: string) => {
+        const res = await fetch(baseUrl + path, { method, headers: token ? { Authorization: `Bearer ${token}` } : {} });
+        return res.status;
+    };
+
+    it('lets public routes and non-api paths through without a token', async () => {
+        assert.equal(await call('POST', '/api/auth/login'), 200);
+        assert.equal(await call('GET', '/api/status'), 200);
+        assert.equal(await call('GET', '/health'), 200);
+    });
+
+    it('requires a valid session everywhere else', async () => {
+        assert.equal(await call('GET', '/api/tanks'), 401);
+        assert.equal(await call('GET', '/api/tanks', 'unknown-token'), 401);
+    });
+
+    it('enforces roles from the matrix', async () => {
+        assert.equal(await call('GET', '/api/tanks', 'attendant-token'), 200);
+        assert.equal(await call('POST', '/api/readings', 'attendant-token'), 200);
+        assert.equal(await call('POST', '/api/prices', 'attendant-token'), 403);
+        assert.equal(await call('POST', '/api/prices', 'manager-token'), 200);
+        assert.equal(await call('DELETE', '/api/clients/5', 'manager-token'), 403);
+        assert.equal(await call('DELETE', '/api/clients/5', 'owner-token'), 200);
+    });
+
+    it('does not skip authentication for an upper-case path', async () => {
+        assert.equal(await call('GET', '/API/tanks'), 401);
+        assert.equal(await call('GET', '/Api/Users', 'manager-token'), 403);
+        assert.equal(await call('POST', '/API/PRICES', 'attendant-token'), 403);
+    });
+
+    it('does not miss owner-only rules behind a trailing slash', async () => {
+        assert.equal(await call('DELETE', '/api/clients/5/', 'manager-token'), 403);
+        assert.equal(await call('DELETE', '/api/logs/', 'manager-token'), 403);
+        assert.equal(await call('POST', '/api/init-db/', 'manager-token'), 403);
+        assert.equal(await call('DELETE', '/api/clients/5/', 'owner-token'), 200);
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma, Relations } from './fake-prisma';
+import {
+    applyClientAllocations,
+    backfillLegacyCreditPayments,
+    creditStatusFor,
+    getClientBalance,
+    getClientLedger,
+    planClientAllocations
+} from '../src/utils/client-ledger';
+
+const relations: Relations = {
+    clientCredit: {
+        fuelType: { model: 'fuelType', kind: 'one', from: 'fuelTypeId', to: 'id' },
+        allocations: { model: 'clientPaymentAllocation', kind: 'many', from: 'id', to: 'creditId' }
+    }
+};
+
+const day = (d: number) => new Date(2026, 0, d);
+
+function credit(id: number, date: Date, totalAmount: number, extra: Record<string, any> = {}) {
+    return { id, clientId: 1, fuelTypeId: 1, litres: totalAmount / 100, pricePerLitre: 100, totalAmount, paidAmount: 0, status: 'unpaid', date, ...extra };
+}
+
+function seed(extra: Record<string, any[]> = {}) {
+    return createFakePrisma({
+        client: [{ id: 1, name: 'Acme Transport', balance: 0 }],
+        fuelType: [{ id: 1, name: 'Diesel' }],
+        clientCredit: [credit(1, day(2), 1000), credit(2, day(5), 500), credit(3, day(9), 250)],
+        clientPayment: [],
+        clientPaymentAllocation: [],
+        clientCharge: [],
+        ...extra
+    }, relations);
+}
+
+describe('getClientBalance', () => {
+    it('adds sales and charges and takes off payments and reversed charges', async () => {
+        const db = seed({
+            clientPayment: [{ id: 1, clientId: 1, amount: 600, paymentMethod: 'CASH', date: day(6) }],
+            clientCharge: [
+                { id: 1, clientId: 1, amount: 40, status: 'active', date: day(3) },
+                { id: 2, clientId: 1, amount: 15, status: 'reversed', date: day(3), reversedAt: day(8) }
+            ]
+        });
+
+        assert.equal(await getClientBalance(db, 1), 1000 + 500 + 250 + 40 + 15 - 600 - 15);
+        // Before the 6th: two sales and both charges, the payment and reversal come later
+        assert.equal(await getClientBalance(db, 1, day(6)), 1000 + 500 + 40 + 15);
+    });
+});
+
+describe('getClientLedger', () => {
+    it('opens with the balance before the range and runs it through the entries', async () => {
+        const db = seed({
+            clientPayment: [
+                { id: 1, clientId: 1, amount: 300, paymentMethod: 'UPI', date: day(5) },
+                { id: 2, clientId: 1, amount: 100, paymentMethod: 'CASH', date: day(1) }
+            ]
+        });
+
+        const ledger = await getClientLedger(db, 1, day(3), day(31));
+
+        assert.equal(ledger.openingBalance, 1000 - 100);
+        // Same-day sale before the payment
+        assert.deepEqual(ledger.entries.map(e => [e.type, e.sourceId, e.balance]), [
+            ['credit_sale', 2, 1400],
+            ['payment', 1, 1100],
+            ['credit_sale', 3, 1350]
+        ]);
+        assert.equal(ledger.totalDebit, 750);
+        assert.equal(ledger.totalCredit, 300);
+        assert.equal(ledger.closingBalance, 1350);
+    });
+});
+
+describe('planClientAllocations', () => {
+    it('spreads a payment oldest first and leaves the rest as an advance', async () => {
+        const db = seed();
+        db.tables.clientCredit[0].paidAmount = 400;
+        db.tables.clientCredit[0].status = 'partially_paid';
+
+        const result = await planClientAllocations(db, 1, 1500);
+
+        assert.deepEqual(result.plan, [{ creditId: 1, amount: 600 }, { creditId: 2, amount: 500 }, { creditId: 3, amount: 250 }]);
+        assert.equal(result.unallocated, 150);
+        assert.equal(result.error, undefined);
+    });
+
+    it('skips paid credits', async () => {
+        const db = seed();
+        Object.assign(db.tables.clientCredit[0], { paidAmount: 1000, status: 'paid' });
+
+        const result = await planClientAllocations(db, 1, 600);
+
+        assert.deepEqual(result.plan, [{ creditId: 2, amount: 500 }, { creditId: 3, amount: 100 }]);
+        assert.equal(result.unallocated, 0);
+    });
+
+    it('takes explicit allocations as given', async () => {
+        const result = await planClientAllocations(seed(), 1, 400, [{ creditId: 3, amount: 250 }, { creditId: 2, amount: 100 }]);
+
+        assert.deepEqual(result.plan, [{ creditId: 3, amount: 250 }, { creditId: 2, amount: 100 }]);
+        assert.equal(result.unallocated, 50);
+    });
+
+    it('rejects explicit allocations that do not fit', async () => {
+        const db = seed();
+        const error = async (requested: { creditId: number; amount: number }[], amount = 2000) =>
+            (await planClientAllocations(db, 1, amount, requested)).error;
+
+        assert.match(await error([{ creditId: 2, amount: 100 }, { creditId: 2, amount: 100 }]), /listed more than once/);
+        assert.match(await error([{ creditId: 99, amount: 100 }]), /not an open credit/);
+        assert.match(await error([{ creditId: 2, amount: 0 }]), /must be positive/);
+        assert.match(await error([{ creditId: 2, amount: 600 }]), /exceeds the balance/);
+        assert.match(await error([{ creditId: 1, amount: 300 }, { creditId: 2, amount: 300 }], 500), /exceed the payment amount/);
+    });
+});
+
+describe('applyClientAllocations', () => {
+    it('moves credits between unpaid, partially paid and paid, and back when undone', async () => {
+        const db = seed();
+        const plan = [{ creditId: 1, amount: 1000 }, { creditId: 2, amount: 200 }];
+
+        await applyClientAllocations(db, plan, 'UPI');
+        const [first, second] = db.tables.clientCredit;
+        assert.deepEqual([first.paidAmount, first.status, first.paymentMethod], [1000, 'paid', 'UPI']);
+        assert.deepEqual([second.paidAmount, second.status], [200, 'partially_paid']);
+
+        await applyClientAllocations(db, plan, null, -1);
+        assert.deepEqual([first.paidAmount, first.status, first.paidDate], [0, 'unpaid', null]);
+        assert.deepEqual([second.paidAmount, second.status], [0, 'unpaid']);
+    });
+
+    it('treats anything within half a paisa as settled', () => {
+        assert.equal(creditStatusFor(100, 0), 'unpaid');
+        assert.equal(creditStatusFor(100, 99.996), 'paid');
+        assert.equal(creditStatusFor(100, 50), 'partially_paid');
+    });
+});
+
+describe('backfillLegacyCreditPayments', () => {
+    it('settles paid credits without allocations once, and leaves the balance at what they still owe', async () => {
+        const db = seed();
+        Object.assign(db.tables.clientCredit[0], { status: 'paid', paymentMethod: 'Worker', paidDate: day(4) });
+
+        assert.deepEqual(await backfillLegacyCreditPayments(db), { credits: 1, clients: 1 });
+
+        const [payment] = db.tables.clientPayment;
+        assert.deepEqual([payment.amount, payment.paymentMethod, payment.reference, payment.date], [1000, 'CASH', 'LEGACY-CR-1', day(4)]);
+        assert.deepEqual(db.tables.clientPaymentAllocation.map(a => [a.paymentId, a.creditId, a.amount]), [[payment.id, 1, 1000]]);
+        assert.equal(db.tables.clientCredit[0].paidAmount, 1000);
+        assert.equal(db.tables.client[0].balance, 750);
+
+        assert.deepEqual(await backfillLegacyCreditPayments(db), { credits: 0, clients: 0 });
+        assert.equal(db.tables.clientPayment.length, 1);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma, Relations } from './fake-prisma';
+import { backfillUnsetCreditLimits, checkCreditLimit, parseCreditLimit, requestClientCredit } from '../src/utils/credit-limit';
+
+const relations: Relations = {
+    clientCredit: {
+        client: { model: 'client', kind: 'one', from: 'clientId', to: 'id' },
+        fuelType: { model: 'fuelType', kind: 'one', from: 'fuelTypeId', to: 'id' },
+        vehicle: { model: 'vehicle', kind: 'one', from: 'vehicleId', to: 'id' }
+    },
+    clientPayment: {
+        allocations: { model: 'clientPaymentAllocation', kind: 'many', from: 'id', to: 'paymentId' }
+    }
+};
+
+function seed(client: Record<string, any>) {
+    return createFakePrisma({
+        client: [{ id: 1, name: 'Acme Transport', balance: 0, creditLimit: null, creditLimitPolicy: 'block', ...client }],
+        fuelType: [{ id: 1, name: 'Diesel' }],
+        vehicle: [],
+        clientCredit: [{ id: 1, clientId: 1, fuelTypeId: 1, litres: 80, pricePerLitre: 100, totalAmount: 8000, paidAmount: 0, status: 'unpaid', date: new Date(2026, 0, 2) }],
+        clientPayment: [],
+        clientPaymentAllocation: [],
+        clientCharge: [],
+        creditApproval: [],
+        auditLog: []
+    }, relations);
+}
+
+const request = (totalAmount: number, extra: Record<string, any> = {}) => ({
+    clientId: 1, fuelTypeId: 1, litres: totalAmount / 100, pricePerLitre: 100, totalAmount, date: new Date(2026, 0, 5), ...extra
+});
+
+describe('checkCreditLimit', () => {
+    it('lets a client without a limit draw any amount', async () => {
+        const check = await checkCreditLimit(seed({ creditLimit: null }), 1, 1_000_000);
+        assert.equal(check.withinLimit, true);
+        assert.equal(check.creditLimit, null);
+        assert.equal(check.projectedBalance, 1_008_000);
+    });
+
+    it('allows no credit at all on a limit of 0', async () => {
+        const check = await checkCreditLimit(seed({ creditLimit: 0, balance: 0 }), 1, 1);
+        assert.equal(check.withinLimit, false);
+    });
+
+    it('compares the ledger balance plus the new credit with the limit', async () => {
+        const db = seed({ creditLimit: 10000, creditLimitPolicy: 'warn' });
+        assert.equal((await checkCreditLimit(db, 1, 2000)).withinLimit, true);
+
+        const over = await checkCreditLimit(db, 1, 2000.01);
+        assert.equal(over.withinLimit, false);
+        assert.equal(over.policy, 'warn');
+        assert.match(over.message, /would owe 10000\.01, over the credit limit of 10000\.00/);
+    });
+
+    it('falls back to block for an unknown policy and returns null for an unknown client', async () => {
+        assert.equal((await checkCreditLimit(seed({ creditLimitPolicy: 'ignore' }), 1, 0)).policy, 'block');
+        assert.equal(await checkCreditLimit(seed({}), 2, 0), null);
+    });
+});
+
+describe('requestClientCredit', () => {
+    it('blocks an over-limit credit and audits it', async () => {
+        const db = seed({ creditLimit: 10000, creditLimitPolicy: 'block' });
+        const result = await requestClientCredit(db, request(5000), 7);
+
+        assert.equal(result.outcome, 'blocked');
+        assert.equal(db.tables.clientCredit.length, 1);
+        assert.deepEqual(db.tables.auditLog.map(a => [a.action, a.userId]), [['CREDIT_LIMIT_BLOCKED', 7]]);
+    });
+
+    it('creates an over-limit credit with a warning under warn', async () => {
+        const db = seed({ creditLimit: 10000, creditLimitPolicy: 'warn' });
+        const result = await requestClientCredit(db, request(5000));
+
+        assert.equal(result.outcome, 'created');
+        assert.ok('warning' in result && result.warning);
+        assert.equal(db.tables.client[0].balance, 13000);
+        assert.deepEqual(db.tables.auditLog.map(a => a.action), ['CREDIT_LIMIT_WARNING']);
+    });
+
+    it('queues an approval instead of the credit under approval', async () => {
+        const db = seed({ creditLimit: 10000, creditLimitPolicy: 'approval' });
+        const result = await requestClientCredit(db, request(5000));
+
+        assert.equal(result.outcome, 'pending');
+        assert.equal(db.tables.clientCredit.length, 1);
+        assert.deepEqual(db.tables.creditApproval.map(a => [a.balanceAtRequest, a.creditLimit]), [[8000, 10000]]);
+    });
+
+    it('checks a credit settled on the spot as adding nothing', async () => {
+        const db = seed({ creditLimit: 8000 });
+        const result = await requestClientCredit(db, request(5000, { status: 'paid', paymentMethod: 'UPI' }));
+
+        assert.equal(result.outcome, 'created');
+        assert.equal(db.tables.clientPayment.length, 1);
+        assert.equal(db.tables.client[0].balance, 8000);
+    });
+
+    it('reports an unknown client', async () => {
+        assert.deepEqual(await requestClientCredit(seed({}), request(100, { clientId: 2 })), { outcome: 'client_not_found' });
+    });
+});
+
+describe('parseCreditLimit', () => {
+    it('reads blank as no limit and rejects negative amounts', () => {
+        assert.deepEqual(parseCreditLimit(''), { limit: null });
+        assert.deepEqual(parseCreditLimit(null), { limit: null });
+        assert.deepEqual(parseCreditLimit('0'), { limit: 0 });
+        assert.deepEqual(parseCreditLimit(25000), { limit: 25000 });
+        assert.ok('error' in parseCreditLimit(-1));
+        assert.ok('error' in parseCreditLimit('lots'));
+    });
+});
+
+describe('backfillUnsetCreditLimits', () => {
+    it('clears limits of 0 once per database', async () => {
+        const db = seed({ creditLimit: 0 });
+
+        assert.deepEqual(await backfillUnsetCreditLimits(db), { clients: 1 });
+        assert.equal(db.tables.client[0].creditLimit, null);
+
+        // A limit of 0 set afterwards is meant
+        db.tables.client[0].creditLimit = 0;
+        assert.deepEqual(await backfillUnsetCreditLimits(db), { clients: 0 });
+        assert.equal(db.tables.client[0].creditLimit, 0);
+    });
+});
@@ -0,0 +1,227 @@
+/**
+ * In-memory stand-in for the Prisma client, covering the query shapes the utils use:
+ * where filters (equality, gte/gt/lte/lt, in, not, startsWith, OR/AND, relation some/none), include, orderBy,
+ * aggregate _sum, increment/decrement updates and nested creates. Decimals are plain numbers.
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+type Row = Record<string, any>;
+
+export interface Relation {
+    model: string;
+    kind: 'one' | 'many';
+    // 'one': row[from] === other[to]; 'many': other[to] === row[from]
+    from: string;
+    to: string;
+}
+
+export type Relations = Record<string, Record<string, Relation>>;
+
+export type FakePrisma = PrismaClient & { tables: Record<string, Row[]> };
+
+const OPERATORS = ['equals', 'gte', 'gt', 'lte', 'lt', 'in', 'notIn', 'not', 'startsWith'];
+
+function value(v: any) {
+    return v instanceof Date ? v.getTime() : v;
+}
+
+function matchesField(actual: any, condition: any): boolean {
+    if (condition === undefined) return true;
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+        return value(actual) === value(condition) || (condition === null && actual === undefined);
+    }
+    return Object.entries(condition).every(([op, expected]: [string, any]) => {
+        if (expected === undefined) return true;
+        switch (op) {
+            case 'equals': return value(actual) === value(expected);
+            case 'gte': return actual !== null && value(actual) >= value(expected);
+            case 'gt': return actual !== null && value(actual) > value(expected);
+            case 'lte': return actual !== null && value(actual) <= value(expected);
+            case 'lt': return actual !== null && value(actual) < value(expected);
+            case 'in': return expected.map(value).includes(value(actual));
+            case 'notIn': return !expected.map(value).includes(value(actual));
+            case 'not': return !matchesField(actual, expected);
+            case 'startsWith': return typeof actual === 'string' && actual.startsWith(expected);
+            default: throw new Error(`Unsupported filter operator: ${op}`);
+        }
+    });
+}
+
+export function createFakePrisma(data: Record<string, Row[]>, relations: Relations = {}): FakePrisma {
+    const tables: Record<string, Row[]> = {};
+    const nextIds: Record<string, number> = {};
+    for (const [model, rows] of Object.entries(data)) {
+        tables[model] = rows.map(r => ({ ...r }));
+        nextIds[model] = Math.max(0, ...tables[model].map(r => r.id ?? 0)) + 1;
+    }
+    const table = (model: string) => (tables[model] ??= []);
+
+    function related(model: string, row: Row, name: string): Row | Row[] | null {
+        const rel = relations[model]?.[name];
+        if (!rel) throw new Error(`No relation ${model}.${name} configured`);
+        const others = table(rel.model);
+        return rel.kind === 'one'
+            ? others.find(o => o[rel.to] === row[rel.from]) ?? null
+            : others.filter(o => o[rel.to] === row[rel.from]);
+    }
+
+    function matches(model: string, row: Row, where: Row = {}): boolean {
+        return Object.entries(where).every(([key, condition]) => {
+            if (condition === undefined) return true;
+            if (key === 'OR') return condition.some((w: Row) => matches(model, row, w));
+            if (key === 'AND') return [].concat(condition).every((w: Row) => matches(model, row, w));
+            if (key === 'NOT') return !matches(model, row, condition);
+
+            const rel = relations[model]?.[key];
+            if (rel) {
+                const target = related(model, row, key);
+                if (rel.kind === 'many') {
+                    const rows = target as Row[];
+                    if (condition.none) return !rows.some(r => matches(rel.model, r, condition.none));
+                    if (condition.some) return rows.some(r => matches(rel.model, r, condition.some));
+                    if (condition.every) return rows.every(r => matches(rel.model, r, condition.every));
+                    throw new Error(`Unsupported relation filter on ${model}.${key}`);
+                }
+                return target !== null && matches(rel.model, target as Row, condition.is ?? condition);
+            }
+
+            // Compound unique keys (pumpId_date: { pumpId, date }) are plain field filters
+            if (condition && typeof condition === 'object' && !(condition instanceof Date)
+                && key.includes('_') && !(key in row) && !Object.keys(condition).some(k => OPERATORS.includes(k))) {
+                return matches(model, row, condition);
+            }
+            return matchesField(row[key], condition);
+        });
+    }
+
+    function withIncludes(model: string, row: Row, include?: Row): Row {
+        if (!include) return { ...row };
+        const out: Row = { ...row };
+        for (const [name, spec] of Object.entries(include)) {
+            if (!spec) continue;
+            const rel = relations[model]?.[name];
+            const target = related(model, row, name);
+            const nested = typeof spec === 'object' ? spec.include : undefined;
+            const nestedWhere = typeof spec === 'object' ? spec.where : undefined;
+            out[name] = Array.isArray(target)
+                ? target.filter(t => matches(rel.model, t, nestedWhere)).map(t => withIncludes(rel.model, t, nested))
+                : target && withIncludes(rel.model, target, nested);
+        }
+        return out;
+    }
+
+    function sorted(rows: Row[], orderBy?: Row | Row[]): Row[] {
+        if (!orderBy) return rows;
+        const keys = ([] as Row[]).concat(orderBy).flatMap(o => Object.entries(o));
+        return [...rows].sort((a, b) => {
+            for (const [field, dir] of keys) {
+                const x = value(a[field]);
+                const y = value(b[field]);
+                if (x === y) continue;
+                const cmp = x === null || x === undefined ? -1 : y === null || y === undefined ? 1 : x < y ? -1 : 1;
+                return dir === 'desc' ? -cmp : cmp;
+            }
+            return 0;
+        });
+    }
+
+    function applyData(row: Row, data: Row) {
+        for (const [key, v] of Object.entries(data)) {
+            if (v === undefined) continue;
+            if (v && typeof v === 'object' && !(v instanceof Date) && !Array.isArray(v)) {
+                if ('increment' in v) { row[key] = Number(row[key] ?? 0) + Number(v.increment); continue; }
+                if ('decrement' in v) { row[key] = Number(row[key] ?? 0) - Number(v.decrement); continue; }
+                if ('set' in v) { row[key] = v.set; continue; }
+            }
+            row[key] = v;
+        }
+    }
+
+    function create(model: string, data: Row): Row {
+        const row: Row = { id: nextIds[model] = (nextIds[model] ?? 1), createdAt: new Date(), updatedAt: new Date() };
+        nextIds[model]++;
+        const nested: [Relation, Row[]][] = [];
+        for (const [key, v] of Object.entries(data)) {
+            const rel = relations[model]?.[key];
+            if (rel && v?.create) nested.push([rel, [].concat(v.create)]);
+            else if (v !== undefined) row[key] = v;
+        }
+        table(model).push(row);
+        for (const [rel, rows] of nested) {
+            for (const child of rows) create(rel.model, { ...child, [rel.to]: row[rel.from] });
+        }
+        return row;
+    }
+
+    function delegate(model: string) {
+        const find = (args: Row = {}) => sorted(table(model).filter(r => matches(model, r, args.where)), args.orderBy);
+        return {
+            findMany: async (args: Row = {}) => {
+                let rows = find(args);
+                if (args.take !== undefined) rows = rows.slice(0, args.take);
+                return rows.map(r => withIncludes(model, r, args.include));
+            },
+            findFirst: async (args: Row = {}) => {
+                const row = find(args)[0];
+                return row ? withIncludes(model, row, args.include) : null;
+            },
+            findUnique: async (args: Row) => {
+                const row = find(args)[0];
+                return row ? withIncludes(model, row, args.include) : null;
+            },
+            count: async (args: Row = {}) => find(args).length,
+            aggregate: async (args: Row) => {
+                const rows = find(args);
+                const _sum: Row = {};
+                for (const field of Object.keys(args._sum ?? {})) {
+                    _sum[field] = rows.length > 0 ? rows.reduce((sum, r) => sum + Number(r[field] ?? 0), 0) : null;
+                }
+                return { _sum, _count: rows.length };
+            },
+            create: async (args: Row) => withIncludes(model, create(model, args.data), args.include),
+            update: async (args: Row) => {
+                const row = find(args)[0];
+                if (!row) throw Object.assign(new Error(`${model} not found`), { code: 'P2025' });
+                applyData(row, { ...args.data, updatedAt: new Date() });
+                return withIncludes(model, row, args.include);
+            },
+            updateMany: async (args: Row) => {
+                const rows = find(args);
+                rows.forEach(row => applyData(row, { ...args.data, updatedAt: new Date() }));
+                return { count: rows.length };
+            },
+            upsert: async (args: Row) => {
+                const row = find(args)[0];
+                if (row) {
+                    applyData(row, args.update);
+                    return withIncludes(model, row, args.include);
+                }
+                return withIncludes(model, create(model, args.create), args.include);
+            },
+            delete: async (args: Row) => {
+                const row = find(args)[0];
+                if (!row) throw Object.assign(new Error(`${model} not found`), { code: 'P2025' });
+                tables[model] = table(model).filter(r => r !== row);
+                return row;
+            },
+            deleteMany: async (args: Row = {}) => {
+                const rows = find(args);
+                tables[model] = table(model).filter(r => !rows.includes(r));
+                return { count: rows.length };
+            }
+        };
+    }
+
+    const client: any = new Proxy({ tables } as Row, {
+        get(target, prop: string) {
+            if (prop in target) return target[prop];
+            if (prop === '$transaction') {
+                return async (arg: any) => Array.isArray(arg) ? Promise.all(arg) : arg(client);
+            }
+            if (prop === 'then') return undefined;
+            return (target[prop] = delegate(prop));
+        }
+    });
+    return client as FakePrisma;
+}
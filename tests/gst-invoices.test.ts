@@ -0,0 +1,96 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma, Relations } from './fake-prisma';
+
+// The seller GSTIN is read when the module loads
+process.env.STATION_GSTIN = '27AAAPL1234C1Z5';
+let gst: typeof import('../src/utils/gst-invoices');
+before(async () => {
+    gst = await import('../src/utils/gst-invoices');
+});
+
+const relations: Relations = {
+    clientCredit: {
+        fuelType: { model: 'fuelType', kind: 'one', from: 'fuelTypeId', to: 'id' },
+        vehicle: { model: 'vehicle', kind: 'one', from: 'vehicleId', to: 'id' }
+    },
+    gstInvoice: {
+        client: { model: 'client', kind: 'one', from: 'clientId', to: 'id' },
+        lines: { model: 'gstInvoiceLine', kind: 'many', from: 'id', to: 'invoiceId' }
+    }
+};
+
+function credit(id: number, clientId: number, date: Date, totalAmount: number) {
+    return { id, clientId, fuelTypeId: 1, vehicleId: null, litres: totalAmount / 100, pricePerLitre: 100, totalAmount, gstInvoiceId: null, date };
+}
+
+function seed() {
+    return createFakePrisma({
+        client: [
+            { id: 1, name: 'Acme Transport', gstin: '27AABCA1234D1Z2' },
+            { id: 2, name: 'Karnataka Logistics', gstin: '29AABCK1234E1Z8' }
+        ],
+        fuelType: [{ id: 1, name: 'Lubricant', hsnCode: '2710', gstRatePercent: 18 }],
+        vehicle: [],
+        clientCredit: [
+            credit(1, 1, new Date(2026, 2, 20), 1180),
+            credit(2, 1, new Date(2026, 3, 2), 590),
+            credit(3, 2, new Date(2026, 3, 3), 236)
+        ],
+        gstInvoice: [],
+        gstInvoiceLine: [],
+        gstInvoiceSequence: [],
+        auditLog: []
+    }, relations);
+}
+
+describe('splitGst', () => {
+    it('splits the tax equally into CGST and SGST within the state and into IGST across states', () => {
+        assert.deepEqual(gst.splitGst(118, 18, 'intra'), { taxableValue: 100, cgst: 9, sgst: 9, igst: 0, total: 118 });
+        assert.deepEqual(gst.splitGst(118, 18, 'inter'), { taxableValue: 100, cgst: 0, sgst: 0, igst: 18, total: 118 });
+        assert.deepEqual(gst.splitGst(500, 0, 'intra'), { taxableValue: 500, cgst: 0, sgst: 0, igst: 0, total: 500 });
+    });
+
+    it('keeps the parts adding up to the inclusive amount when the tax does not halve evenly', () => {
+        const split = gst.splitGst(100, 18, 'intra');
+        assert.equal(split.taxableValue, 84.75);
+        assert.equal(Math.round((split.cgst + split.sgst) * 100), 1525);
+        assert.ok(Math.abs(split.cgst - split.sgst) <= 0.01);
+        assert.equal(split.total, 100);
+    });
+});
+
+describe('issueGstInvoice', () => {
+    it('numbers invoices per financial year and claims the credits', async () => {
+        const db = seed();
+
+        const march = await gst.issueGstInvoice(db, { clientId: 1, creditIds: [1], date: new Date(2026, 2, 31) });
+        const april = await gst.issueGstInvoice(db, { clientId: 1, creditIds: [2], date: new Date(2026, 3, 5), userId: 4 });
+        const inter = await gst.issueGstInvoice(db, { clientId: 2, range: { start: new Date(2026, 3, 1), end: new Date(2026, 3, 30) }, date: new Date(2026, 3, 6) });
+
+        assert.ok('invoice' in march && 'invoice' in april && 'invoice' in inter);
+        assert.deepEqual([march.invoice.invoiceNo, april.invoice.invoiceNo, inter.invoice.invoiceNo], ['INV/25-26/00001', 'INV/26-27/00001', 'INV/26-27/00002']);
+        assert.deepEqual(db.tables.gstInvoiceSequence.map(s => [s.financialYear, s.lastNumber]), [['2025-26', 1], ['2026-27', 2]]);
+        assert.deepEqual(db.tables.clientCredit.map(c => c.gstInvoiceId), [march.invoice.id, april.invoice.id, inter.invoice.id]);
+
+        assert.deepEqual([march.invoice.supplyType, march.invoice.cgst, march.invoice.sgst, march.invoice.igst], ['intra', 90, 90, 0]);
+        assert.deepEqual([inter.invoice.supplyType, inter.invoice.placeOfSupply, inter.invoice.igst, inter.invoice.totalAmount], ['inter', '29', 36, 236]);
+        assert.deepEqual(db.tables.gstInvoiceLine.map(l => [l.invoiceId, l.clientCreditId, l.taxableValue]), [
+            [march.invoice.id, 1, 1000],
+            [april.invoice.id, 2, 500],
+            [inter.invoice.id, 3, 200]
+        ]);
+    });
+
+    it('refuses credits that are already invoiced without using up a number', async () => {
+        const db = seed();
+        await gst.issueGstInvoice(db, { clientId: 1, creditIds: [2], date: new Date(2026, 3, 5) });
+
+        assert.deepEqual(await gst.issueGstInvoice(db, { clientId: 1, creditIds: [2] }), { error: 'Already invoiced: CR-2' });
+        assert.deepEqual(await gst.issueGstInvoice(db, { clientId: 1, creditIds: [3] }), { error: 'Credits not found for this client: CR-3' });
+        assert.deepEqual(await gst.issueGstInvoice(db, { clientId: 1, range: { start: new Date(2026, 3, 1), end: new Date(2026, 3, 30) } }), {
+            error: 'No uninvoiced credit sales to invoice'
+        });
+        assert.deepEqual(db.tables.gstInvoiceSequence.map(s => s.lastNumber), [1]);
+    });
+});
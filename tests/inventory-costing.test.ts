@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma } from './fake-prisma';
+import { addCostLayer, getCostOfSales, recordSaleCost } from '../src/utils/inventory-costing';
+
+const day = (d: number) => new Date(2026, 0, d);
+const reading = (sourceId: number, date = day(5)) => ({ sourceType: 'reading' as const, sourceId, date });
+
+async function seed() {
+    const db = createFakePrisma({
+        tank: [{ id: 1, name: 'Tank 1', fuelTypeId: 2, avgUnitCost: 80 }],
+        inventoryLayer: [],
+        costOfSale: []
+    });
+    await addCostLayer(db, { tankId: 1, purchaseId: 11, litres: 100, unitCost: 85, receivedAt: day(1) });
+    await addCostLayer(db, { tankId: 1, purchaseId: 12, litres: 200, unitCost: 90, receivedAt: day(3) });
+    return db;
+}
+
+const remaining = (db: Awaited<ReturnType<typeof seed>>) => db.tables.inventoryLayer.map(l => l.remainingLitres);
+
+describe('recordSaleCost', () => {
+    it('consumes layers oldest first', async () => {
+        const db = await seed();
+
+        assert.equal(await recordSaleCost(db, 1, 150, reading(1)), 100 * 85 + 50 * 90);
+        assert.deepEqual(remaining(db), [0, 150]);
+        assert.deepEqual(db.tables.costOfSale.map(c => [c.layerId, c.litres, c.unitCost, c.avgUnitCost, c.fuelTypeId]), [
+            [1, 100, 85, 80, 2],
+            [2, 50, 90, 80, 2]
+        ]);
+    });
+
+    it('costs litres beyond the layers at the tank average', async () => {
+        const db = await seed();
+        await recordSaleCost(db, 1, 150, reading(1));
+
+        assert.equal(await recordSaleCost(db, 1, 200, reading(2)), 150 * 90 + 50 * 80);
+        assert.deepEqual(remaining(db), [0, 0]);
+        assert.deepEqual(db.tables.costOfSale.slice(2).map(c => [c.layerId, c.litres]), [[2, 150], [null, 50]]);
+    });
+
+    it('gives back what the reading consumed, most recently consumed first, when it is corrected down', async () => {
+        const db = await seed();
+        await recordSaleCost(db, 1, 150, reading(1));
+        await recordSaleCost(db, 1, 200, reading(2));
+
+        assert.equal(await recordSaleCost(db, 1, -100, reading(2)), -(50 * 80 + 50 * 90));
+        assert.deepEqual(remaining(db), [0, 50]);
+
+        // No more than the reading still holds comes back, and nothing from other readings
+        assert.equal(await recordSaleCost(db, 1, -500, reading(2)), -(100 * 90));
+        assert.deepEqual(remaining(db), [0, 150]);
+        const net = db.tables.costOfSale.filter(c => c.sourceId === 2).reduce((sum, c) => sum + c.litres, 0);
+        assert.equal(net, 0);
+    });
+
+    it('does nothing for no litres and rejects an unknown tank', async () => {
+        const db = await seed();
+
+        assert.equal(await recordSaleCost(db, 1, 0, reading(1)), 0);
+        assert.equal(db.tables.costOfSale.length, 0);
+        await assert.rejects(recordSaleCost(db, 9, 10, reading(1)), /Tank 9 not found/);
+    });
+});
+
+describe('getCostOfSales', () => {
+    it('totals each day and fuel type at layer cost or at the average', async () => {
+        const db = await seed();
+        await recordSaleCost(db, 1, 150, reading(1, day(5)));
+        await recordSaleCost(db, 1, 20, reading(2, day(6)));
+
+        const fifo = await getCostOfSales(db, day(5), day(5));
+        assert.deepEqual(Object.values(fifo), [{ date: '2026-01-05', fuelTypeId: 2, litres: 150, cost: 13000 }]);
+
+        const average = await getCostOfSales(db, day(1), day(31), 'average');
+        assert.deepEqual(Object.keys(average), ['2026-01-05_2', '2026-01-06_2']);
+        assert.equal(average['2026-01-05_2'].cost, 150 * 80);
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma } from './fake-prisma';
+import { schedulePrice } from '../src/utils/pricing';
+
+const daysAgo = (n: number) => new Date(Date.now() - n * 24 * 60 * 60 * 1000);
+
+function seed() {
+    return createFakePrisma({
+        fuelType: [{ id: 1, name: 'Diesel' }],
+        tank: [{ id: 1, name: 'Tank 1', fuelTypeId: 1, isActive: true, currentLevel: 1000, avgUnitCost: 85 }],
+        price: [
+            { id: 1, fuelTypeId: 1, perLitre: 90, effectiveFrom: daysAgo(30), effectiveTo: daysAgo(10), isActive: false, createdAt: daysAgo(30) },
+            { id: 2, fuelTypeId: 1, perLitre: 92, effectiveFrom: daysAgo(10), effectiveTo: null, isActive: true, createdAt: daysAgo(10) }
+        ],
+        stockRevaluation: []
+    });
+}
+
+describe('schedulePrice', () => {
+    it('revalues stock for a price that comes into force now', async () => {
+        const db = seed();
+        const price = await schedulePrice(db, 1, 95, daysAgo(1));
+
+        assert.equal(price.isActive, true);
+        assert.equal(db.tables.price.find(p => p.id === 2).effectiveTo.getTime(), price.effectiveFrom.getTime());
+        assert.deepEqual(db.tables.stockRevaluation.map(r => [r.priceId, r.oldPrice, r.newPrice, r.gainLoss]), [[price.id, 92, 95, 3000]]);
+    });
+
+    it('leaves stock alone for a backdated price a later one has replaced', async () => {
+        const db = seed();
+        const price = await schedulePrice(db, 1, 91, daysAgo(20));
+
+        assert.equal(price.isActive, false);
+        assert.equal(price.effectiveTo.getTime(), db.tables.price.find(p => p.id === 2).effectiveFrom.getTime());
+        assert.equal(db.tables.stockRevaluation.length, 0);
+    });
+
+    it('does not revalue a scheduled price until it takes effect', async () => {
+        const db = seed();
+        const price = await schedulePrice(db, 1, 96, daysAgo(-2));
+
+        assert.equal(price.isActive, false);
+        assert.equal(db.tables.stockRevaluation.length, 0);
+    });
+});
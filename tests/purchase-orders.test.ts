@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma } from './fake-prisma';
+import { nextPoNumber } from '../src/utils/purchase-orders';
+
+describe('nextPoNumber', () => {
+    it('numbers each year on from the highest PO already issued in it', async () => {
+        const db = createFakePrisma({
+            purchaseOrder: [{ id: 1, poNumber: 'PO-2026-0003' }, { id: 2, poNumber: 'PO-2026-0011' }, { id: 3, poNumber: 'PO-2025-0050' }],
+            purchaseOrderSequence: []
+        });
+
+        assert.equal(await nextPoNumber(db, new Date(2026, 4, 1)), 'PO-2026-0012');
+        assert.equal(await nextPoNumber(db, new Date(2026, 11, 31)), 'PO-2026-0013');
+        assert.equal(await nextPoNumber(db, new Date(2025, 0, 1)), 'PO-2025-0051');
+        assert.equal(await nextPoNumber(db, new Date(2027, 0, 1)), 'PO-2027-0001');
+        assert.deepEqual(db.tables.purchaseOrderSequence.map(s => [s.year, s.lastNumber]), [[2026, 13], [2025, 51], [2027, 1]]);
+    });
+
+    it('keeps counting from the sequence row once it exists', async () => {
+        const db = createFakePrisma({
+            purchaseOrder: [{ id: 1, poNumber: 'PO-2026-0090' }],
+            purchaseOrderSequence: [{ id: 1, year: 2026, lastNumber: 4 }]
+        });
+
+        assert.equal(await nextPoNumber(db, new Date(2026, 6, 1)), 'PO-2026-0005');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakePrisma, Relations } from './fake-prisma';
+import { buildReceivablesAgeing } from '../src/utils/receivables';
+
+const relations: Relations = {
+    clientCredit: {
+        client: { model: 'client', kind: 'one', from: 'clientId', to: 'id' },
+        fuelType: { model: 'fuelType', kind: 'one', from: 'fuelTypeId', to: 'id' },
+        allocations: { model: 'clientPaymentAllocation', kind: 'many', from: 'id', to: 'creditId' }
+    },
+    clientPaymentAllocation: {
+        payment: { model: 'clientPayment', kind: 'one', from: 'paymentId', to: 'id' }
+    }
+};
+
+const day = (d: number) => new Date(2026, 0, d);
+
+function seed() {
+    return createFakePrisma({
+        client: [{ id: 1, name: 'Acme Transport', paymentTermsDays: 15 }],
+        fuelType: [{ id: 1, name: 'Diesel' }],
+        clientCredit: [
+            // Paid in two parts, on the 20th and the 40th
+            { id: 1, clientId: 1, fuelTypeId: 1, litres: 10, totalAmount: 1000, paidAmount: 1000, status: 'paid', date: day(1) },
+            { id: 2, clientId: 1, fuelTypeId: 1, litres: 5, totalAmount: 500, paidAmount: 0, status: 'unpaid', date: day(10) }
+        ],
+        clientPayment: [
+            { id: 1, clientId: 1, amount: 400, date: day(20) },
+            { id: 2, clientId: 1, amount: 600, date: day(40) }
+        ],
+        clientPaymentAllocation: [
+            { id: 1, paymentId: 1, creditId: 1, amount: 400 },
+            { id: 2, paymentId: 2, creditId: 1, amount: 600 }
+        ]
+    }, relations);
+}
+
+describe('buildReceivablesAgeing', () => {
+    it('leaves out credits that are paid now', async () => {
+        const report = await buildReceivablesAgeing(seed());
+        assert.deepEqual(report.clients[0].credits.map(c => [c.creditId, c.balance]), [[2, 500]]);
+    });
+
+    it('shows what was outstanding at a past date, with only the payments made by then', async () => {
+        const report = await buildReceivablesAgeing(seed(), { asOf: day(30) });
+        const [client] = report.clients;
+
+        assert.deepEqual(client.credits.map(c => [c.creditId, c.balance, c.ageDays, c.overdue]), [[1, 600, 29, true], [2, 500, 20, true]]);
+        assert.equal(client.total, 1100);
+        assert.equal(report.totals['0-30'], 1100);
+    });
+
+    it('leaves out credits sold after the date', async () => {
+        const report = await buildReceivablesAgeing(seed(), { asOf: day(5) });
+        assert.deepEqual(report.clients[0].credits.map(c => [c.creditId, c.balance, c.overdue]), [[1, 1000, false]]);
+    });
+});
@@ -0,0 +1,163 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import { createFakePrisma, Relations } from './fake-prisma';
+import {
+    applyAllocations,
+    getOpenPurchaseInvoices,
+    invoiceBalance,
+    paymentStatusFor,
+    planSupplierAllocations
+} from '../src/utils/supplier-ledger';
+import { createSuppliersRouter } from '../src/routes/suppliers';
+
+const relations: Relations = {
+    purchaseOrder: {
+        purchases: { model: 'purchase', kind: 'many', from: 'id', to: 'purchaseOrderId' }
+    }
+};
+
+const day = (d: number) => new Date(2026, 0, d);
+
+function purchase(id: number, invoiceDate: Date | null, totalCost: number, extra: Record<string, any> = {}) {
+    return { id, supplierId: 1, purchaseOrderId: null, invoiceNo: `INV-${id}`, invoiceDate, invoiceAmount: null, totalCost, paidAmount: 0, paymentStatus: 'unpaid', ...extra };
+}
+
+function seed(extra: Record<string, any[]> = {}) {
+    return createFakePrisma({
+        supplier: [{ id: 1, name: 'Indian Oil Depot', gstin: null, paymentTermsDays: 15 }, { id: 2, name: 'Other Depot' }],
+        purchaseOrder: [],
+        purchase: [
+            purchase(1, day(2), 1000),
+            purchase(2, day(5), 500, { invoiceAmount: 520 }),
+            purchase(3, day(9), 250),
+            // Not billed yet, and another supplier's invoice
+            purchase(4, null, 800),
+            purchase(5, day(1), 300, { supplierId: 2 })
+        ],
+        supplierPayment: [],
+        ...extra
+    }, relations);
+}
+
+describe('invoice balances', () => {
+    it('owes the invoice amount, or the purchase cost when none was billed', () => {
+        assert.equal(invoiceBalance({ invoiceAmount: null, totalCost: 1000, paidAmount: 400 }), 600);
+        assert.equal(invoiceBalance({ invoiceAmount: 520, totalCost: 500, paidAmount: 0 }), 520);
+    });
+
+    it('treats anything within half a paisa as settled', () => {
+        assert.equal(paymentStatusFor(100, 0), 'unpaid');
+        assert.equal(paymentStatusFor(100, 99.996), 'paid');
+        assert.equal(paymentStatusFor(100, 50), 'partially_paid');
+    });
+
+    it('lists only the supplier\'s billed invoices that are not paid, oldest first', async () => {
+        const db = seed();
+        db.tables.purchase[0].paymentStatus = 'paid';
+
+        assert.deepEqual((await getOpenPurchaseInvoices(db, 1)).map(p => p.id), [2, 3]);
+    });
+});
+
+describe('planSupplierAllocations', () => {
+    it('settles the oldest invoices first and leaves the rest as an advance', async () => {
+        const db = seed();
+        Object.assign(db.tables.purchase[0], { paidAmount: 400, paymentStatus: 'partially_paid' });
+
+        const result = await planSupplierAllocations(db, 1, 1500);
+
+        assert.deepEqual(result.plan, [{ purchaseId: 1, amount: 600 }, { purchaseId: 2, amount: 520 }, { purchaseId: 3, amount: 250 }]);
+        assert.equal(result.unallocated, 130);
+        assert.equal(result.error, undefined);
+    });
+
+    it('takes explicit allocations as given', async () => {
+        const result = await planSupplierAllocations(seed(), 1, 400, [{ purchaseId: 3, amount: 250 }, { purchaseId: 2, amount: 100 }]);
+
+        assert.deepEqual(result.plan, [{ purchaseId: 3, amount: 250 }, { purchaseId: 2, amount: 100 }]);
+        assert.equal(result.unallocated, 50);
+    });
+
+    it('rejects explicit allocations that do not fit', async () => {
+        const db = seed();
+        const error = async (requested: { purchaseId: number; amount: number }[], amount = 2000) =>
+            (await planSupplierAllocations(db, 1, amount, requested)).error;
+
+        assert.match(await error([{ purchaseId: 2, amount: 100 }, { purchaseId: 2, amount: 100 }]), /listed more than once/);
+        assert.match(await error([{ purchaseId: 4, amount: 100 }]), /not an open invoice/);
+        assert.match(await error([{ purchaseId: 5, amount: 100 }]), /not an open invoice/);
+        assert.match(await error([{ purchaseId: 2, amount: -5 }]), /must be positive/);
+        assert.match(await error([{ purchaseId: 2, amount: 600 }]), /exceeds the balance/);
+        assert.match(await error([{ purchaseId: 1, amount: 300 }, { purchaseId: 2, amount: 300 }], 500), /exceed the payment amount/);
+    });
+});
+
+describe('applyAllocations', () => {
+    it('moves purchases and their PO to paid, and back when undone', async () => {
+        const db = seed({ purchaseOrder: [{ id: 7, status: 'invoiced', paidAt: null }] });
+        db.tables.purchase[0].purchaseOrderId = 7;
+        db.tables.purchase[1].purchaseOrderId = 7;
+        const [first, second] = db.tables.purchase;
+        const [po] = db.tables.purchaseOrder;
+
+        await applyAllocations(db, [{ purchaseId: 1, amount: 1000 }, { purchaseId: 2, amount: 200 }]);
+        assert.deepEqual([first.paidAmount, first.paymentStatus], [1000, 'paid']);
+        assert.deepEqual([second.paidAmount, second.paymentStatus], [200, 'partially_paid']);
+        assert.equal(po.status, 'invoiced');
+
+        await applyAllocations(db, [{ purchaseId: 2, amount: 320 }]);
+        assert.equal(second.paymentStatus, 'paid');
+        assert.equal(po.status, 'paid');
+        assert.ok(po.paidAt instanceof Date);
+
+        await applyAllocations(db, [{ purchaseId: 2, amount: 320 }], -1);
+        assert.deepEqual([second.paidAmount, second.paymentStatus], [200, 'partially_paid']);
+        assert.deepEqual([po.status, po.paidAt], ['invoiced', null]);
+    });
+});
+
+describe('supplier statement', () => {
+    const db = seed({
+        supplierPayment: [
+            { id: 1, supplierId: 1, amount: 300, mode: 'neft', bankReference: 'UTR123', date: day(1) },
+            { id: 2, supplierId: 1, amount: 600, mode: 'cheque', bankReference: null, date: day(5) },
+            { id: 3, supplierId: 2, amount: 300, mode: 'cash', bankReference: null, date: day(5) }
+        ]
+    });
+    let server: ReturnType<express.Express['listen']>;
+    let baseUrl: string;
+
+    before(async () => {
+        const app = express();
+        app.use('/api/suppliers', createSuppliersRouter(db));
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it('opens with what was owed before the range and runs the balance through the entries', async () => {
+        const res = await fetch(`${baseUrl}/api/suppliers/1/statement?startDate=2026-01-03&endDate=2026-01-31`);
+        const statement = await res.json();
+
+        assert.equal(res.status, 200);
+        assert.equal(statement.openingBalance, 1000 - 300);
+        // Same-day invoice before the payment; unbilled purchases stay off the statement
+        assert.deepEqual(statement.entries.map((e: any) => [e.type, e.reference, e.balance]), [
+            ['invoice', 'INV-2', 1220],
+            ['payment', 'cheque', 620],
+            ['invoice', 'INV-3', 870]
+        ]);
+        assert.equal(statement.totalInvoiced, 770);
+        assert.equal(statement.totalPaid, 600);
+        assert.equal(statement.closingBalance, 870);
+    });
+
+    it('answers 404 for an unknown supplier and 400 for a bad date', async () => {
+        assert.equal((await fetch(`${baseUrl}/api/suppliers/9/statement`)).status, 404);
+        assert.equal((await fetch(`${baseUrl}/api/suppliers/1/statement?startDate=someday`)).status, 400);
+    });
+});